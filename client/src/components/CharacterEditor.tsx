@@ -0,0 +1,269 @@
+import { useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ImagePlus, Pencil, Plus, Search, Trash2, X } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { initials, resizeImage } from "@/lib/images";
+import type { Character } from "@shared/schema";
+
+// Show the search box once the cast gets long
+const SEARCH_THRESHOLD = 8;
+
+const TEXT_FIELDS = ["appearance", "personality", "speechStyle", "relationships", "secrets"] as const;
+
+type CharacterEditorProps = {
+  characters: Character[];
+  onChange: (characters: Character[]) => void;
+};
+
+function emptyCharacter(): Character {
+  return {
+    id: crypto.randomUUID(),
+    name: "",
+    role: "",
+    appearance: "",
+    personality: "",
+    speechStyle: "",
+    relationships: "",
+    secrets: "",
+    avatarUrl: "",
+  };
+}
+
+// Character sheets of a world: a list of the cast, with each sheet edited in
+// its own dialog
+export function CharacterEditor({ characters, onChange }: CharacterEditorProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<Character | null>(null);
+  const [search, setSearch] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const query = search.trim().toLowerCase();
+  const shown = query
+    ? characters.filter((character) => `${character.name} ${character.role}`.toLowerCase().includes(query))
+    : characters;
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const character = { ...draft, name: draft.name.trim() };
+    const exists = characters.some((other) => other.id === character.id);
+    onChange(exists
+      ? characters.map((other) => (other.id === character.id ? character : other))
+      : [...characters, character]);
+    setDraft(null);
+  };
+
+  const handleDelete = (character: Character) => {
+    if (confirm(t("characters.deleteConfirm", { name: character.name }))) {
+      onChange(characters.filter((other) => other.id !== character.id));
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const avatarUrl = await resizeImage(file);
+      setDraft((prev) => prev && { ...prev, avatarUrl });
+    } catch (error) {
+      console.error("Error reading avatar:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{t("worlds.characters")}</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(emptyCharacter())}
+          data-testid="button-add-character"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {t("characters.add")}
+        </Button>
+      </div>
+
+      {characters.length > SEARCH_THRESHOLD && (
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("characters.search")}
+            className="pl-8"
+            data-testid="input-search-characters"
+          />
+        </div>
+      )}
+
+      {characters.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("characters.empty")}</p>
+      ) : (
+        <ul className="divide-y divide-border rounded-md border border-border max-h-72 overflow-y-auto">
+          {shown.map((character) => (
+            <li key={character.id} className="flex items-center gap-3 px-3 py-2" data-testid={`character-${character.id}`}>
+              <Avatar className="h-8 w-8">
+                {character.avatarUrl && <AvatarImage src={character.avatarUrl} alt="" />}
+                <AvatarFallback className="text-xs">{initials(character.name)}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{character.name}</div>
+                {character.role && <div className="text-xs text-muted-foreground truncate">{character.role}</div>}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setDraft(character)}
+                aria-label={t("characters.edit")}
+                data-testid={`button-edit-character-${character.id}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 hover:text-destructive"
+                onClick={() => handleDelete(character)}
+                aria-label={t("common.delete")}
+                data-testid={`button-delete-character-${character.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {draft && characters.some((other) => other.id === draft.id) ? t("characters.edit") : t("characters.add")}
+            </DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <Avatar className="h-16 w-16">
+                  {draft.avatarUrl && <AvatarImage src={draft.avatarUrl} alt="" />}
+                  <AvatarFallback>{initials(draft.name)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={draft.avatarUrl.startsWith("data:") ? "" : draft.avatarUrl}
+                    onChange={(e) => setDraft({ ...draft, avatarUrl: e.target.value.trim() })}
+                    placeholder={t("characters.avatarUrlPlaceholder")}
+                    data-testid="input-character-avatar-url"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fileInputRef.current?.click()}
+                      data-testid="button-upload-avatar"
+                    >
+                      <ImagePlus className="w-4 h-4 mr-1" />
+                      {t("characters.uploadAvatar")}
+                    </Button>
+                    {draft.avatarUrl && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, avatarUrl: "" })}
+                        data-testid="button-remove-avatar"
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        {t("characters.removeAvatar")}
+                      </Button>
+                    )}
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg,image/gif,image/webp"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleUpload(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="character-name">{t("characters.name")} *</Label>
+                  <Input
+                    id="character-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    maxLength={100}
+                    data-testid="input-character-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="character-role">{t("characters.role")}</Label>
+                  <Input
+                    id="character-role"
+                    value={draft.role}
+                    onChange={(e) => setDraft({ ...draft, role: e.target.value })}
+                    placeholder={t("characters.rolePlaceholder")}
+                    maxLength={200}
+                    data-testid="input-character-role"
+                  />
+                </div>
+              </div>
+
+              {TEXT_FIELDS.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`character-${field}`}>{t(`characters.${field}`)}</Label>
+                  <Textarea
+                    id={`character-${field}`}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    placeholder={t(`characters.${field}Placeholder`)}
+                    rows={2}
+                    maxLength={10000}
+                    data-testid={`textarea-character-${field}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={!draft?.name.trim()}
+              data-testid="button-save-character"
+            >
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Download, FileDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadAttachment } from "@/lib/download";
+import { CHAT_EXPORT_FORMATS, type ChatExportFormat } from "@shared/chatExport";
+
+type ChatExportDialogProps = {
+  worldId?: string; // the world's chat; the global chat when omitted
+  threadId?: string | null; // a thread of the world; null for its own chat
+};
+
+// Download the chat on screen as Markdown, an HTML page, a PDF or JSON,
+// optionally only between two dates and with the world's context
+export function ChatExportDialog({ worldId, threadId = null }: ChatExportDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ChatExportFormat>("markdown");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [context, setContext] = useState(true);
+  const [timestamps, setTimestamps] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Dates are whole days, and timestamps are written, in the user's time zone
+      const query = new URLSearchParams({
+        format,
+        context: String(!!worldId && context),
+        timestamps: String(timestamps),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      if (worldId) query.set("worldId", worldId);
+      if (worldId && threadId) query.set("threadId", threadId);
+      if (from) query.set("from", new Date(`${from}T00:00:00`).toISOString());
+      if (to) query.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+      await downloadAttachment(`/api/chat/export?${query}`, "chat");
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("chatExport.failed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={t("chatExport.open")}
+          aria-label={t("chatExport.open")}
+          data-testid="button-open-chat-export"
+          className={worldId ? undefined : "min-h-[44px] min-w-[44px]"}
+        >
+          <FileDown className={worldId ? "w-4 h-4" : "w-4 h-4 md:w-5 md:h-5"} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("chatExport.title")}</DialogTitle>
+          <DialogDescription>{t(`chatExport.formatDescriptions.${format}`)}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>{t("chatExport.format")}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ChatExportFormat)}>
+              <SelectTrigger data-testid="select-chat-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHAT_EXPORT_FORMATS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`chatExport.formats.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="chat-export-from">{t("chatExport.from")}</Label>
+              <Input
+                id="chat-export-from"
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                data-testid="input-chat-export-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="chat-export-to">{t("chatExport.to")}</Label>
+              <Input
+                id="chat-export-to"
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                data-testid="input-chat-export-to"
+              />
+            </div>
+          </div>
+          {worldId && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="chat-export-context"
+                checked={context}
+                onCheckedChange={(checked) => setContext(checked === true)}
+                data-testid="checkbox-chat-export-context"
+              />
+              <Label htmlFor="chat-export-context">{t("chatExport.includeContext")}</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="chat-export-timestamps"
+              checked={timestamps}
+              onCheckedChange={(checked) => setTimestamps(checked === true)}
+              data-testid="checkbox-chat-export-timestamps"
+            />
+            <Label htmlFor="chat-export-timestamps">{t("chatExport.includeTimestamps")}</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting} data-testid="button-export-chat">
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {t("chatExport.export")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,18 @@
-import { useState, useRef, KeyboardEvent } from "react";
-import { Send } from "lucide-react";
+import { useState, useRef, KeyboardEvent, type ReactNode } from "react";
+import { Send, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useTranslation } from "react-i18next";
 
 type ChatInputProps = {
   onSendMessage: (message: string) => void;
   disabled?: boolean;
+  isGenerating?: boolean; // Shows a stop button in place of Send
+  onStop?: () => void;
+  footer?: ReactNode; // shown under the input, e.g. the context meter
+  onTyping?: (typing: boolean) => void; // whether a message is being written, for the world's room
 };
 
-export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
+export function ChatInput({ onSendMessage, disabled = false, isGenerating = false, onStop, footer, onTyping }: ChatInputProps) {
   const { t } = useTranslation();
   const [message, setMessage] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -16,6 +20,7 @@ export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
   const handleSend = () => {
     if (message.trim() && !disabled) {
       onSendMessage(message.trim());
+      onTyping?.(false);
       setMessage("");
       if (textareaRef.current) {
         textareaRef.current.style.height = "auto";
@@ -32,6 +37,7 @@ export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
 
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    onTyping?.(e.target.value.trim() !== "");
     e.target.style.height = "auto";
     e.target.style.height = `${e.target.scrollHeight}px`;
   };
@@ -51,16 +57,31 @@ export function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
             className="w-full rounded-xl border-2 border-input bg-background px-3 md:px-4 py-2.5 md:py-3 text-sm md:text-base resize-none focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px] max-h-[200px]"
             rows={1}
           />
-          <Button
-            onClick={handleSend}
-            disabled={!message.trim() || disabled}
-            size="icon"
-            data-testid="button-send-message"
-            className="h-11 w-11 md:h-10 md:w-10 shrink-0"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isGenerating && onStop ? (
+            <Button
+              onClick={onStop}
+              variant="secondary"
+              size="icon"
+              title={t('chat.stopGenerating')}
+              aria-label={t('chat.stopGenerating')}
+              data-testid="button-stop-generating"
+              className="h-11 w-11 md:h-10 md:w-10 shrink-0"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!message.trim() || disabled}
+              size="icon"
+              data-testid="button-send-message"
+              className="h-11 w-11 md:h-10 md:w-10 shrink-0"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
+        {footer && <div className="mt-1.5 flex justify-end">{footer}</div>}
       </div>
     </div>
   );
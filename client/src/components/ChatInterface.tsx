@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { ChatMessage } from "./ChatMessage";
 import { ChatInput } from "./ChatInput";
+import { ContextMeter } from "./ContextMeter";
 import {
   Select,
   SelectContent,
@@ -9,9 +10,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2, Globe } from "lucide-react";
+import { Loader2, Globe, Users } from "lucide-react";
 import { useTranslation } from "react-i18next";
-import type { World } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorldRoom, type RoomChatEvent } from "@/hooks/use-world-room";
+import type { ContextBudget, World, WorldRole } from "@shared/schema";
+import { allows } from "@shared/worldRoles";
 
 type Message = {
   id: string;
@@ -19,26 +23,97 @@ type Message = {
   content: string;
   timestamp: Date;
   azureMessageId?: string; // Row key from Azure for deletion
+  isStreaming?: boolean; // Reply is still being generated
+  stopped?: boolean; // Generation was stopped by the user
+  parentId?: string | null; // Exchange this one follows in the world's tree
+  siblingIds?: string[]; // Alternatives to this exchange, itself included
+  speaker?: string | null; // Who sent a user message in a world chat
 };
 
+type SendOptions = {
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+  path?: string; // Endpoint of a message action (default /api/chat)
+  body?: Record<string, unknown>; // Extra fields for that endpoint
+};
+
+type Turn = {
+  content: string;
+  messages: Message[];
+  path?: string;
+  body?: Record<string, unknown>;
+  appendTo?: Message;
+  siblingIds?: string[]; // Alternatives the new exchange joins
+};
+
+// World history items are exchanges; each becomes a user message and a reply
+// that share the exchange's id
+function exchangesToMessages(items: any[]): Message[] {
+  const messages: Message[] = [];
+  items.forEach((item, index) => {
+    const uniqueId = item.id || `${Date.now()}-${index}`;
+    const exchange = {
+      timestamp: new Date(item.createdUtc || Date.now()),
+      azureMessageId: item.id,
+      parentId: item.parentId,
+      siblingIds: item.siblingIds,
+    };
+    if (item.input) {
+      messages.push({ ...exchange, id: `user-${uniqueId}`, role: "user", content: item.input, speaker: item.speaker });
+    }
+    if (item.aiReply) {
+      messages.push({ ...exchange, id: `ai-${uniqueId}`, role: "assistant", content: item.aiReply });
+    }
+  });
+  return messages;
+}
+
+// The exchange a new message follows: the end of the branch on screen. null
+// when the chat is empty; undefined when nothing shown is stored yet, which
+// lets the server pick the newest exchange.
+function branchTip(messages: Message[]): string | null | undefined {
+  if (messages.length === 0) return null;
+  return [...messages].reverse().find((m) => m.azureMessageId)?.azureMessageId;
+}
+
 type ChatInterfaceProps = {
-  onSendMessage: (message: string, history: Message[], worldSettings?: any) => Promise<any>;
+  onSendMessage: (message: string, history: Message[], worldSettings?: any, options?: SendOptions) => Promise<any>;
   initialMessages?: Message[];
   userId: string;
   userEmail: string;
   world?: World; // Optional preset world for dedicated world chats
+  threadId?: string | null; // Thread of the preset world; null for its own chat
+  role?: WorldRole; // The user's role when the preset world is shared with them
+  // An exchange to show and mark, e.g. a search hit; its page and the ones
+  // after it are loaded first. onFocused is called once it is taken in.
+  focusExchangeId?: string | null;
+  onFocused?: () => void;
 };
 
+// How long a focused exchange stays marked
+const HIGHLIGHT_MS = 4000;
+
 export function ChatInterface({
   onSendMessage,
   initialMessages = [],
   userId,
   userEmail,
   world,
+  threadId = null,
+  role,
+  focusExchangeId,
+  onFocused,
 }: ChatInterfaceProps) {
   const { t } = useTranslation();
+  const { user } = useAuth();
   const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Context window use reported with the last reply
+  const [contextBudget, setContextBudget] = useState<ContextBudget | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Exchanges this chat sent, so the room's copies of them aren't added twice
+  const ownExchangeIdsRef = useRef(new Set<string>());
   const [selectedWorldId, setSelectedWorldId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -48,6 +123,9 @@ export function ChatInterface({
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Whether the storage can extend a stored reply (Azure can't)
+  const [canContinue, setCanContinue] = useState(false);
 
   // Only fetch worlds if this is the main chat (not a dedicated world chat)
   const { data: worldsData } = useQuery<{ ok: boolean; worlds: World[] }>({
@@ -56,7 +134,7 @@ export function ChatInterface({
       if (!userEmail || !userId) {
         throw new Error("User email and ID required");
       }
-      const response = await fetch(`/api/worlds?userId=${userId}&email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch(`/api/worlds?userId=${userId}`);
       if (!response.ok) throw new Error("Failed to fetch worlds");
       return response.json();
     },
@@ -70,53 +148,45 @@ export function ChatInterface({
   // Determine the active world ID (either from preset world prop or selected dropdown)
   const activeWorldId = world?.id || selectedWorldId;
 
-  // Function to load initial world chat history (newest 10 messages)
-  const loadInitialWorldHistory = async (worldId: string) => {
+  // Viewers of a shared world only read it; players chat but don't delete
+  const canChat = !role || allows(role, "player");
+  const canDelete = !role || allows(role, "editor");
+  // The name the server records on this user's messages
+  const speakerName = user?.name || userEmail;
+
+  // Function to load initial world chat history (newest 10 messages of the
+  // branch through `throughId`, by default the newest branch). With
+  // `revealId`, older pages are loaded until that exchange is among them.
+  const loadInitialWorldHistory = async (worldId: string, throughId?: string, revealId?: string) => {
     if (!userEmail || !worldId) return;
     
     try {
       setIsInitialLoad(true);
-      const response = await fetch("/api/chat/world-history", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email: userEmail,
-          worldId: worldId,
-          take: 10, // Load 10 messages at a time
-        }),
-      });
-      
-      if (!response.ok) throw new Error("Failed to fetch world history");
-      
-      const data = await response.json();
+      let data: { items?: any[]; continuationToken?: string | null; canContinue?: boolean } = {};
+      let items: any[] = [];
+      do {
+        const response = await fetch("/api/chat/world-history", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            worldId: worldId,
+            threadId,
+            take: 10, // Load 10 messages at a time
+            throughId,
+            continuationToken: data.continuationToken,
+          }),
+        });
+        
+        if (!response.ok) throw new Error("Failed to fetch world history");
+        
+        data = await response.json();
+        items = [...(data.items || []), ...items];
+      } while (revealId && data.continuationToken && !items.some((item) => item.id === revealId));
       
       // Convert Azure items to messages and ensure chronological order (oldest first, newest last)
-      const historyMessages: Message[] = [];
-      if (data.items) {
-        data.items.forEach((item: any, index: number) => {
-          const uniqueId = item.id || `${Date.now()}-${index}`;
-          if (item.input) {
-            historyMessages.push({
-              id: `user-${uniqueId}`,
-              role: "user",
-              content: item.input,
-              timestamp: new Date(item.createdUtc || Date.now()),
-              azureMessageId: item.id,
-            });
-          }
-          if (item.aiReply) {
-            historyMessages.push({
-              id: `ai-${uniqueId}`,
-              role: "assistant",
-              content: item.aiReply,
-              timestamp: new Date(item.createdUtc || Date.now()),
-              azureMessageId: item.id,
-            });
-          }
-        });
-      }
+      const historyMessages = exchangesToMessages(items);
       
       // Sort messages by timestamp to ensure newest are at the bottom (chronological order)
       historyMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -124,13 +194,16 @@ export function ChatInterface({
       setMessages(historyMessages);
       setContinuationToken(data.continuationToken || null);
       setHasMoreMessages(!!data.continuationToken);
+      setCanContinue(!!data.canContinue);
       
       console.log(`[WORLD-HISTORY] Loaded ${historyMessages.length} initial messages, has more: ${!!data.continuationToken}`);
       
-      // Scroll to bottom on initial load
-      setTimeout(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: "auto" });
-      }, 100);
+      // Scroll to bottom on initial load (the revealed message scrolls itself into view)
+      if (!revealId) {
+        setTimeout(() => {
+          messagesEndRef.current?.scrollIntoView({ behavior: "auto" });
+        }, 100);
+      }
     } catch (error) {
       console.error("Error loading initial world history:", error);
     } finally {
@@ -160,10 +233,11 @@ export function ChatInterface({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          email: userEmail,
           worldId: activeWorldId,
+          threadId,
           take: 10, // Load 10 messages at a time
           continuationToken: continuationToken,
+          throughId: branchTip(messages) || undefined, // Stay on the branch on screen
         }),
       });
       
@@ -172,30 +246,7 @@ export function ChatInterface({
       const data = await response.json();
       
       // Convert Azure items to messages and ensure chronological order
-      const olderMessages: Message[] = [];
-      if (data.items) {
-        data.items.forEach((item: any, index: number) => {
-          const uniqueId = item.id || `${Date.now()}-${index}`;
-          if (item.input) {
-            olderMessages.push({
-              id: `user-${uniqueId}`,
-              role: "user",
-              content: item.input,
-              timestamp: new Date(item.createdUtc || Date.now()),
-              azureMessageId: item.id,
-            });
-          }
-          if (item.aiReply) {
-            olderMessages.push({
-              id: `ai-${uniqueId}`,
-              role: "assistant",
-              content: item.aiReply,
-              timestamp: new Date(item.createdUtc || Date.now()),
-              azureMessageId: item.id,
-            });
-          }
-        });
-      }
+      const olderMessages = exchangesToMessages(data.items || []);
       
       // Sort older messages by timestamp (oldest first)
       olderMessages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -225,15 +276,32 @@ export function ChatInterface({
     } finally {
       setIsLoadingMore(false);
     }
-  }, [activeWorldId, userEmail, continuationToken, isLoadingMore, hasMoreMessages]);
+  }, [activeWorldId, threadId, userEmail, continuationToken, isLoadingMore, hasMoreMessages, messages]);
 
-  // Load initial history when world changes
+  // Load initial history when world changes (around the focused exchange
+  // when there is one, below)
   useEffect(() => {
-    if (activeWorldId && userEmail) {
+    if (activeWorldId && userEmail && !focusExchangeId) {
       loadInitialWorldHistory(activeWorldId);
     }
   }, [activeWorldId, userEmail]);
 
+  // Show the focused exchange: in a world chat, load its branch down from
+  // it; the global chat has it loaded already
+  useEffect(() => {
+    if (!focusExchangeId) return;
+    if (!world) setSelectedWorldId(null);
+    if (world && userEmail) loadInitialWorldHistory(world.id, focusExchangeId, focusExchangeId);
+    setHighlightedId(focusExchangeId);
+    onFocused?.();
+  }, [focusExchangeId]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
   // Update messages when switching back to default/global chat (no world selected)
   useEffect(() => {
     if (!world && !selectedWorldId) {
@@ -276,41 +344,89 @@ export function ChatInterface({
     }
   }, [activeWorldId]); // Only trigger when switching worlds
 
-  const handleSend = async (content: string) => {
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content,
-      timestamp: new Date(),
-    };
+  // Changes others made to the world's chat, live from its room. While this
+  // chat waits for a reply of its own it reloads afterwards anyway, so events
+  // are skipped then.
+  const handleRoomEvent = (event: RoomChatEvent) => {
+    if (!activeWorldId || isLoading || isInitialLoad) return;
+    if (event.type === "deleted") {
+      if (messages.some((m) => m.azureMessageId === event.messageId)) loadInitialWorldHistory(activeWorldId);
+      return;
+    }
+    if (event.type !== "reconnected" && event.threadId !== threadId) return;
+    if (event.type !== "exchange") {
+      loadInitialWorldHistory(activeWorldId, branchTip(messages) || undefined);
+      return;
+    }
+
+    // A new exchange shows when it follows the branch on screen
+    const { exchange } = event;
+    if (ownExchangeIdsRef.current.has(exchange.id) || messages.some((m) => m.azureMessageId === exchange.id)) return;
+    if (exchange.parentId !== (branchTip(messages) ?? null)) return;
+    setMessages((prev) => [...prev, ...exchangesToMessages([exchange])]);
+    setTimeout(() => scrollToBottom("smooth"), 100);
+  };
+
+  const room = useWorldRoom(activeWorldId, handleRoomEvent);
+  const othersHere = room.members.filter((member) => member.id !== room.selfId);
+  const othersTyping = room.typing.filter((entry) => entry.threadId === threadId && entry.id !== room.selfId);
+  // This chat shows its own replies being generated; other tabs' and people's show here
+  const othersReplying = room.replying.filter(
+    (entry) => entry.threadId === threadId && !(isLoading && entry.id === room.selfId),
+  );
+  // Messages are labelled with who sent them once there is more than one person
+  const showSpeakers =
+    othersHere.length > 0 || new Set(messages.map((m) => m.speaker).filter(Boolean)).size > 1;
 
-    // Add user message to state first
-    const updatedMessages = [...messages, userMessage];
-    setMessages(updatedMessages);
+  // Generate one reply. `messages` is what the chat shows (and the history
+  // sent) while it is generated; `appendTo` is the reply a continuation is
+  // added to.
+  const runTurn = async ({ content, messages: turnMessages, path, body, appendTo, siblingIds }: Turn) => {
+    setMessages(turnMessages);
     setIsLoading(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const aiMessageId = appendTo?.id ?? (Date.now() + 1).toString();
+    const baseText = appendTo?.content ?? "";
+    let streamedText = "";
     
     // Scroll to bottom after user message is added
     setTimeout(() => scrollToBottom("smooth"), 100);
 
     try {
-      // Prepare world-specific settings if a world is selected
-      const worldSettings = selectedWorld ? {
-        worldId: selectedWorld.id,
-        model: selectedWorld.model,
-        temperature: selectedWorld.temperature,
-        maxTokens: selectedWorld.maxTokens,
-        responseStyle: selectedWorld.responseStyle,
-        conversationStyle: selectedWorld.conversationStyle,
-        customPersonality: selectedWorld.customPersonality,
-        characters: selectedWorld.characters,
-        events: selectedWorld.events,
-        scenario: selectedWorld.scenario,
-        places: selectedWorld.places,
-        additionalSettings: selectedWorld.additionalSettings,
-      } : undefined;
+      // The server reads the selected world's settings itself
+      const worldSettings = selectedWorld ? { worldId: selectedWorld.id } : undefined;
+
+      // The assistant message is created on the first token (or is the reply
+      // being continued) and grows as more arrive
+      const handleToken = (text: string) => {
+        const isFirstToken = streamedText === "";
+        streamedText += text;
+        if (isFirstToken) setIsStreaming(true);
+        if (isFirstToken && !appendTo) {
+          setMessages((prev) => [...prev, {
+            id: aiMessageId,
+            role: "assistant",
+            content: streamedText,
+            timestamp: new Date(),
+            isStreaming: true,
+          }]);
+        } else {
+          setMessages((prev) => prev.map((m) =>
+            m.id === aiMessageId ? { ...m, content: baseText + streamedText, isStreaming: true } : m
+          ));
+        }
+        scrollToBottom("auto");
+      };
 
       // Send message with full conversation history (including the user's new message) and optional world settings
-      const response = await onSendMessage(content, updatedMessages, worldSettings);
+      const response = await onSendMessage(content, turnMessages, worldSettings, {
+        signal: abortController.signal,
+        onToken: handleToken,
+        path,
+        body: world ? { ...body, threadId } : body,
+      });
 
       // Check if Azure returned an error
       if (!response.ok) {
@@ -318,38 +434,176 @@ export function ChatInterface({
         throw new Error(errorMsg);
       }
 
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: response.ai?.reply || response.reply || "No reply received",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+      if (response.contextBudget) setContextBudget(response.contextBudget);
+      if (response.exchangeId) ownExchangeIdsRef.current.add(response.exchangeId);
+      const reply = response.ai?.reply || response.reply || streamedText;
+      const aiMessage: Message = appendTo
+        ? { ...appendTo, content: baseText + reply }
+        : {
+            id: aiMessageId,
+            role: "assistant",
+            content: reply || "No reply received",
+            timestamp: new Date(),
+          };
+      setMessages((prev) => [...prev.filter((m) => m.id !== aiMessageId), aiMessage]);
+
+      // A stored exchange replaces the message and reply shown for it, so
+      // they can be acted on. When the chat is kept by the provider (Azure)
+      // it is reloaded instead, on the branch of the new or continued
+      // exchange.
+      if (activeWorldId && response.exchange) {
+        const promptId = appendTo ? undefined : turnMessages[turnMessages.length - 1]?.id;
+        const stored = exchangesToMessages([
+          { ...response.exchange, siblingIds: [...(siblingIds ?? []), response.exchange.id] },
+        ]);
+        setMessages((prev) => [...prev.filter((m) => m.id !== aiMessageId && m.id !== promptId), ...stored]);
+      } else if (activeWorldId && userEmail && response.persisted === undefined) {
+        loadInitialWorldHistory(activeWorldId, response.exchangeId || appendTo?.azureMessageId);
+      }
       
       // Scroll to bottom after AI response is added
       setTimeout(() => scrollToBottom("smooth"), 100);
-      
-      // Reload initial world history after sending message to get latest from Azure
-      if (activeWorldId && userEmail) {
-        setTimeout(() => loadInitialWorldHistory(activeWorldId), 500); // Small delay to allow Azure to process
-      }
     } catch (error) {
+      // Stopped by the user: keep whatever was generated so far
+      if (abortController.signal.aborted) {
+        setMessages((prev) => {
+          const rest = prev.filter((m) => m.id !== aiMessageId);
+          if (!streamedText) return appendTo ? [...rest, appendTo] : rest;
+          return [...rest, {
+            ...(appendTo ?? { id: aiMessageId, role: "assistant" as const, timestamp: new Date() }),
+            content: baseText + streamedText,
+            stopped: true,
+          }];
+        });
+        return;
+      }
+
       console.error("Error sending message:", error);
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: appendTo ? `${aiMessageId}-error` : aiMessageId,
         role: "assistant",
         content: "Sorry, I encountered an error. Please try again.",
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, errorMessage]);
+      setMessages((prev) => [
+        ...prev.filter((m) => m.id !== aiMessageId),
+        ...(appendTo ? [appendTo] : []),
+        errorMessage,
+      ]);
       
       // Scroll to bottom after error message is added
       setTimeout(() => scrollToBottom("smooth"), 100);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleSend = (content: string) => {
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: "user",
+      content,
+      timestamp: new Date(),
+      speaker: activeWorldId ? speakerName : undefined,
+    };
+    runTurn({
+      content,
+      messages: [...messages, userMessage],
+      body: activeWorldId ? { parentId: branchTip(messages) } : undefined,
+    });
+  };
+
+  // Message actions. They work on stored exchanges (a user message and its
+  // reply share the exchange's azureMessageId), so they're offered in world
+  // chats only. Regenerate and edit add a sibling of the exchange (Azure,
+  // which can't branch, replaces it instead).
+
+  // Ask again for the last reply
+  const handleRegenerate = (reply: Message) => {
+    const index = messages.findIndex((m) => m.id === reply.id);
+    const prompt = messages[index - 1];
+    if (!reply.azureMessageId || prompt?.role !== "user") return;
+    runTurn({
+      content: prompt.content,
+      messages: messages.slice(0, index),
+      path: "/api/chat/resend",
+      body: { replaceIds: [reply.azureMessageId] },
+      siblingIds: reply.siblingIds ?? [reply.azureMessageId],
+    });
+  };
+
+  // Resend an edited user message as an alternative to its exchange
+  const handleEdit = (prompt: Message, content: string) => {
+    const index = messages.findIndex((m) => m.id === prompt.id);
+    const replaceIds = Array.from(new Set(
+      messages.slice(index).map((m) => m.azureMessageId).filter((id): id is string => !!id)
+    ));
+    if (index < 0 || replaceIds.length === 0) return;
+    const edited: Message = {
+      id: Date.now().toString(),
+      role: "user",
+      content,
+      timestamp: new Date(),
+      speaker: speakerName,
+    };
+    runTurn({
+      content,
+      messages: [...messages.slice(0, index), edited],
+      path: "/api/chat/resend",
+      body: { replaceIds },
+      siblingIds: prompt.siblingIds ?? (prompt.azureMessageId ? [prompt.azureMessageId] : []),
+    });
+  };
+
+  // Extend the last reply, e.g. when it was cut off by maxTokens
+  const handleContinue = (reply: Message) => {
+    const index = messages.findIndex((m) => m.id === reply.id);
+    if (!reply.azureMessageId || index < 0) return;
+    runTurn({
+      content: "",
+      messages: messages.slice(0, index + 1),
+      path: "/api/chat/continue",
+      body: { messageId: reply.azureMessageId },
+      appendTo: reply,
+    });
+  };
+
+  // Show another alternative of an exchange: keep what's above it and load
+  // that sibling's branch from there down
+  const handleSelectSibling = async (message: Message, siblingId: string) => {
+    if (!activeWorldId) return;
+    try {
+      const response = await fetch("/api/chat/world-history", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ worldId: activeWorldId, threadId, fromId: siblingId }),
+      });
+      if (!response.ok) throw new Error("Failed to fetch branch");
+
+      const data = await response.json();
+      const branch = exchangesToMessages(data.items || []);
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.azureMessageId === message.azureMessageId);
+        return index < 0 ? prev : [...prev.slice(0, index), ...branch];
+      });
+    } catch (error) {
+      console.error("Error switching branch:", error);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stop generating if the chat is closed mid-reply
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   return (
     <div className="flex flex-col h-full">
       {/* World Selector - only show in main chat, not in dedicated world chats */}
@@ -385,6 +639,15 @@ export function ChatInterface({
         </div>
       )}
       
+      {othersHere.length > 0 && (
+        <div className="border-b border-border bg-background px-3 py-2 md:px-4" data-testid="text-room-members">
+          <div className="max-w-4xl mx-auto flex items-center gap-2 text-xs md:text-sm text-muted-foreground">
+            <Users className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{t('rooms.here', { names: othersHere.map((member) => member.name).join(", ") })}</span>
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto" ref={messagesContainerRef}>
         <div className="max-w-4xl mx-auto p-3 md:p-6 space-y-4 md:space-y-6">
           {hasMoreMessages && !isLoadingMore && !isInitialLoad && activeWorldId && (
@@ -424,38 +687,47 @@ export function ChatInterface({
             </div>
           )}
 
-          {messages.map((message) => (
-            <ChatMessage 
-              key={message.id} 
-              message={message}
-              worldId={activeWorldId || undefined}
-              userEmail={userEmail}
-              onDelete={activeWorldId ? async (messageId: string) => {
-                // Delete the message from Azure
-                try {
-                  const response = await fetch("/api/chat/world-message", {
-                    method: "DELETE",
-                    headers: {
-                      "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                      email: userEmail,
-                      worldId: activeWorldId,
-                      messageId: messageId,
-                    }),
-                  });
-                  if (response.ok && activeWorldId) {
-                    // Reload world history to update the UI
-                    loadInitialWorldHistory(activeWorldId);
+          {messages.map((message, index) => {
+            const canAct = !!activeWorldId && !!message.azureMessageId && !isLoading;
+            const isLastReply = message.role === "assistant" && index === messages.length - 1;
+            return (
+              <ChatMessage 
+                key={message.id} 
+                message={message}
+                worldId={activeWorldId || undefined}
+                userEmail={userEmail}
+                speaker={showSpeakers ? message.speaker : undefined}
+                highlighted={!!highlightedId && message.role === "user" && message.azureMessageId === highlightedId}
+                onRegenerate={canAct && canChat && isLastReply ? () => handleRegenerate(message) : undefined}
+                onContinue={canAct && canChat && canContinue && isLastReply ? () => handleContinue(message) : undefined}
+                onEdit={canAct && canChat && message.role === "user" ? (content) => handleEdit(message, content) : undefined}
+                onSelectSibling={canAct && message.role === "assistant" ? (id) => handleSelectSibling(message, id) : undefined}
+                onDelete={activeWorldId && canDelete ? async (messageId: string) => {
+                  // Delete the message from Azure
+                  try {
+                    const response = await fetch("/api/chat/world-message", {
+                      method: "DELETE",
+                      headers: {
+                        "Content-Type": "application/json",
+                      },
+                      body: JSON.stringify({
+                        worldId: activeWorldId,
+                        messageId: messageId,
+                      }),
+                    });
+                    if (response.ok && activeWorldId) {
+                      // Reload world history to update the UI
+                      loadInitialWorldHistory(activeWorldId);
+                    }
+                  } catch (error) {
+                    console.error("Error deleting message:", error);
                   }
-                } catch (error) {
-                  console.error("Error deleting message:", error);
-                }
-              } : undefined}
-            />
-          ))}
+                } : undefined}
+              />
+            );
+          })}
 
-          {isLoading && (
+          {isLoading && !isStreaming && (
             <div className="flex gap-3">
               <div className="flex-shrink-0 w-8 h-8 rounded-full bg-card flex items-center justify-center">
                 <Loader2 className="w-4 h-4 text-primary animate-spin" />
@@ -470,11 +742,37 @@ export function ChatInterface({
             </div>
           )}
 
+          {othersReplying.map((entry) => (
+            <div key={entry.id} className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-room-replying">
+              <Loader2 className="w-4 h-4 text-primary animate-spin" />
+              {t('rooms.replying', { name: entry.speaker })}
+            </div>
+          ))}
+
+          {othersTyping.length > 0 && (
+            <p className="text-sm text-muted-foreground italic" data-testid="text-room-typing">
+              {t('rooms.typing', { count: othersTyping.length, names: othersTyping.map((entry) => entry.name).join(", ") })}
+            </p>
+          )}
+
           <div ref={messagesEndRef} />
         </div>
       </div>
 
-      <ChatInput onSendMessage={handleSend} disabled={isLoading} />
+      {canChat ? (
+        <ChatInput
+          onSendMessage={handleSend}
+          disabled={isLoading}
+          isGenerating={isLoading}
+          onStop={handleStop}
+          footer={contextBudget && <ContextMeter budget={contextBudget} />}
+          onTyping={activeWorldId ? (typing) => room.sendTyping(threadId, typing) : undefined}
+        />
+      ) : (
+        <div className="border-t border-border p-3 md:p-4 text-center text-sm text-muted-foreground" data-testid="text-chat-read-only">
+          {t('chat.readOnly')}
+        </div>
+      )}
     </div>
   );
 }
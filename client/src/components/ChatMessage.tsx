@@ -1,6 +1,10 @@
-import { Bot, User, Trash2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Bot, User, Trash2, RotateCcw, Pencil, ChevronsRight, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { useTranslation } from "react-i18next";
+import { MarkdownContent } from "@/components/MarkdownContent";
+import { formatTimestamp } from "@shared/chatExport";
 
 type Message = {
   id: string;
@@ -8,36 +12,36 @@ type Message = {
   content: string;
   timestamp: Date;
   azureMessageId?: string;
+  isStreaming?: boolean;
+  stopped?: boolean;
+  siblingIds?: string[];
 };
 
 type ChatMessageProps = {
   message: Message;
   worldId?: string;
   userEmail?: string;
+  speaker?: string | null; // who sent a user message, shown when several people chat in the world
   onDelete?: (messageId: string) => Promise<void>;
+  // Message actions; each button is only shown when its handler is passed
+  onRegenerate?: () => void;
+  onContinue?: () => void;
+  onEdit?: (content: string) => void; // Resend with the edited text
+  onSelectSibling?: (id: string) => void; // Show another alternative of this exchange
+  highlighted?: boolean; // Scrolled to and marked, e.g. when opened from search
 };
 
-function formatTimestamp(date: Date): string {
-  // Format: MM/DD/YYYY hh:MM tt (12-hour with AM/PM)
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const year = date.getFullYear();
-
-  let hours = date.getHours();
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12;
-  hours = hours ? hours : 12; // Convert 0 to 12
-  const hoursStr = String(hours).padStart(2, '0');
-  const minutes = String(date.getMinutes()).padStart(2, '0');
-
-  return `${month}/${day}/${year} ${hoursStr}:${minutes} ${ampm}`;
-}
-
-export function ChatMessage({ message, worldId, userEmail, onDelete }: ChatMessageProps) {
+export function ChatMessage({ message, worldId, userEmail, speaker, onDelete, onRegenerate, onContinue, onEdit, onSelectSibling, highlighted }: ChatMessageProps) {
   const { t } = useTranslation();
+  const [draft, setDraft] = useState<string | null>(null); // Text being edited, null when not editing
+  const rootRef = useRef<HTMLDivElement>(null);
   const isUser = message.role === "user";
   const time = formatTimestamp(message.timestamp);
   const canDelete = worldId && message.azureMessageId && onDelete;
+  const siblings = message.siblingIds ?? [];
+  const siblingIndex = message.azureMessageId ? siblings.indexOf(message.azureMessageId) : -1;
+  const showSiblings = onSelectSibling && siblings.length > 1 && siblingIndex >= 0;
+  const textStyle = window.innerWidth < 500 ? { fontSize: "12px" } : {};
 
   const handleDelete = async () => {
     if (!canDelete || !message.azureMessageId) return;
@@ -47,8 +51,20 @@ export function ChatMessage({ message, worldId, userEmail, onDelete }: ChatMessa
     }
   };
 
+  useEffect(() => {
+    if (highlighted) rootRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlighted]);
+
+  const handleResend = () => {
+    const content = draft?.trim();
+    if (!content || !onEdit) return;
+    setDraft(null);
+    onEdit(content);
+  };
+
   return (
     <div
+      ref={rootRef}
       className={`flex gap-3 ${isUser ? "justify-end" : "justify-start"}`}
       data-testid={`message-${message.role}-${message.id}`}
     >
@@ -59,22 +75,137 @@ export function ChatMessage({ message, worldId, userEmail, onDelete }: ChatMessa
       )}
 
       <div className={`flex flex-col ${isUser ? "items-end" : "items-start"} max-w-3xl`}>
+        {isUser && speaker && (
+          <span className="mb-1 text-xs text-muted-foreground" data-testid={`text-speaker-${message.id}`}>
+            {speaker}
+          </span>
+        )}
         <div
-          className={`rounded-2xl px-4 py-3 ${isUser
+          className={`rounded-2xl px-4 py-3 transition-shadow ${isUser
               ? "bg-primary text-primary-foreground"
               : "bg-card text-card-foreground"
-            }`}
+            } ${highlighted ? "ring-2 ring-ring ring-offset-2 ring-offset-background" : ""}`}
         >
-          <div
-            style={window.innerWidth < 500 ? { fontSize: "12px" } : {}}
-            className="text-base whitespace-pre-wrap break-words"
-            dangerouslySetInnerHTML={{ __html: message.content }}
-          />
+          {draft !== null ? (
+            <div className="flex flex-col gap-2 min-w-[16rem] md:min-w-[28rem]">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    handleResend();
+                  } else if (e.key === "Escape") {
+                    setDraft(null);
+                  }
+                }}
+                autoFocus
+                className="bg-background text-foreground"
+                data-testid={`input-edit-message-${message.id}`}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" size="sm" onClick={() => setDraft(null)} data-testid={`button-cancel-edit-${message.id}`}>
+                  {t('common.cancel')}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={handleResend} disabled={!draft.trim()} data-testid={`button-resend-message-${message.id}`}>
+                  {t('chat.saveAndResend')}
+                </Button>
+              </div>
+            </div>
+          ) : isUser ? (
+            // What the user typed is shown exactly as typed
+            <div style={textStyle} className="text-base whitespace-pre-wrap break-words">
+              {message.content}
+            </div>
+          ) : (
+            <MarkdownContent content={message.content} style={textStyle} className="text-base text-card-foreground" />
+          )}
+          {message.isStreaming && (
+            <span
+              className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-muted-foreground/60 animate-pulse"
+              data-testid={`streaming-caret-${message.id}`}
+            />
+          )}
         </div>
         <div className="flex items-center gap-2 mt-1 px-2">
           <span className="text-xs text-muted-foreground opacity-70">
             {time}
           </span>
+          {message.stopped && (
+            <span className="text-xs text-muted-foreground italic" data-testid={`message-stopped-${message.id}`}>
+              {t('chat.generationStopped')}
+            </span>
+          )}
+          {showSiblings && (
+            <div className="flex items-center" data-testid={`siblings-${message.id}`}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-50 hover:opacity-100"
+                onClick={() => onSelectSibling(siblings[siblingIndex - 1])}
+                disabled={siblingIndex === 0}
+                title={t('chat.previousAlternative')}
+                aria-label={t('chat.previousAlternative')}
+                data-testid={`button-previous-sibling-${message.id}`}
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </Button>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {siblingIndex + 1}/{siblings.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5 opacity-50 hover:opacity-100"
+                onClick={() => onSelectSibling(siblings[siblingIndex + 1])}
+                disabled={siblingIndex === siblings.length - 1}
+                title={t('chat.nextAlternative')}
+                aria-label={t('chat.nextAlternative')}
+                data-testid={`button-next-sibling-${message.id}`}
+              >
+                <ChevronRight className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+          {onEdit && draft === null && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 opacity-50 hover:opacity-100"
+              onClick={() => setDraft(message.content)}
+              title={t('chat.editMessage')}
+              aria-label={t('chat.editMessage')}
+              data-testid={`button-edit-message-${message.id}`}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+          )}
+          {onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 opacity-50 hover:opacity-100"
+              onClick={onRegenerate}
+              title={t('chat.regenerate')}
+              aria-label={t('chat.regenerate')}
+              data-testid={`button-regenerate-${message.id}`}
+            >
+              <RotateCcw className="w-3 h-3" />
+            </Button>
+          )}
+          {onContinue && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5 opacity-50 hover:opacity-100"
+              onClick={onContinue}
+              title={t('chat.continueReply')}
+              aria-label={t('chat.continueReply')}
+              data-testid={`button-continue-${message.id}`}
+            >
+              <ChevronsRight className="w-3 h-3" />
+            </Button>
+          )}
           {canDelete && (
             <Button
               variant="ghost"
@@ -0,0 +1,55 @@
+import { useTranslation } from "react-i18next";
+import { Gauge } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { ContextBudget } from "@shared/schema";
+
+// Parts of the budget listed in the tooltip, in prompt order
+const PARTS = ["system", "world", "lore", "summary", "memory", "history", "message", "reserved"] as const;
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+}
+
+// How much of the model's context window the last reply used, with the
+// breakdown the server reported
+export function ContextMeter({ budget }: { budget: ContextBudget }) {
+  const { t } = useTranslation();
+  const used = Math.min(100, Math.round(((budget.total + budget.reserved) / budget.contextWindow) * 100));
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+          data-testid="context-meter"
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          {t("context.usage", { used: formatTokens(budget.total), window: formatTokens(budget.contextWindow) })}
+          {budget.droppedMessages > 0 && ` · ${t("context.dropped", { count: budget.droppedMessages })}`}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="text-xs">
+        <div className="mb-1 font-medium">{t("context.title", { percent: used })}</div>
+        <table>
+          <tbody>
+            {PARTS.map((part) => (
+              <tr key={part}>
+                <td className="pr-4">{t(`context.${part}`)}</td>
+                <td className="text-right tabular-nums">{formatTokens(budget[part])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-1 text-muted-foreground">
+          {t("context.messages", { count: budget.historyMessages })}
+        </div>
+        {budget.truncated.length > 0 && (
+          <div className="text-muted-foreground">
+            {t("context.truncated", { fields: budget.truncated.map((field) => t(`worlds.${field}`)).join(", ") })}
+          </div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { InsertLoreEntry, LoreEntry, World } from "@shared/schema";
+
+// Entry being edited; `id` is null for a new one. Keywords are edited one
+// per line, since a regex keyword may contain commas.
+type Draft = Omit<InsertLoreEntry, "keywords"> & { id: string | null; keywords: string };
+
+type LorebookDialogProps = {
+  world: World | null; // the dialog is open while a world is set
+  onClose: () => void;
+};
+
+function emptyDraft(): Draft {
+  return { id: null, title: "", keywords: "", content: "", priority: 100, tokenBudget: 400, enabled: true };
+}
+
+function toDraft({ id, title, keywords, content, priority, tokenBudget, enabled }: LoreEntry): Draft {
+  return { id, title, keywords: keywords.join("\n"), content, priority, tokenBudget, enabled };
+}
+
+// Lorebook of a world: entries are listed with their keywords, and edited in
+// place of the list
+export function LorebookDialog({ world, onClose }: LorebookDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const queryKey = ["/api/worlds", world?.id, "lore"];
+
+  const { data, isLoading } = useQuery<{ ok: boolean; entries: LoreEntry[] }>({
+    queryKey,
+    enabled: world !== null,
+  });
+  const entries = [...(data?.entries || [])].sort((a, b) => b.priority - a.priority);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...entry }: Partial<InsertLoreEntry> & { id: string | null }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/worlds/${world!.id}/lore/${id}`, entry)
+        : await apiRequest("POST", `/api/worlds/${world!.id}/lore`, entry);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDraft(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/worlds/${world!.id}/lore/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("common.success"),
+        description: t("lorebook.deleteSuccess"),
+      });
+    },
+    onError,
+  });
+
+  const handleSave = () => {
+    if (!draft || !draft.title.trim()) return;
+    const keywords = draft.keywords.split("\n").map((keyword) => keyword.trim()).filter(Boolean);
+    saveMutation.mutate({ ...draft, title: draft.title.trim(), keywords });
+  };
+
+  const handleDelete = (entry: LoreEntry) => {
+    if (confirm(t("lorebook.deleteConfirm", { title: entry.title }))) {
+      deleteMutation.mutate(entry.id);
+    }
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={world !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl w-[calc(100vw-2rem)] md:w-full max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("lorebook.title", { name: world?.name })}</DialogTitle>
+          <DialogDescription>{t("lorebook.description")}</DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lore-title">{t("lorebook.entryTitle")} *</Label>
+              <Input
+                id="lore-title"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                maxLength={200}
+                data-testid="input-lore-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lore-keywords">{t("lorebook.keywords")}</Label>
+              <Textarea
+                id="lore-keywords"
+                value={draft.keywords}
+                onChange={(e) => setDraft({ ...draft, keywords: e.target.value })}
+                placeholder={t("lorebook.keywordsPlaceholder")}
+                rows={3}
+                className="font-mono text-sm"
+                data-testid="textarea-lore-keywords"
+              />
+              <p className="text-xs text-muted-foreground">{t("lorebook.keywordsHelp")}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lore-content">{t("lorebook.content")}</Label>
+              <Textarea
+                id="lore-content"
+                value={draft.content}
+                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                placeholder={t("lorebook.contentPlaceholder")}
+                rows={8}
+                maxLength={50000}
+                data-testid="textarea-lore-content"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="lore-priority">{t("lorebook.priority")}</Label>
+                <Input
+                  id="lore-priority"
+                  type="number"
+                  min={0}
+                  max={1000}
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) })}
+                  data-testid="input-lore-priority"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lore-budget">{t("lorebook.tokenBudget")}</Label>
+                <Input
+                  id="lore-budget"
+                  type="number"
+                  min={16}
+                  max={8000}
+                  value={draft.tokenBudget}
+                  onChange={(e) => setDraft({ ...draft, tokenBudget: Number(e.target.value) })}
+                  data-testid="input-lore-budget"
+                />
+              </div>
+              <div className="flex items-center gap-2 min-h-[40px]">
+                <Switch
+                  id="lore-enabled"
+                  checked={draft.enabled}
+                  onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+                  data-testid="switch-lore-enabled"
+                />
+                <Label htmlFor="lore-enabled">{t("lorebook.enabled")}</Label>
+              </div>
+            </div>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">{t("lorebook.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-start gap-3 px-3 py-2" data-testid={`lore-entry-${entry.id}`}>
+                <div className={`flex-1 min-w-0 space-y-1 ${entry.enabled ? "" : "opacity-50"}`}>
+                  <div className="text-sm font-medium truncate">{entry.title}</div>
+                  <div className="flex flex-wrap gap-1">
+                    {entry.keywords.map((keyword) => (
+                      <Badge key={keyword} variant="secondary" className="font-mono text-xs">
+                        {keyword}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {t("lorebook.summary", { priority: entry.priority, tokens: entry.tokenBudget })}
+                  </div>
+                </div>
+                <Switch
+                  checked={entry.enabled}
+                  onCheckedChange={(enabled) => saveMutation.mutate({ id: entry.id, enabled })}
+                  aria-label={t("lorebook.enabled")}
+                  data-testid={`switch-lore-enabled-${entry.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft(toDraft(entry))}
+                  aria-label={t("lorebook.edit")}
+                  data-testid={`button-edit-lore-${entry.id}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:text-destructive"
+                  onClick={() => handleDelete(entry)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={t("common.delete")}
+                  data-testid={`button-delete-lore-${entry.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          {draft ? (
+            <>
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {t("common.cancel")}
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={!draft.title.trim() || saveMutation.isPending}
+                data-testid="button-save-lore"
+              >
+                {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {draft.id ? t("common.save") : t("common.create")}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setDraft(emptyDraft())} data-testid="button-add-lore">
+              <Plus className="w-4 h-4 mr-2" />
+              {t("lorebook.add")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { isValidElement, useRef, useState, type ComponentPropsWithoutRef, type CSSProperties } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+
+type MarkdownContentProps = {
+  content: string;
+  className?: string;
+  style?: CSSProperties;
+};
+
+// Renders model output as GitHub-flavored markdown. Raw HTML in the source is
+// never rendered, and the tree is sanitized before highlighting so only the
+// highlighter's own classes are added after the allow-list runs.
+export function MarkdownContent({ content, className, style }: MarkdownContentProps) {
+  return (
+    <div style={style} className={`prose prose-sm dark:prose-invert max-w-none break-words ${className ?? ""}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize, rehypeHighlight]}
+        components={{
+          pre: CodeBlock,
+          a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+          table: ({ node, ...props }) => (
+            <div className="overflow-x-auto">
+              <table {...props} />
+            </div>
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+// Fenced code block with its language and a copy button
+function CodeBlock({ node, children, ...props }: ComponentPropsWithoutRef<"pre"> & { node?: unknown }) {
+  const { t } = useTranslation();
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const codeClass = isValidElement<{ className?: string }>(children) ? children.props.className : undefined;
+  const language = codeClass?.match(/language-([\w+#-]+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 overflow-hidden rounded-md border border-border bg-muted">
+      <div className="flex items-center justify-between border-b border-border px-3 py-1">
+        <span className="font-mono text-xs text-muted-foreground">{language ?? ""}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={handleCopy}
+          aria-label={copied ? t("chat.codeCopied") : t("chat.copyCode")}
+          title={copied ? t("chat.codeCopied") : t("chat.copyCode")}
+          data-testid="button-copy-code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+      <pre ref={preRef} {...props} className="overflow-x-auto p-3 font-mono text-sm leading-relaxed">
+        {children}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Brain, Loader2, Pencil, Pin, PinOff, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { Memory, MemoryUpdate } from "@shared/schema";
+
+type MemoryInspectorProps = {
+  worldId: string;
+  threadId: string | null; // null for the world's own chat
+  readOnly?: boolean; // list only (shared worlds the user can't edit)
+};
+
+// What the server remembers of one chat of a world. Pinned memories are
+// always recalled; editing a memory changes what gets recalled, forgetting
+// it keeps the exchange in the history.
+export function MemoryInspector({ worldId, threadId, readOnly = false }: MemoryInspectorProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const queryKey = threadId
+    ? ["/api/worlds", worldId, "threads", threadId, "memories"]
+    : ["/api/worlds", worldId, "memories"];
+
+  const { data, isLoading } = useQuery<{ ok: boolean; memories: Memory[] }>({ queryKey, enabled: open });
+  const query = search.trim().toLowerCase();
+  const memories = (data?.memories || [])
+    .filter((memory) => !query || memory.text.toLowerCase().includes(query))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: MemoryUpdate & { id: string }) =>
+      apiRequest("PUT", `/api/worlds/${worldId}/memories/${id}`, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const forgetMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/worlds/${worldId}/memories/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("common.success"),
+        description: t("memory.forgetSuccess"),
+      });
+    },
+    onError,
+  });
+
+  // New exchanges are remembered after every reply, so load afresh on open
+  const handleOpenChange = (next: boolean) => {
+    if (next) queryClient.invalidateQueries({ queryKey });
+    setOpen(next);
+    setEditing(null);
+  };
+
+  const handleForget = (memory: Memory) => {
+    if (confirm(t("memory.forgetConfirm"))) {
+      forgetMutation.mutate(memory.id);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={t("memory.open")}
+          aria-label={t("memory.open")}
+          data-testid="button-open-memories"
+        >
+          <Brain className="w-4 h-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>{t("memory.title")}</SheetTitle>
+          <SheetDescription>{t("memory.description")}</SheetDescription>
+        </SheetHeader>
+
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("memory.search")}
+            className="pl-8"
+            data-testid="input-search-memories"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : memories.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              {query ? t("memory.noMatches") : t("memory.empty")}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {memories.map((memory) => (
+                <li
+                  key={memory.id}
+                  className={`rounded-md border px-3 py-2 space-y-2 ${memory.pinned ? "border-primary" : "border-border"}`}
+                  data-testid={`memory-${memory.id}`}
+                >
+                  {editing?.id === memory.id ? (
+                    <>
+                      <Textarea
+                        value={editing.text}
+                        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                        rows={6}
+                        maxLength={10000}
+                        autoFocus
+                        data-testid={`textarea-memory-${memory.id}`}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+                          {t("common.cancel")}
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => updateMutation.mutate({ id: memory.id, text: editing.text })}
+                          disabled={!editing.text.trim() || editing.text === memory.text || updateMutation.isPending}
+                          data-testid={`button-save-memory-${memory.id}`}
+                        >
+                          {updateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                          {t("common.save")}
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm whitespace-pre-wrap break-words line-clamp-6">{memory.text}</p>
+                      <div className="flex items-center gap-1">
+                        <span className="flex-1 text-xs text-muted-foreground">
+                          {new Date(memory.createdAt).toLocaleString()}
+                          {memory.exchangeId === null && ` · ${t("memory.edited")}`}
+                        </span>
+                        {!readOnly && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => updateMutation.mutate({ id: memory.id, pinned: !memory.pinned })}
+                              disabled={updateMutation.isPending}
+                              title={memory.pinned ? t("memory.unpin") : t("memory.pin")}
+                              aria-label={memory.pinned ? t("memory.unpin") : t("memory.pin")}
+                              data-testid={`button-pin-memory-${memory.id}`}
+                            >
+                              {memory.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setEditing({ id: memory.id, text: memory.text })}
+                              title={t("memory.edit")}
+                              aria-label={t("memory.edit")}
+                              data-testid={`button-edit-memory-${memory.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 hover:text-destructive"
+                              onClick={() => handleForget(memory)}
+                              disabled={forgetMutation.isPending}
+                              title={t("memory.forget")}
+                              aria-label={t("memory.forget")}
+                              data-testid={`button-forget-memory-${memory.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ModelCatalogResponse } from "@shared/schema";
+
+type ModelSelectProps = {
+  id?: string;
+  value?: string;
+  onValueChange: (model: string) => void;
+  placeholder?: string;
+  "data-testid"?: string;
+};
+
+// Model picker fed by the server's provider catalog (GET /api/models).
+// Models are grouped by provider; a saved model the catalog no longer lists
+// is still shown so it isn't silently replaced.
+export function ModelSelect({ id, value, onValueChange, placeholder, "data-testid": testId }: ModelSelectProps) {
+  const { t } = useTranslation();
+  const { data: catalog, isLoading } = useQuery<ModelCatalogResponse>({
+    queryKey: ["/api/models"],
+    staleTime: 5 * 60_000,
+  });
+
+  const providers = catalog?.providers || [];
+  const known = providers.some((provider) => provider.models.some((model) => model.id === value));
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} data-testid={testId}>
+        <SelectValue placeholder={isLoading ? t("models.loading") : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {value && !known && !isLoading && (
+          <SelectItem value={value}>{value}</SelectItem>
+        )}
+        {providers.map((provider) => (
+          <SelectGroup key={provider.id}>
+            <SelectLabel>{provider.label}</SelectLabel>
+            {provider.models.map((model) => (
+              <SelectItem key={model.id} value={model.id}>
+                {model.label}
+                {model.description && ` - ${model.description}`}
+              </SelectItem>
+            ))}
+            {provider.models.length === 0 && (
+              <div className="px-8 py-1.5 text-xs text-muted-foreground">
+                {provider.error ? t("models.unavailable") : t("models.none")}
+              </div>
+            )}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
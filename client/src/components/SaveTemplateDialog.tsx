@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { World } from "@shared/schema";
+
+type SaveTemplateDialogProps = {
+  world: World | null; // the dialog is open while a world is set
+  onClose: () => void;
+};
+
+// Save a world's settings, cast and context as a template for new worlds
+export function SaveTemplateDialog({ world, onClose }: SaveTemplateDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    setName(world?.name ?? "");
+    setDescription(world?.description ?? "");
+  }, [world]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/worlds/${world!.id}/template`, { name: name.trim(), description }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: t("common.success"),
+        description: t("templates.saveSuccess", { name: name.trim() }),
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={world !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("templates.saveTitle")}</DialogTitle>
+          <DialogDescription>{t("templates.saveDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">{t("templates.name")}</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              data-testid="input-template-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">{t("templates.templateDescription")}</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={3}
+              data-testid="input-template-description"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-template"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { Fragment, useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTimestamp } from "@shared/chatExport";
+import type { World } from "@shared/schema";
+import type { SearchHit, SearchRequest, SearchSnippet } from "@shared/search";
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+// Where to search: everywhere, the global chat, or one world's chats
+const ALL = "all";
+const GLOBAL = "global";
+
+const ROLES = ["any", "user", "assistant"] as const;
+
+type SearchResponse = { ok: boolean; hits: SearchHit[]; continuationToken: string | null };
+
+type SearchDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  worlds: World[]; // the user's own and shared worlds, for the filter
+  onSelect: (hit: SearchHit) => void;
+};
+
+function Highlighted({ snippet }: { snippet: SearchSnippet }) {
+  let from = 0;
+  return (
+    <>
+      {snippet.highlights.map(([start, end]) => {
+        const before = snippet.text.slice(from, start);
+        from = end;
+        return (
+          <Fragment key={start}>
+            {before}
+            <mark className="rounded-sm bg-primary/20 text-foreground">{snippet.text.slice(start, end)}</mark>
+          </Fragment>
+        );
+      })}
+      {snippet.text.slice(from)}
+    </>
+  );
+}
+
+// Search the user's chats and open a hit where it was said
+export function SearchDialog({ open, onOpenChange, worlds, onSelect }: SearchDialogProps) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [scope, setScope] = useState(ALL);
+  const [role, setRole] = useState<(typeof ROLES)[number]>("any");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Dates are whole days in the user's time zone
+  const request: SearchRequest = {
+    query: debouncedQuery,
+    worldId: scope === ALL ? undefined : scope === GLOBAL ? null : scope,
+    role: role === "any" ? undefined : role,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+
+  const search = useInfiniteQuery({
+    queryKey: ["/api/search", request],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("POST", "/api/search", { ...request, continuationToken: pageParam });
+      return (await response.json()) as SearchResponse;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (page) => page.continuationToken ?? undefined,
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const hits = search.data?.pages.flatMap((page) => page.hits) ?? [];
+  // A new search, not the next page of this one
+  const isSearching = search.isFetching && !search.isFetchingNextPage;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-2xl">
+        <DialogTitle className="sr-only">{t("search.title")}</DialogTitle>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder={t("search.placeholder")}
+            data-testid="input-search"
+          />
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="h-8 w-[11rem]" data-testid="select-search-world">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("search.allChats")}</SelectItem>
+                <SelectItem value={GLOBAL}>{t("search.globalChat")}</SelectItem>
+                {worlds.map((world) => (
+                  <SelectItem key={world.id} value={world.id}>
+                    {world.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={role} onValueChange={(value) => setRole(value as (typeof ROLES)[number])}>
+              <SelectTrigger className="h-8 w-[9rem]" data-testid="select-search-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`search.roles.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              aria-label={t("search.from")}
+              className="h-8 w-[9.5rem]"
+              data-testid="input-search-from"
+            />
+            <Input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              aria-label={t("search.to")}
+              className="h-8 w-[9.5rem]"
+              data-testid="input-search-to"
+            />
+          </div>
+          <CommandList className="max-h-[60vh]">
+            {isSearching ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="w-5 h-5 text-primary animate-spin" />
+              </div>
+            ) : search.isError ? (
+              <p className="py-6 text-center text-sm text-destructive">{(search.error as Error).message}</p>
+            ) : (
+              debouncedQuery && <CommandEmpty>{t("search.noResults")}</CommandEmpty>
+            )}
+            {!isSearching && hits.map((hit) => (
+              <CommandItem
+                key={hit.id}
+                value={hit.id}
+                onSelect={() => onSelect(hit)}
+                className="flex-col items-start gap-1"
+                data-testid={`search-hit-${hit.id}`}
+              >
+                <div className="flex w-full justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="truncate">
+                    {hit.worldId ? hit.worldName ?? t("search.unknownWorld") : t("search.globalChat")}
+                    {hit.threadTitle && ` · ${hit.threadTitle}`}
+                  </span>
+                  <span className="flex-shrink-0">{formatTimestamp(new Date(hit.createdUtc))}</span>
+                </div>
+                {hit.snippets.map((snippet) => (
+                  <p key={snippet.role} className="text-sm">
+                    <span className="font-medium">
+                      {snippet.role === "user" ? hit.speaker || t("search.you") : t("search.ai")}:
+                    </span>{" "}
+                    <Highlighted snippet={snippet} />
+                  </p>
+                ))}
+              </CommandItem>
+            ))}
+            {search.hasNextPage && !isSearching && (
+              <div className="flex justify-center p-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => search.fetchNextPage()}
+                  disabled={search.isFetchingNextPage}
+                  data-testid="button-search-more"
+                >
+                  {search.isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t("search.more")}
+                </Button>
+              </div>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { History, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { WorldSummary } from "@shared/schema";
+
+// The story summary of a world inside the world dialog. The newest version
+// is what the chat uses; saving an edit or restoring an older version adds a
+// new one.
+export function SummaryPanel({ worldId }: { worldId: string }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = ["/api/worlds", worldId, "summaries"];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [text, setText] = useState("");
+
+  const { data, isLoading } = useQuery<{ ok: boolean; summaries: WorldSummary[] }>({ queryKey });
+  const versions = data?.summaries || [];
+  const latest = versions.at(-1);
+  const selected = versions.find((version) => version.id === selectedId) ?? latest;
+  const isLatest = selected !== undefined && selected === latest;
+
+  // Show the newest version whenever the list changes (e.g. after saving)
+  useEffect(() => {
+    setSelectedId(null);
+    setText(latest?.summary ?? "");
+  }, [latest?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, summary }: { id: string; summary: string }) =>
+      apiRequest("PUT", `/api/worlds/${worldId}/summaries/${id}`, { summary }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("common.success"),
+        description: t("summaries.saveSuccess"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelect = (id: string) => {
+    const version = versions.find((other) => other.id === id);
+    setSelectedId(id);
+    setText(version?.summary ?? "");
+  };
+
+  const versionLabel = (version: WorldSummary, index: number) => {
+    const date = version.createdUtc ? new Date(version.createdUtc).toLocaleString() : "";
+    return `v${index + 1} · ${date} · ${t(`summaries.source.${version.source}`)}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="world-summary">{t("summaries.title")}</Label>
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : !selected ? (
+        <p className="text-sm text-muted-foreground">{t("summaries.empty")}</p>
+      ) : (
+        <>
+          <Select value={selected.id} onValueChange={handleSelect}>
+            <SelectTrigger data-testid="select-summary-version">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                <SelectItem key={version.id} value={version.id}>
+                  {versionLabel(version, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            id="world-summary"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            readOnly={!isLatest}
+            rows={6}
+            maxLength={20000}
+            data-testid="textarea-world-summary"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              {isLatest ? t("summaries.help") : t("summaries.olderVersion")}
+            </p>
+            {isLatest ? (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => saveMutation.mutate({ id: selected.id, summary: text })}
+                disabled={!text.trim() || text === selected.summary || saveMutation.isPending}
+                data-testid="button-save-summary"
+              >
+                <Save className="w-4 h-4 mr-1" />
+                {t("summaries.save")}
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => saveMutation.mutate({ id: selected.id, summary: selected.summary ?? "" })}
+                disabled={!selected.summary || saveMutation.isPending}
+                data-testid="button-restore-summary"
+              >
+                <History className="w-4 h-4 mr-1" />
+                {t("summaries.restore")}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
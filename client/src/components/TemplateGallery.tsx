@@ -0,0 +1,136 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { LayoutTemplate, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { BUILTIN_TEMPLATES, builtinTemplateWorld } from "@/lib/worldTemplates";
+import type { TemplateWorld, WorldTemplate } from "@shared/schema";
+
+type TemplateGalleryProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPick: (world: Partial<TemplateWorld>) => void; // pre-fills the create form
+};
+
+const queryKey = ["/api/templates"];
+
+// Pick a template to start a new world from: the built-in ones, then the
+// ones the user saved from their worlds
+export function TemplateGallery({ open, onOpenChange, onPick }: TemplateGalleryProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ ok: boolean; templates: WorldTemplate[] }>({ queryKey, enabled: open });
+  const saved = data?.templates || [];
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("common.success"),
+        description: t("templates.deleteSuccess"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (template: WorldTemplate) => {
+    if (confirm(t("templates.deleteConfirm", { name: template.name }))) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[calc(100vw-2rem)] md:w-full max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("templates.title")}</DialogTitle>
+          <DialogDescription>{t("templates.description")}</DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">{t("templates.builtinHeading")}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {BUILTIN_TEMPLATES.map((template) => {
+              const Icon = template.icon;
+              return (
+                <button
+                  key={template.id}
+                  type="button"
+                  onClick={() => onPick(builtinTemplateWorld(template, t))}
+                  className="flex items-start gap-3 rounded-md border p-3 text-left hover-elevate active-elevate-2"
+                  data-testid={`button-template-${template.id}`}
+                >
+                  <Icon className="w-5 h-5 mt-0.5 flex-shrink-0 text-primary" />
+                  <span>
+                    <span className="block font-medium">{t(`templates.builtin.${template.id}.name`)}</span>
+                    <span className="block text-sm text-muted-foreground">
+                      {t(`templates.builtin.${template.id}.summary`)}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">{t("templates.savedHeading")}</h3>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          ) : saved.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("templates.noSaved")}</p>
+          ) : (
+            <ul className="space-y-2" data-testid="list-saved-templates">
+              {saved.map((template) => (
+                <li key={template.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <button
+                    type="button"
+                    onClick={() => onPick(template.world)}
+                    className="flex flex-1 min-w-0 items-start gap-3 rounded-md p-1 text-left hover-elevate active-elevate-2"
+                    data-testid={`button-saved-template-${template.id}`}
+                  >
+                    <LayoutTemplate className="w-5 h-5 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                    <span className="min-w-0">
+                      <span className="block font-medium truncate">{template.name}</span>
+                      {template.description && (
+                        <span className="block text-sm text-muted-foreground line-clamp-2">{template.description}</span>
+                      )}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="hover:text-destructive"
+                    onClick={() => handleDelete(template)}
+                    disabled={deleteMutation.isPending}
+                    title={t("common.delete")}
+                    aria-label={t("common.delete")}
+                    data-testid={`button-delete-template-${template.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
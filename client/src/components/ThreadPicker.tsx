@@ -0,0 +1,213 @@
+import { useState, type ReactNode } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Archive, ArchiveRestore, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { ChatThread } from "@shared/schema";
+
+// Select value of the world's own chat, which isn't a thread
+const MAIN_CHAT = "main";
+
+type ThreadPickerProps = {
+  worldId: string;
+  threadId: string | null; // null for the world's own chat
+  onSelect: (threadId: string | null) => void;
+  actions?: ReactNode; // shown at the end of the bar, for the selected chat
+  readOnly?: boolean; // only switch chats (shared worlds the user can't edit)
+};
+
+// Picks which chat of a world is shown: the world's own or one of its
+// threads. New threads get a title up front; rename, archive and delete act
+// on the selected thread.
+export function ThreadPicker({ worldId, threadId, onSelect, actions, readOnly = false }: ThreadPickerProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  // Title being entered; `id` is null when creating a thread
+  const [dialog, setDialog] = useState<{ id: string | null; title: string } | null>(null);
+  const queryKey = ["/api/worlds", worldId, "threads"];
+
+  const { data } = useQuery<{ ok: boolean; threads: ChatThread[] }>({ queryKey });
+  const threads = data?.threads || [];
+  const active = threads.filter((thread) => !thread.archived);
+  const archived = threads.filter((thread) => thread.archived);
+  const selected = threads.find((thread) => thread.id === threadId);
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, ...thread }: { id: string | null; title?: string; archived?: boolean }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/worlds/${worldId}/threads/${id}`, thread)
+        : await apiRequest("POST", `/api/worlds/${worldId}/threads`, thread);
+      return (await response.json()) as { ok: boolean; thread: ChatThread };
+    },
+    onSuccess: ({ thread }, { id }) => {
+      queryClient.invalidateQueries({ queryKey });
+      setDialog(null);
+      if (!id) onSelect(thread.id);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/worlds/${worldId}/threads/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      onSelect(null);
+      toast({
+        title: t("common.success"),
+        description: t("threads.deleteSuccess"),
+      });
+    },
+    onError,
+  });
+
+  const handleDelete = () => {
+    if (selected && confirm(t("threads.deleteConfirm"))) {
+      deleteMutation.mutate(selected.id);
+    }
+  };
+
+  const handleSave = () => {
+    const title = dialog?.title.trim();
+    if (!dialog || !title) return;
+    saveMutation.mutate({ id: dialog.id, title });
+  };
+
+  return (
+    <div className="border-b border-border bg-card px-3 md:px-6 py-2 flex-shrink-0">
+      <div className="max-w-4xl mx-auto flex items-center gap-1 md:gap-2">
+        <Select
+          value={threadId ?? MAIN_CHAT}
+          onValueChange={(value) => onSelect(value === MAIN_CHAT ? null : value)}
+        >
+          <SelectTrigger className="w-full md:w-[300px]" data-testid="select-thread">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MAIN_CHAT}>{t("threads.mainChat")}</SelectItem>
+            {active.map((thread) => (
+              <SelectItem key={thread.id} value={thread.id}>
+                {thread.title}
+              </SelectItem>
+            ))}
+            {archived.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>{t("threads.archived")}</SelectLabel>
+                {archived.map((thread) => (
+                  <SelectItem key={thread.id} value={thread.id} className="text-muted-foreground">
+                    {thread.title}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDialog({ id: null, title: "" })}
+            title={t("threads.newThread")}
+            aria-label={t("threads.newThread")}
+            data-testid="button-new-thread"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        )}
+        {selected && !readOnly && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDialog({ id: selected.id, title: selected.title })}
+              title={t("threads.rename")}
+              aria-label={t("threads.rename")}
+              data-testid="button-rename-thread"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => saveMutation.mutate({ id: selected.id, archived: !selected.archived })}
+              disabled={saveMutation.isPending}
+              title={selected.archived ? t("threads.unarchive") : t("threads.archive")}
+              aria-label={selected.archived ? t("threads.unarchive") : t("threads.archive")}
+              data-testid="button-archive-thread"
+            >
+              {selected.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="hover:text-destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+              title={t("common.delete")}
+              aria-label={t("common.delete")}
+              data-testid="button-delete-thread"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+        {actions && <div className="ml-auto flex items-center">{actions}</div>}
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog?.id ? t("threads.rename") : t("threads.newThread")}</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={dialog?.title ?? ""}
+            onChange={(e) => setDialog((prev) => prev && { ...prev, title: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder={t("threads.titlePlaceholder")}
+            maxLength={100}
+            autoFocus
+            data-testid="input-thread-title"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!dialog?.title.trim() || saveMutation.isPending}
+              data-testid="button-save-thread"
+            >
+              {dialog?.id ? t("common.save") : t("common.create")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
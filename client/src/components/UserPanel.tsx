@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { User, LogOut, Settings, Mail, ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, logout } from "@/hooks/use-auth";
 import { UserSettings } from "./UserSettings";
 import {
   InputOTP,
@@ -33,10 +34,8 @@ export function UserPanel({ isOpen, onClose }: UserPanelProps) {
   const { toast } = useToast();
   const cooldownIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
-  // Check if user is logged in from localStorage
-  const userDataStr = localStorage.getItem('user_data');
-  const userData = userDataStr ? JSON.parse(userDataStr) : null;
-  const isLoggedIn = !!userData;
+  // Signed-in user from the server session
+  const { user: userData, isAuthenticated: isLoggedIn } = useAuth();
 
   // Email validation regex
   const isValidEmail = (email: string) => {
@@ -110,15 +109,7 @@ export function UserPanel({ isOpen, onClose }: UserPanelProps) {
         description: t('auth.loginSuccess'),
       });
       
-      const user = {
-        email: data.email || email,
-        name: data.name || email.split('@')[0],
-        loginTime: new Date().toISOString(),
-        token: data.token
-      };
-      
-      localStorage.setItem('user_data', JSON.stringify(user));
-      
+      // The server has started a session; reload to pick it up
       setTimeout(() => {
         window.location.reload();
       }, 1000);
@@ -309,16 +300,7 @@ export function UserPanel({ isOpen, onClose }: UserPanelProps) {
         description: t('auth.verificationSuccessMessage'),
       });
 
-      // Store user data and log in
-      const user = {
-        email: email,
-        name: name,
-        loginTime: new Date().toISOString(),
-        token: data.token
-      };
-      
-      localStorage.setItem('user_data', JSON.stringify(user));
-      
+      // Verification signs the user in on the server; reload to pick up the session
       setTimeout(() => {
         window.location.reload();
       }, 1000);
@@ -344,12 +326,16 @@ export function UserPanel({ isOpen, onClose }: UserPanelProps) {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('user_data');
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
     window.location.reload();
   };
 
-  if (isLoggedIn) {
+  if (isLoggedIn && userData) {
     return (
       <Sheet open={isOpen} onOpenChange={onClose}>
         <SheetContent className="w-full sm:max-w-md overflow-y-auto" data-testid="panel-user-logged-in">
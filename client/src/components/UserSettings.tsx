@@ -12,6 +12,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { ModelSelect } from "@/components/ModelSelect";
 import { Loader2, Save, Languages } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import type { UserSettings } from "@shared/schema";
@@ -46,7 +47,7 @@ export function UserSettings({ userEmail }: UserSettingsProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email: userEmail })
+        body: JSON.stringify({})
       });
 
       if (!response.ok) {
@@ -86,10 +87,7 @@ export function UserSettings({ userEmail }: UserSettingsProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ 
-          email: userEmail,
-          settings: settings
-        })
+        body: JSON.stringify({ settings })
       });
 
       if (!response.ok) {
@@ -155,23 +153,13 @@ export function UserSettings({ userEmail }: UserSettingsProps) {
         <div className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="model">{t('settings.selectModel')}</Label>
-            <Select
+            <ModelSelect
+              id="model"
               value={settings.model}
-              onValueChange={(value) => setSettings({ ...settings, model: value as any })}
-            >
-              <SelectTrigger id="model" data-testid="select-model">
-                <SelectValue placeholder={t('settings.selectModel')} />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="gpt-5-nano">GPT-5 Nano - $0.05/$0.40 per 1M tokens</SelectItem>
-                <SelectItem value="gpt-4o-mini">GPT-4o Mini - $0.15/$0.60 per 1M tokens</SelectItem>
-                <SelectItem value="gpt-5-mini">GPT-5 Mini - $0.25/$2.00 per 1M tokens</SelectItem>
-                <SelectItem value="gpt-5">GPT-5 - $1.25/$10.00 per 1M tokens</SelectItem>
-                <SelectItem value="gpt-4o">GPT-4o - $2.50/$10.00 per 1M tokens</SelectItem>
-                <SelectItem value="gpt-4.5">GPT-4.5 - $75.00/$150.00 per 1M tokens</SelectItem>
-                <SelectItem value="o1-pro">o1-Pro - $150.00/$600.00 per 1M tokens</SelectItem>
-              </SelectContent>
-            </Select>
+              onValueChange={(value) => setSettings({ ...settings, model: value })}
+              placeholder={t('settings.selectModel')}
+              data-testid="select-model"
+            />
             <p className="text-sm text-muted-foreground">
               Choose which AI model to use (prices: input/output tokens)
             </p>
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadAttachment, saveBlob } from "@/lib/download";
+import { cardImage } from "@/lib/images";
+import { apiRequest } from "@/lib/queryClient";
+import { worldToCard, writeCardToPng } from "@shared/characterCard";
+import type { LoreEntry, World } from "@shared/schema";
+
+// A world bundle (everything, read back by our import), or the world as a
+// character card for other chat apps, as JSON or as a PNG carrying it
+const FORMATS = ["bundle", "cardPng", "cardJson"] as const;
+
+type ExportFormat = (typeof FORMATS)[number];
+
+type WorldExportDialogProps = {
+  world: World | null; // the dialog is open while a world is set
+  onClose: () => void;
+};
+
+function fileSlug(name: string) {
+  const slug = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "character";
+}
+
+// Build the world's character card here, from the world and its lorebook
+async function downloadCard(world: World, format: "cardPng" | "cardJson") {
+  const response = await apiRequest("GET", `/api/worlds/${world.id}/lore`);
+  const { entries } = (await response.json()) as { ok: boolean; entries: LoreEntry[] };
+  const card = worldToCard(world, entries);
+  const fileName = fileSlug(card.data.name);
+  if (format === "cardJson") {
+    saveBlob(new Blob([JSON.stringify(card, null, 2)], { type: "application/json" }), `${fileName}.card.json`);
+    return;
+  }
+  const image = await cardImage(card.data.name, world.characters[0]?.avatarUrl ?? "");
+  saveBlob(new Blob([writeCardToPng(image, card)], { type: "image/png" }), `${fileName}.png`);
+}
+
+// Download a world as a bundle file, optionally with its chats and summaries,
+// or as a character card
+export function WorldExportDialog({ world, onClose }: WorldExportDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("bundle");
+  const [history, setHistory] = useState(true);
+  const [summaries, setSummaries] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!world) return;
+    setIsExporting(true);
+    try {
+      if (format === "bundle") {
+        const query = new URLSearchParams({ history: String(history), summaries: String(summaries) });
+        await downloadAttachment(`/api/worlds/${world.id}/export?${query}`, "world.json");
+      } else {
+        await downloadCard(world, format);
+      }
+      onClose();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("transfer.exportFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={world !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("transfer.exportTitle", { name: world?.name })}</DialogTitle>
+          <DialogDescription>{t(`transfer.formatDescriptions.${format}`)}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label>{t("transfer.format")}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`transfer.formats.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {format === "bundle" && (
+            <>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="export-history"
+                  checked={history}
+                  onCheckedChange={(checked) => setHistory(checked === true)}
+                  data-testid="checkbox-export-history"
+                />
+                <Label htmlFor="export-history">{t("transfer.includeHistory")}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="export-summaries"
+                  checked={summaries}
+                  onCheckedChange={(checked) => setSummaries(checked === true)}
+                  data-testid="checkbox-export-summaries"
+                />
+                <Label htmlFor="export-summaries">{t("transfer.includeSummaries")}</Label>
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting} data-testid="button-export-world">
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {t("transfer.export")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
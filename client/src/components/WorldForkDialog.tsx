@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import type { World } from "@shared/schema";
+
+// What of the original's chats the copy gets
+const HISTORY_MODES = ["none", "all", "through"] as const;
+
+type HistoryMode = (typeof HISTORY_MODES)[number];
+
+// Messages of the world's own chat offered to fork at, newest last
+const FORK_POINTS = 50;
+
+type BranchItem = { id: string; input: string; createdUtc: string };
+
+type ForkResponse = { ok: boolean; world: World; skipped: string[] };
+
+type WorldForkDialogProps = {
+  world: World | null; // the dialog is open while a world is set
+  userId: string;
+  onClose: () => void;
+};
+
+// Duplicate a world to try a variation of it, with none, all or part of its
+// chat history
+export function WorldForkDialog({ world, userId, onClose }: WorldForkDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<HistoryMode>("none");
+  const [throughId, setThroughId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(world ? t("fork.defaultName", { name: world.name }) : "");
+    setMode("none");
+    setThroughId(null);
+  }, [world, t]);
+
+  const { data: branch, isLoading: isBranchLoading } = useQuery<BranchItem[]>({
+    queryKey: ["/api/chat/world-history", world?.id, "fork"],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/chat/world-history", { worldId: world!.id, take: FORK_POINTS });
+      return ((await response.json()) as { items: BranchItem[] }).items;
+    },
+    enabled: world !== null && mode === "through",
+    staleTime: 0,
+  });
+
+  const forkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/worlds/${world!.id}/fork`, {
+        name: name.trim(),
+        userId,
+        history: mode !== "none",
+        throughId: mode === "through" ? throughId : null,
+      });
+      return (await response.json()) as ForkResponse;
+    },
+    onSuccess: ({ world: forked, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/worlds", userId] });
+      toast({
+        title: t("common.success"),
+        description: skipped.length
+          ? t("fork.successSkipped", {
+            name: forked.name,
+            parts: skipped.map((part) => t(`transfer.parts.${part}`)).join(", "),
+          })
+          : t("fork.success", { name: forked.name }),
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canFork = name.trim() && (mode !== "through" || throughId) && !forkMutation.isPending;
+
+  return (
+    <Dialog open={world !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("fork.title", { name: world?.name })}</DialogTitle>
+          <DialogDescription>{t("fork.description")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="fork-name">{t("fork.name")}</Label>
+            <Input
+              id="fork-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              data-testid="input-fork-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("fork.history")}</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as HistoryMode)}>
+              <SelectTrigger data-testid="select-fork-history">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_MODES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`fork.modes.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === "through" && (
+            <div className="space-y-2">
+              <Label>{t("fork.throughMessage")}</Label>
+              {isBranchLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              ) : !branch?.length ? (
+                <p className="text-sm text-muted-foreground">{t("fork.noMessages")}</p>
+              ) : (
+                <Select value={throughId ?? undefined} onValueChange={setThroughId}>
+                  <SelectTrigger data-testid="select-fork-message">
+                    <SelectValue placeholder={t("fork.pickMessage")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...branch].reverse().map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        <span className="text-muted-foreground mr-2">
+                          {new Date(item.createdUtc).toLocaleString()}
+                        </span>
+                        {item.input.length > 60 ? `${item.input.slice(0, 60)}…` : item.input}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={() => forkMutation.mutate()} disabled={!canFork} data-testid="button-fork-world">
+            {forkMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Copy className="w-4 h-4 mr-2" />}
+            {t("fork.duplicate")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, ChevronDown, History, Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { diffLines, type DiffLine } from "@/lib/diff";
+import type { Character, RevisionField, World, WorldRevision } from "@shared/schema";
+
+// Fields shown as line diffs; the rest show their old and new value
+const LONG_FIELDS: RevisionField[] = ["description", "customPersonality", "events", "scenario", "places", "additionalSettings"];
+
+// Unchanged lines kept around each change in a line diff
+const CONTEXT_LINES = 2;
+
+type RevisionsResponse = { ok: boolean; revisions: WorldRevision[]; drift: RevisionField[] };
+
+type RollbackResponse = { ok: boolean; world: World; revision: WorldRevision | null };
+
+type WorldHistoryPanelProps = {
+  world: World;
+  onRolledBack: (world: World) => void;
+};
+
+// A line diff with long unchanged stretches folded to a count
+function foldUnchanged(lines: DiffLine[]): (DiffLine | number)[] {
+  const near = lines.map((line, index) =>
+    lines
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some((other) => other.kind !== "same"),
+  );
+  const folded: (DiffLine | number)[] = [];
+  lines.forEach((line, index) => {
+    if (line.kind !== "same" || near[index]) {
+      folded.push(line);
+    } else if (typeof folded[folded.length - 1] === "number") {
+      (folded[folded.length - 1] as number)++;
+    } else {
+      folded.push(1);
+    }
+  });
+  return folded;
+}
+
+function FieldChange({ field, from, to }: { field: RevisionField; from: unknown; to: unknown }) {
+  const { t } = useTranslation();
+
+  if (LONG_FIELDS.includes(field)) {
+    return (
+      <pre className="text-xs whitespace-pre-wrap break-words rounded-md border bg-muted/40 p-2 max-h-64 overflow-y-auto">
+        {foldUnchanged(diffLines(String(from ?? ""), String(to ?? ""))).map((line, index) =>
+          typeof line === "number" ? (
+            <div key={index} className="text-muted-foreground italic">
+              {t("revisions.unchangedLines", { count: line })}
+            </div>
+          ) : (
+            <div
+              key={index}
+              className={
+                line.kind === "added"
+                  ? "bg-green-500/15 text-green-700 dark:text-green-400"
+                  : line.kind === "removed"
+                    ? "bg-red-500/15 text-red-700 dark:text-red-400 line-through"
+                    : ""
+              }
+            >
+              {line.kind === "added" ? "+ " : line.kind === "removed" ? "- " : "  "}
+              {line.text}
+            </div>
+          ),
+        )}
+      </pre>
+    );
+  }
+
+  if (field === "characters") {
+    const before = (from as Character[] | undefined) ?? [];
+    const after = (to as Character[] | undefined) ?? [];
+    const names = (characters: Character[]) => characters.map((character) => character.name || "?").join(", ");
+    const parts = [
+      { key: "added", characters: after.filter((character) => !before.some((old) => old.id === character.id)) },
+      { key: "removed", characters: before.filter((character) => !after.some((now) => now.id === character.id)) },
+      {
+        key: "changed",
+        characters: after.filter((character) => {
+          const old = before.find((other) => other.id === character.id);
+          return old && JSON.stringify(old) !== JSON.stringify(character);
+        }),
+      },
+    ].filter((part) => part.characters.length > 0);
+    return (
+      <p className="text-sm">
+        {parts.map((part) => `${t(`revisions.characters.${part.key}`)}: ${names(part.characters)}`).join(" · ")}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-sm break-words">
+      <span className="line-through text-muted-foreground">{String(from ?? "")}</span>
+      {" → "}
+      <span>{String(to ?? "")}</span>
+    </p>
+  );
+}
+
+// The revision history of a world inside the world dialog: who changed
+// which fields when, what changed in them, and rolling back to before any
+// revision
+export function WorldHistoryPanel({ world, onRolledBack }: WorldHistoryPanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = ["/api/worlds", world.id, "revisions"];
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<RevisionsResponse>({ queryKey, enabled: isOpen });
+  const revisions = data?.revisions || [];
+  const drift = data?.drift || [];
+
+  const fieldLabel = (field: string) => t(field === "name" ? "worlds.worldName" : `worlds.${field}`);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest("POST", `/api/worlds/${world.id}/revisions/${revisionId}/rollback`);
+      return (await response.json()) as RollbackResponse;
+    },
+    onSuccess: ({ world: rolledBack }) => {
+      queryClient.invalidateQueries({ queryKey });
+      onRolledBack(rolledBack);
+      setExpandedId(null);
+      toast({
+        title: t("common.success"),
+        description: t("revisions.rollbackSuccess"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRollback = (revision: WorldRevision) => {
+    if (confirm(t("revisions.rollbackConfirm", { date: new Date(revision.createdAt).toLocaleString() }))) {
+      rollbackMutation.mutate(revision.id);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="space-y-2">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="px-0" data-testid="button-world-history">
+          <History className="w-4 h-4 mr-2" />
+          {t("revisions.title")}
+          <ChevronDown className={`w-4 h-4 ml-1 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2">
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("revisions.empty")}</p>
+        ) : (
+          <>
+            {drift.length > 0 && (
+              <div
+                className="flex items-start gap-2 rounded-md border border-destructive/50 p-2 text-sm text-destructive"
+                data-testid="text-world-drift"
+              >
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>{t("revisions.drift", { fields: drift.map(fieldLabel).join(", ") })}</span>
+              </div>
+            )}
+            <ul className="space-y-2" data-testid="list-world-revisions">
+              {revisions.map((revision) => {
+                const fields = Object.keys(revision.changes) as RevisionField[];
+                const isExpanded = expandedId === revision.id;
+                return (
+                  <li key={revision.id} className="rounded-md border p-2 space-y-2">
+                    <div className="flex items-start gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                        className="flex-1 min-w-0 text-left rounded-md p-1 hover-elevate"
+                        data-testid={`button-revision-${revision.id}`}
+                      >
+                        <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                          <span className="truncate">{revision.author}</span>
+                          {revision.source === "rollback" && <Badge variant="secondary">{t("revisions.rollback")}</Badge>}
+                        </span>
+                        <span className="block text-sm truncate">{fields.map(fieldLabel).join(", ")}</span>
+                      </button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRollback(revision)}
+                        disabled={rollbackMutation.isPending}
+                        title={t("revisions.rollbackTo")}
+                        aria-label={t("revisions.rollbackTo")}
+                        data-testid={`button-rollback-${revision.id}`}
+                      >
+                        <Undo2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {isExpanded &&
+                      fields.map((field) => (
+                        <div key={field} className="space-y-1">
+                          <p className="text-xs font-medium">{fieldLabel(field)}</p>
+                          <FieldChange field={field} from={revision.changes[field]!.from} to={revision.changes[field]!.to} />
+                        </div>
+                      ))}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,147 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { resizeImage } from "@/lib/images";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cardToBundle, isPng, parseCharacterCard, readCardFromPng } from "@shared/characterCard";
+import { worldBundleSchema, type World, type WorldBundle } from "@shared/schema";
+
+// A problem with the file, at a path into it ("world.name", "history.3.input")
+type Issue = { path: string; message: string };
+
+type ImportResponse = { ok: boolean; world: World; skipped: string[] };
+
+// Create a world from a bundle file, or from a character card (JSON, or a
+// PNG with the card embedded) turned into a bundle here. The file is checked
+// here first so every problem can be listed by field; the server checks it
+// again.
+export function WorldImportButton({ userId }: { userId: string }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [issues, setIssues] = useState<Issue[] | null>(null);
+
+  const importMutation = useMutation({
+    // `clipped` lists card fields cut to fit the world
+    mutationFn: async ({ bundle }: { bundle: WorldBundle; clipped: string[] }) => {
+      const response = await apiRequest("POST", "/api/worlds/import", { userId, bundle });
+      return (await response.json()) as ImportResponse;
+    },
+    onSuccess: ({ world, skipped }, { clipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/worlds", userId] });
+      const imported = skipped.length
+        ? t("transfer.importSkipped", {
+          name: world.name,
+          parts: skipped.map((part) => t(`transfer.parts.${part}`)).join(", "),
+        })
+        : t("transfer.importSuccess", { name: world.name });
+      toast({
+        title: t("common.success"),
+        description: clipped.length
+          ? `${imported} ${t("transfer.cardClipped", { fields: clipped.join(", ") })}`
+          : imported,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let data: unknown;
+    let avatarUrl = "";
+    if (isPng(bytes)) {
+      data = readCardFromPng(bytes);
+      if (!data) {
+        setIssues([{ path: file.name, message: t("transfer.noCard") }]);
+        return;
+      }
+      // The card's picture becomes the character's avatar
+      avatarUrl = await resizeImage(file).catch(() => "");
+    } else {
+      try {
+        data = JSON.parse(new TextDecoder().decode(bytes));
+      } catch {
+        setIssues([{ path: file.name, message: t("transfer.notJson") }]);
+        return;
+      }
+    }
+
+    let clipped: string[] = [];
+    const card = parseCharacterCard(data);
+    if (card) ({ bundle: data, clipped } = cardToBundle(card, avatarUrl));
+
+    const parsed = worldBundleSchema.safeParse(data);
+    if (!parsed.success) {
+      setIssues(parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })));
+      return;
+    }
+    importMutation.mutate({ bundle: parsed.data, clipped });
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={importMutation.isPending}
+        data-testid="button-import-world"
+        className="w-full md:w-auto min-h-[44px]"
+      >
+        {importMutation.isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Upload className="w-4 h-4 mr-2" />
+        )}
+        {t("transfer.import")}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.png,application/json,image/png"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+      />
+
+      <Dialog open={issues !== null} onOpenChange={(open) => !open && setIssues(null)}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("transfer.invalidTitle")}</DialogTitle>
+            <DialogDescription>{t("transfer.invalidDescription")}</DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-1 text-sm" data-testid="list-import-issues">
+            {issues?.map((issue, index) => (
+              <li key={index}>
+                {issue.path && <code className="font-mono text-xs bg-muted px-1 rounded mr-2">{issue.path}</code>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setIssues(null)}>{t("common.close")}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
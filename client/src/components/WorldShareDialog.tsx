@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { WORLD_ROLES, type World, type WorldRole, type WorldShare } from "@shared/schema";
+
+type WorldShareDialogProps = {
+  world: World | null; // the dialog is open while a world is set
+  onClose: () => void;
+};
+
+function RoleSelect({ value, onChange, testId }: { value: WorldRole; onChange: (role: WorldRole) => void; testId: string }) {
+  const { t } = useTranslation();
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as WorldRole)}>
+      <SelectTrigger className="w-full sm:w-[140px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORLD_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {t(`sharing.roles.${role}`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Share a world with other accounts by email, and change or remove their
+// roles. The share takes effect the next time they load their worlds.
+export function WorldShareDialog({ world, onClose }: WorldShareDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorldRole>("player");
+  const queryKey = ["/api/worlds", world?.id, "shares"];
+
+  useEffect(() => {
+    setEmail("");
+    setRole("player");
+  }, [world]);
+
+  const { data, isLoading } = useQuery<{ ok: boolean; shares: WorldShare[] }>({ queryKey, enabled: world !== null });
+  const shares = data?.shares || [];
+
+  const onError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async (share: { email: string; role: WorldRole }) =>
+      apiRequest("POST", `/api/worlds/${world!.id}/shares`, share),
+    onSuccess: (_response, share) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (share.email === email.trim()) {
+        setEmail("");
+        toast({
+          title: t("common.success"),
+          description: t("sharing.shareSuccess", { email: share.email }),
+        });
+      }
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (shareEmail: string) =>
+      apiRequest("DELETE", `/api/worlds/${world!.id}/shares/${encodeURIComponent(shareEmail)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: t("common.success"),
+        description: t("sharing.removeSuccess"),
+      });
+    },
+    onError,
+  });
+
+  const handleRemove = (share: WorldShare) => {
+    if (confirm(t("sharing.removeConfirm", { email: share.email }))) {
+      removeMutation.mutate(share.email);
+    }
+  };
+
+  return (
+    <Dialog open={world !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("sharing.title", { name: world?.name })}</DialogTitle>
+          <DialogDescription>{t("sharing.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="share-email">{t("sharing.email")}</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="share-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && email.trim() && shareMutation.mutate({ email: email.trim(), role })}
+              placeholder={t("sharing.emailPlaceholder")}
+              maxLength={254}
+              data-testid="input-share-email"
+            />
+            <RoleSelect value={role} onChange={setRole} testId="select-share-role" />
+            <Button
+              onClick={() => shareMutation.mutate({ email: email.trim(), role })}
+              disabled={!email.trim() || shareMutation.isPending}
+              data-testid="button-share-world"
+            >
+              {shareMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+              {t("sharing.share")}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{t(`sharing.roleDescriptions.${role}`)}</p>
+        </div>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">{t("sharing.sharedWith")}</h3>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("sharing.empty")}</p>
+          ) : (
+            <ul className="space-y-2" data-testid="list-world-shares">
+              {shares.map((share) => (
+                <li key={share.id} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2">
+                  <span className="flex-1 min-w-0 truncate text-sm">{share.email}</span>
+                  <div className="flex items-center gap-2">
+                    <RoleSelect
+                      value={share.role}
+                      onChange={(newRole) => shareMutation.mutate({ email: share.email, role: newRole })}
+                      testId={`select-share-role-${share.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="hover:text-destructive"
+                      onClick={() => handleRemove(share)}
+                      disabled={removeMutation.isPending}
+                      title={t("sharing.remove")}
+                      aria-label={t("sharing.remove")}
+                      data-testid={`button-remove-share-${share.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
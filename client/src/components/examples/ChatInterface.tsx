@@ -4,11 +4,12 @@ export default function ChatInterfaceExample() {
   const handleSendMessage = async (message: string) => {
     console.log("Sending message:", message);
     await new Promise(resolve => setTimeout(resolve, 1000));
+    return { ok: true, reply: `You said: ${message}` };
   };
 
   return (
     <div className="h-[600px]">
-      <ChatInterface onSendMessage={handleSendMessage} />
+      <ChatInterface onSendMessage={handleSendMessage} userId="example-user" userEmail="user@example.com" />
     </div>
   );
 }
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export type AuthUser = {
+  email: string;
+  name: string;
+  loginTime: string;
+};
+
+type MeResponse = { ok: boolean; user: AuthUser | null };
+
+// The signed-in user comes from the server session (httpOnly cookie); the
+// browser keeps no copy of the identity or the Azure token.
+export function useAuth() {
+  const { data, isLoading } = useQuery<MeResponse>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  const user = data?.user ?? null;
+  return { user, isLoading, isAuthenticated: !!user };
+}
+
+export async function logout() {
+  await apiRequest("POST", "/api/auth/logout");
+  queryClient.clear();
+}
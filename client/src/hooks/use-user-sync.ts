@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react";
+import type { Query } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { SharedWorld, World } from "@shared/schema";
+import { SYNC_EVENT_TYPES, type SyncEvent } from "@shared/sync";
+
+type WorldList = { ok: boolean; worlds: World[]; shared?: SharedWorld[] };
+
+// The world list queries (Worlds and the chat tabs key it differently); the
+// rest under /api/worlds (revisions, shares, ...) are left alone
+function isWorldList(data: unknown): data is WorldList {
+  return !!data && Array.isArray((data as WorldList).worlds);
+}
+
+const isWorldListQuery = (query: Query) => isWorldList(query.state.data);
+
+function updateWorldLists(update: (list: WorldList) => WorldList) {
+  queryClient.setQueriesData({ queryKey: ["/api/worlds"] }, (data: unknown) =>
+    isWorldList(data) ? update(data) : data,
+  );
+}
+
+// Put a created or changed world in the list it belongs to
+function upsert<T extends World>(list: T[] | undefined, world: T): T[] {
+  const rest = list ?? [];
+  return rest.some((other) => other.id === world.id)
+    ? rest.map((other) => (other.id === world.id ? world : other))
+    : [...rest, world];
+}
+
+function applyEvent(event: SyncEvent) {
+  if (event.type === "world") {
+    const { world } = event;
+    updateWorldLists((list) =>
+      "role" in world
+        ? { ...list, shared: upsert(list.shared, world) }
+        : { ...list, worlds: upsert(list.worlds, world) },
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/worlds", world.id, "revisions"] });
+  } else if (event.type === "worldDeleted") {
+    updateWorldLists((list) => ({
+      ...list,
+      worlds: list.worlds.filter((world) => world.id !== event.worldId),
+      shared: list.shared?.filter((world) => world.id !== event.worldId),
+    }));
+  } else if (event.type === "shares") {
+    queryClient.invalidateQueries({ queryKey: ["/api/worlds"], predicate: isWorldListQuery });
+  }
+}
+
+// Keep this tab in step with the user's other tabs and devices (see
+// shared/sync.ts). World changes go straight into the world list queries;
+// a new exchange in the global chat calls `onGlobalChat`. After the stream
+// was down everything is reloaded, since events may have been missed.
+export function useUserSync(enabled: boolean, onGlobalChat: () => void) {
+  const onGlobalChatRef = useRef(onGlobalChat);
+  onGlobalChatRef.current = onGlobalChat;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // EventSource reconnects by itself
+    const source = new EventSource("/api/sync");
+    let dropped = false;
+    source.onerror = () => {
+      dropped = true;
+    };
+    source.onopen = () => {
+      if (!dropped) return;
+      dropped = false;
+      queryClient.invalidateQueries({ queryKey: ["/api/worlds"], predicate: isWorldListQuery });
+      onGlobalChatRef.current();
+    };
+
+    SYNC_EVENT_TYPES.forEach((type) =>
+      source.addEventListener(type, (message) => {
+        const event = JSON.parse((message as MessageEvent).data) as SyncEvent;
+        if (event.type === "chat") onGlobalChatRef.current();
+        else applyEvent(event);
+      }),
+    );
+
+    return () => source.close();
+  }, [enabled]);
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ROOM_CLOSE_CODES,
+  WORLD_ROOM_PATH,
+  type RoomMember,
+  type WorldRoomEvent,
+  type WorldRoomMessage,
+} from "@shared/worldRoom";
+
+// How long someone shows as typing after their last indicator
+const TYPING_TIMEOUT_MS = 6000;
+// While the user types, the indicator is repeated at most this often; it is
+// withdrawn after this long without typing
+const TYPING_REPEAT_MS = 3000;
+// Reconnect delays double up to this
+const MAX_RECONNECT_DELAY_MS = 30000;
+// Connections in a row that never open (e.g. the share was removed) before
+// giving up
+const MAX_FAILED_ATTEMPTS = 5;
+
+export type RoomTyping = { id: string; name: string; threadId: string | null };
+
+export type RoomReplying = { id: string; speaker: string; threadId: string | null };
+
+// Changes to the chat, for the chat to apply. `reconnected` means events may
+// have been missed while the connection was down.
+export type RoomChatEvent =
+  | Extract<WorldRoomEvent, { type: "exchange" | "deleted" | "refresh" }>
+  | { type: "reconnected" };
+
+// The live room of the world `worldId` (see shared/worldRoom.ts): who is
+// there, who is typing and whose message is being answered. `selfId` is the
+// user's own member id among them. Changes to the chat go to `onChatEvent`.
+export function useWorldRoom(worldId: string | null, onChatEvent: (event: RoomChatEvent) => void) {
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [typing, setTyping] = useState<(RoomTyping & { until: number })[]>([]);
+  const [replying, setReplying] = useState<RoomReplying[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onChatEventRef = useRef(onChatEvent);
+  onChatEventRef.current = onChatEvent;
+  const typingSentRef = useRef<{ threadId: string | null; at: number } | null>(null);
+  const typingIdleRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    setMembers([]);
+    setTyping([]);
+    setReplying([]);
+    if (!worldId) return;
+
+    let stopped = false;
+    let failures = 0;
+    let hasConnected = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${WORLD_ROOM_PATH}/${encodeURIComponent(worldId)}`);
+      socketRef.current = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        failures = 0;
+        if (hasConnected) onChatEventRef.current({ type: "reconnected" });
+        hasConnected = true;
+      };
+
+      socket.onmessage = (message) => {
+        const event = JSON.parse(message.data) as WorldRoomEvent;
+        if (event.type === "welcome") {
+          setSelfId(event.id);
+        } else if (event.type === "presence") {
+          setMembers(event.members);
+        } else if (event.type === "typing") {
+          const { type, typing: isTyping, ...who } = event;
+          setTyping((prev) => [
+            ...prev.filter((other) => other.id !== who.id || other.threadId !== who.threadId),
+            ...(isTyping ? [{ ...who, until: Date.now() + TYPING_TIMEOUT_MS }] : []),
+          ]);
+        } else if (event.type === "replying") {
+          const { type, replying: isReplying, ...who } = event;
+          setReplying((prev) => [
+            ...prev.filter((other) => other.id !== who.id || other.threadId !== who.threadId),
+            ...(isReplying ? [who] : []),
+          ]);
+        } else {
+          onChatEventRef.current(event);
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setMembers([]);
+        setTyping([]);
+        setReplying([]);
+        if (stopped || event.code === ROOM_CLOSE_CODES.worldDeleted) return;
+        if (!opened && ++failures >= MAX_FAILED_ATTEMPTS) {
+          console.warn("[ROOM] Giving up on the world's room");
+          return;
+        }
+        const delay = event.code === ROOM_CLOSE_CODES.accessChanged
+          ? 0
+          : Math.min(1000 * Math.pow(2, failures), MAX_RECONNECT_DELAY_MS);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [worldId]);
+
+  // Drop typing indicators nobody has renewed
+  useEffect(() => {
+    if (typing.length === 0) return;
+    const next = Math.min(...typing.map((entry) => entry.until)) - Date.now();
+    const timer = setTimeout(() => {
+      setTyping((prev) => prev.filter((entry) => entry.until > Date.now()));
+    }, Math.max(next, 0) + 50);
+    return () => clearTimeout(timer);
+  }, [typing]);
+
+  const send = (message: WorldRoomMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // Tell the room whether the user is typing in `threadId` (null for the
+  // world's own chat). Call it on every change of the message being written.
+  const sendTyping = useCallback((threadId: string | null, isTyping: boolean) => {
+    clearTimeout(typingIdleRef.current);
+    const sent = typingSentRef.current;
+    if (!isTyping) {
+      if (sent) send({ type: "typing", threadId: sent.threadId, typing: false });
+      typingSentRef.current = null;
+      return;
+    }
+    if (!sent || sent.threadId !== threadId || Date.now() - sent.at > TYPING_REPEAT_MS) {
+      send({ type: "typing", threadId, typing: true });
+      typingSentRef.current = { threadId, at: Date.now() };
+    }
+    typingIdleRef.current = setTimeout(() => sendTyping(threadId, false), TYPING_REPEAT_MS);
+  }, []);
+
+  return { selfId, members, typing: typing as RoomTyping[], replying, sendTyping };
+}
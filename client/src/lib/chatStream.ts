@@ -0,0 +1,34 @@
+import { readServerSentEvents } from "@shared/sse";
+
+// Reads the SSE reply from POST /api/chat (sent with `stream: true`).
+// Calls onToken for every chunk of text and resolves with the final payload,
+// which has the same shape as the non-streaming JSON response.
+export async function readChatStream(
+  response: Response,
+  onToken: (text: string) => void,
+): Promise<any> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  let final: any = null;
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === "token") {
+      onToken(payload.text);
+    } else if (event === "done") {
+      final = payload;
+    } else if (event === "error") {
+      throw new Error(payload.error || "Failed to process message");
+    }
+  }
+
+  if (!final) {
+    throw new Error("Stream ended before the reply was complete");
+  }
+  return final;
+}
+
+export function isEventStream(response: Response): boolean {
+  return (response.headers.get("Content-Type") || "").includes("text/event-stream");
+}
@@ -0,0 +1,46 @@
+// Line diffs of the long world text fields, for the world history panel
+
+export type DiffLine = { kind: "same" | "added" | "removed"; text: string };
+
+// Above this many line pairs the diff just replaces the whole text
+const MAX_CELLS = 1000000;
+
+function toLines(text: string): string[] {
+  return text ? text.split("\n") : [];
+}
+
+// The lines of `before` and `after` in order, marked as kept, removed or
+// added, by longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = toLines(before);
+  const b = toLines(after);
+  const removed = (text: string): DiffLine => ({ kind: "removed", text });
+  const added = (text: string): DiffLine => ({ kind: "added", text });
+  if (a.length * b.length > MAX_CELLS) return a.map(removed).concat(b.map(added));
+
+  // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const common: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    common[i] = new Array<number>(b.length + 1).fill(0);
+    if (i === a.length) continue;
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push(removed(a[i++]));
+    } else {
+      lines.push(added(b[j++]));
+    }
+  }
+  return lines.concat(a.slice(i).map(removed), b.slice(j).map(added));
+}
@@ -0,0 +1,85 @@
+// Uploaded avatars are scaled down to this many pixels on the longest side
+// and kept in the world as a data URL
+const AVATAR_SIZE = 128;
+
+// Character card images use the 2:3 portrait of the card tools
+const CARD_WIDTH = 400;
+const CARD_HEIGHT = 600;
+
+export function initials(name: string) {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map((word) => word[0]!.toUpperCase()).join("");
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Not an image"));
+    image.src = src;
+  });
+}
+
+// Read an image file and return it as a small JPEG data URL
+export async function resizeImage(file: Blob): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, AVATAR_SIZE / Math.max(image.width, image.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.85);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function toPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (blob) resolve(new Uint8Array(await blob.arrayBuffer()));
+      else reject(new Error("Could not draw the card image"));
+    }, "image/png");
+  });
+}
+
+function cardCanvas(): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement("canvas");
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not draw the card image");
+  return [canvas, context];
+}
+
+// A PNG portrait for a character card: the avatar scaled to cover the card,
+// or the name's initials when there's no avatar (or it can't be read back
+// from another site, which leaves the canvas unreadable)
+export async function cardImage(name: string, avatarUrl: string): Promise<Uint8Array> {
+  if (avatarUrl) {
+    try {
+      const image = await loadImage(avatarUrl);
+      const [canvas, context] = cardCanvas();
+      const scale = Math.max(CARD_WIDTH / image.width, CARD_HEIGHT / image.height);
+      const width = image.width * scale;
+      const height = image.height * scale;
+      context.drawImage(image, (CARD_WIDTH - width) / 2, (CARD_HEIGHT - height) / 2, width, height);
+      return await toPng(canvas);
+    } catch (error) {
+      console.error("Error drawing card avatar:", error);
+    }
+  }
+
+  const [canvas, context] = cardCanvas();
+  const hue = Array.from(name).reduce((sum, char) => sum + char.charCodeAt(0), 0) % 360;
+  context.fillStyle = `hsl(${hue}, 45%, 35%)`;
+  context.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  context.fillStyle = "#ffffff";
+  context.font = "bold 160px sans-serif";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText(initials(name) || "?", CARD_WIDTH / 2, CARD_HEIGHT / 2);
+  return toPng(canvas);
+}
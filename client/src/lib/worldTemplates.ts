@@ -0,0 +1,82 @@
+import type { TFunction } from "i18next";
+import { Code2, Dices, GraduationCap, Languages, Lightbulb, PenTool, type LucideIcon } from "lucide-react";
+import type { Character, TemplateWorld } from "@shared/schema";
+
+// Built-in world templates. Their text lives in the locale files under
+// templates.builtin.<id> (name and summary for the gallery, then any of the
+// world's text fields), so a world made from one starts in the user's
+// language. They leave the model as the create form has it.
+
+const TEXT_FIELDS = ["description", "customPersonality", "scenario", "places", "events", "additionalSettings"] as const;
+
+const CHARACTER_FIELDS = ["role", "personality", "speechStyle"] as const;
+
+export type BuiltinTemplate = {
+  id: string;
+  icon: LucideIcon;
+  settings: Pick<TemplateWorld, "temperature" | "maxTokens" | "responseStyle" | "conversationStyle">;
+  characters?: string[]; // keys under templates.builtin.<id>.characters
+};
+
+export const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  {
+    id: "codingAssistant",
+    icon: Code2,
+    settings: { temperature: 0.2, maxTokens: 3000, responseStyle: "step-by-step", conversationStyle: "technical" },
+  },
+  {
+    id: "tutor",
+    icon: GraduationCap,
+    settings: { temperature: 0.5, maxTokens: 2000, responseStyle: "step-by-step", conversationStyle: "socratic" },
+  },
+  {
+    id: "gameMaster",
+    icon: Dices,
+    settings: { temperature: 1.0, maxTokens: 2500, responseStyle: "immersive", conversationStyle: "adventurous" },
+    characters: ["innkeeper"],
+  },
+  {
+    id: "languagePartner",
+    icon: Languages,
+    settings: { temperature: 0.7, maxTokens: 1000, responseStyle: "concise", conversationStyle: "friendly" },
+    characters: ["partner"],
+  },
+  {
+    id: "writingCoach",
+    icon: PenTool,
+    settings: { temperature: 0.6, maxTokens: 2500, responseStyle: "detailed", conversationStyle: "empathetic" },
+  },
+  {
+    id: "brainstorm",
+    icon: Lightbulb,
+    settings: { temperature: 1.1, maxTokens: 2000, responseStyle: "bullet-points", conversationStyle: "enthusiastic" },
+  },
+];
+
+// The world a built-in template fills the create form with, in the current
+// language
+export function builtinTemplateWorld(template: BuiltinTemplate, t: TFunction): Partial<TemplateWorld> {
+  const prefix = `templates.builtin.${template.id}`;
+  const world: Partial<TemplateWorld> = { ...template.settings };
+  for (const field of TEXT_FIELDS) {
+    world[field] = t(`${prefix}.${field}`, { defaultValue: "" });
+  }
+  world.characters = (template.characters ?? []).map((key): Character => {
+    const character: Character = {
+      id: crypto.randomUUID(),
+      name: t(`${prefix}.characters.${key}.name`),
+      role: "",
+      appearance: "",
+      personality: "",
+      speechStyle: "",
+      relationships: "",
+      secrets: "",
+      avatarUrl: "",
+    };
+    for (const field of CHARACTER_FIELDS) {
+      character[field] = t(`${prefix}.characters.${key}.${field}`, { defaultValue: "" });
+    }
+    return character;
+  });
+  return world;
+}
@@ -1,15 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { readChatStream, isEventStream } from "@/lib/chatStream";
+import { useAuth } from "@/hooks/use-auth";
+import { useUserSync } from "@/hooks/use-user-sync";
 import { TabNavigation } from "@/components/TabNavigation";
 import { ChatInterface } from "@/components/ChatInterface";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { UserPanel } from "@/components/UserPanel";
 import { LandingPage } from "@/components/LandingPage";
+import { ThreadPicker } from "@/components/ThreadPicker";
+import { MemoryInspector } from "@/components/MemoryInspector";
+import { SearchDialog } from "@/components/SearchDialog";
+import { ChatExportDialog } from "@/components/ChatExportDialog";
 import Worlds from "@/pages/Worlds";
 import { Button } from "@/components/ui/button";
-import { User, Globe } from "lucide-react";
-import type { World } from "@shared/schema";
+import { User, Globe, Search } from "lucide-react";
+import type { SharedWorld, World } from "@shared/schema";
+import type { SearchHit } from "@shared/search";
+import { allows } from "@shared/worldRoles";
 
 function getUserId(): string {
   const STORAGE_KEY = 'chatbot_user_id';
@@ -27,30 +36,43 @@ function getUserId(): string {
   return userId;
 }
 
+// Most chat messages sent along as history with each message
+const MAX_HISTORY_MESSAGES = 200;
+
 type Message = {
   id: string;
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  azureMessageId?: string; // the stored exchange
+  speaker?: string | null; // who sent it, in world chats
 };
 
+// The exchange a chat tab is to show, opened from search
+type Focus = { tab: string; exchangeId: string };
+
 export default function Home() {
+  const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState("chat");
   const [userId, setUserId] = useState<string>("");
-  const [userEmail, setUserEmail] = useState<string>("");
   const [isUserPanelOpen, setIsUserPanelOpen] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const userEmail = user?.email || "";
   const [chatHistory, setChatHistory] = useState<Message[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // Thread shown in each world tab; missing or null is the world's own chat
+  const [threadByWorld, setThreadByWorld] = useState<Record<string, string | null>>({});
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focus, setFocus] = useState<Focus | null>(null);
 
   // Fetch worlds for dynamic tabs
-  const { data: worldsData } = useQuery<{ ok: boolean; worlds: World[] }>({
+  const { data: worldsData } = useQuery<{ ok: boolean; worlds: World[]; shared: SharedWorld[] }>({
     queryKey: ["/api/worlds", userId, userEmail],
     queryFn: async () => {
       if (!userEmail || !userId) {
         throw new Error("User email and ID required");
       }
-      const response = await fetch(`/api/worlds?userId=${userId}&email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch(`/api/worlds?userId=${userId}`);
       if (!response.ok) throw new Error("Failed to fetch worlds");
       return response.json();
     },
@@ -58,7 +80,8 @@ export default function Home() {
     retry: false,
   });
 
-  const worlds = worldsData?.worlds || [];
+  // The user's own worlds, then those shared with them
+  const worlds: (World | SharedWorld)[] = [...(worldsData?.worlds || []), ...(worldsData?.shared || [])];
 
   // Create dynamic tabs: Chat, then one tab per world (World Settings moved to icon button)
   const tabs = [
@@ -70,80 +93,71 @@ export default function Home() {
   ];
 
   useEffect(() => {
-    const uid = getUserId();
-    setUserId(uid);
-    
-    // Check if user is authenticated
-    const userDataStr = localStorage.getItem('user_data');
-    const isAuth = !!userDataStr;
-    setIsAuthenticated(isAuth);
-
-    // Get user email for queries
-    if (isAuth && userDataStr) {
-      const userData = JSON.parse(userDataStr);
-      const email = userData?.email || "";
-      setUserEmail(email);
-      
-      // Invalidate worlds query to trigger refetch with email
-      if (email && uid) {
-        queryClient.invalidateQueries({ queryKey: ["/api/worlds", uid, email] });
-      }
-    }
-
-    // Fetch chat history if authenticated
-    if (isAuth) {
-      fetchChatHistory();
-    }
+    setUserId(getUserId());
   }, []);
   
-  // Refetch global chat history when switching to the Chat tab
+  // Fetch global chat history once signed in; the sync stream says when it
+  // changes after that
   useEffect(() => {
-    if (activeTab === "chat" && isAuthenticated) {
+    if (isAuthenticated) {
       fetchChatHistory();
     }
-  }, [activeTab]);
+  }, [isAuthenticated]);
 
-  const fetchChatHistory = async () => {
-    try {
-      setIsLoadingHistory(true);
-      const userDataStr = localStorage.getItem('user_data');
-      const userData = userDataStr ? JSON.parse(userDataStr) : null;
-      const userEmail = userData?.email;
+  // Messages being sent from this tab. A reload of the global chat waits
+  // until they are answered, so it doesn't replace a reply still on its way.
+  const sendsInFlightRef = useRef(0);
+  const chatChangedRef = useRef(false);
 
-      if (!userEmail) {
-        console.log('No user email found, skipping history fetch');
-        return;
-      }
+  useUserSync(isAuthenticated, () => {
+    if (sendsInFlightRef.current > 0) {
+      chatChangedRef.current = true;
+    } else {
+      fetchChatHistory();
+    }
+  });
 
-      const response = await fetch('/api/chat/history', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email: userEmail })
-      });
+  // The newest page of the global chat; with `revealId`, older pages too
+  // until that exchange is among them
+  const fetchChatHistory = async (revealId?: string) => {
+    try {
+      setIsLoadingHistory(true);
+      let data: any = {};
+      let items: any[] = [];
+      do {
+        const response = await fetch('/api/chat/history', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ continuationToken: data.continuationToken })
+        });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
 
-      const data = await response.json();
+        data = await response.json();
+        items = [...(data.items || []), ...items];
+      } while (revealId && data.continuationToken && !items.some((item) => item.Id === revealId));
       
       if (data.ok && data.items) {
         // Azure returns items in ascending order (oldest first), which is what we want
         // Convert history items to Message format
-        const historyMessages: Message[] = data.items.flatMap((item: any, index: number) => [
+        const historyMessages: Message[] = items.flatMap((item: any, index: number) => [
           {
             id: `history-user-${index}`,
             role: "user" as const,
             content: item.Input,
-            timestamp: new Date(item.CreatedUtc || new Date())
+            timestamp: new Date(item.CreatedUtc || new Date()),
+            azureMessageId: item.Id
           },
           {
             id: `history-ai-${index}`,
             role: "assistant" as const,
             content: item.Response,
-            timestamp: new Date(item.CreatedUtc || new Date())
+            timestamp: new Date(item.CreatedUtc || new Date()),
+            azureMessageId: item.Id
           }
         ]);
         
@@ -154,7 +168,7 @@ export default function Home() {
         }
         
         setChatHistory(historyMessages);
-        console.log(`Loaded ${data.count} history items`);
+        console.log(`Loaded ${items.length} history items`);
       }
     } catch (error) {
       console.error('Error fetching chat history:', error);
@@ -163,20 +177,60 @@ export default function Home() {
     }
   };
 
-  const handleSendMessage = async (message: string, history: Message[], worldSettings?: any) => {
-    try {
-      // Get user's email from localStorage
-      const userDataStr = localStorage.getItem('user_data');
-      const userData = userDataStr ? JSON.parse(userDataStr) : null;
-      const userEmail = userData?.email || 'user@example.com';
+  // Open the search with Ctrl+K (Cmd+K on macOS)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isAuthenticated]);
+
+  // Open a search hit in its chat: the world's tab (in the hit's thread) or
+  // the Chat tab, whose history is loaded back to the hit first
+  const handleSearchSelect = async (hit: SearchHit) => {
+    setIsSearchOpen(false);
+    if (hit.worldId) {
+      const worldId = hit.worldId;
+      setThreadByWorld(prev => ({ ...prev, [worldId]: hit.threadId }));
+      setActiveTab(`world-${worldId}`);
+      setFocus({ tab: `world-${worldId}`, exchangeId: hit.id });
+    } else {
+      setActiveTab("chat");
+      await fetchChatHistory(hit.id);
+      setFocus({ tab: "chat", exchangeId: hit.id });
+    }
+  };
 
-      // Format history for Azure Function (keep last 10 messages for context)
-      const recentHistory = history.slice(-10).map(msg => ({
+  // Pass onToken to receive the reply as it is generated; the signal lets the
+  // caller stop generation. Resolves with the complete response either way.
+  // Message actions post to their own endpoint (`path`) with extra fields.
+  const handleSendMessage = async (
+    message: string,
+    history: Message[],
+    worldSettings?: any,
+    options?: {
+      signal?: AbortSignal;
+      onToken?: (text: string) => void;
+      path?: string;
+      body?: Record<string, unknown>;
+    },
+  ) => {
+    sendsInFlightRef.current++;
+    try {
+      // The server trims the history to the model's context window; this
+      // only bounds the request size
+      const recentHistory = history.slice(-MAX_HISTORY_MESSAGES).map(msg => ({
         role: msg.role,
-        content: msg.content
+        content: msg.content,
+        speaker: msg.speaker
       }));
 
-      const response = await fetch('/api/chat', {
+      const response = await fetch(options?.path || '/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -184,28 +238,34 @@ export default function Home() {
         body: JSON.stringify({ 
           message, 
           userId,
-          name: userEmail,
           history: recentHistory,
-          worldSettings: worldSettings || null
-        })
+          worldSettings: worldSettings || null,
+          stream: !!options?.onToken,
+          ...options?.body
+        }),
+        signal: options?.signal
       });
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const data = await response.json();
-      
-      // Refetch chat history after sending message to get latest from Azure
-      // Only refetch global history if not sending to a world
-      if (!worldSettings && activeTab === "chat") {
-        setTimeout(() => fetchChatHistory(), 500); // Small delay to allow Azure to process
-      }
+      const data = options?.onToken && isEventStream(response)
+        ? await readChatStream(response, options.onToken)
+        : await response.json();
       
       return data;
     } catch (error) {
-      console.error('Error sending message:', error);
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Error sending message:', error);
+      }
       throw error;
+    } finally {
+      // The global chat's own replies come back through the sync stream too
+      if (--sendsInFlightRef.current === 0 && chatChangedRef.current) {
+        chatChangedRef.current = false;
+        fetchChatHistory();
+      }
     }
   };
 
@@ -215,6 +275,20 @@ export default function Home() {
         {isAuthenticated && <TabNavigation tabs={tabs} activeTab={activeTab} onTabChange={setActiveTab} />}
         {!isAuthenticated && <div className="px-4 md:px-6 py-3"><h2 className="text-base md:text-lg font-semibold">AI Chat</h2></div>}
         <div className="flex items-center gap-1 md:gap-2 px-2 md:px-4 flex-shrink-0">
+          {isAuthenticated && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsSearchOpen(true)}
+              title={t("search.open")}
+              aria-label={t("search.open")}
+              data-testid="button-search"
+              className="min-h-[44px] min-w-[44px]"
+            >
+              <Search className="w-4 h-4 md:w-5 md:h-5" />
+            </Button>
+          )}
+          {isAuthenticated && activeTab === "chat" && <ChatExportDialog />}
           {isAuthenticated && (
             <Button 
               variant="ghost" 
@@ -240,9 +314,12 @@ export default function Home() {
       </header>
 
       <UserPanel isOpen={isUserPanelOpen} onClose={() => setIsUserPanelOpen(false)} />
+      {isAuthenticated && (
+        <SearchDialog open={isSearchOpen} onOpenChange={setIsSearchOpen} worlds={worlds} onSelect={handleSearchSelect} />
+      )}
 
       <main className="flex-1 overflow-hidden">
-        {!isAuthenticated ? (
+        {isAuthLoading ? null : !isAuthenticated ? (
           <LandingPage onOpenLogin={() => setIsUserPanelOpen(true)} />
         ) : (
           <>
@@ -252,34 +329,54 @@ export default function Home() {
                 initialMessages={chatHistory}
                 userId={userId}
                 userEmail={userEmail}
+                focusExchangeId={focus?.tab === "chat" ? focus.exchangeId : null}
+                onFocused={() => setFocus(null)}
               />
             )}
             {activeTab === "world-settings" && (
-              (() => {
-                const userDataStr = localStorage.getItem('user_data');
-                const userData = userDataStr ? JSON.parse(userDataStr) : null;
-                const userEmail = userData?.email || '';
-                return <Worlds 
-                  userId={userId} 
-                  userEmail={userEmail}
-                  onWorldClick={(worldId) => setActiveTab(`world-${worldId}`)}
-                />;
-              })()
+              <Worlds 
+                userId={userId} 
+                userEmail={userEmail}
+                onWorldClick={(worldId) => setActiveTab(`world-${worldId}`)}
+              />
             )}
             {activeTab.startsWith("world-") && activeTab !== "world-settings" && (() => {
               const worldId = activeTab.replace("world-", "");
               const world = worlds.find(w => w.id === worldId);
               if (!world) return null;
+              const threadId = threadByWorld[world.id] ?? null;
+              const role = "role" in world ? world.role : undefined;
+              const readOnly = role !== undefined && !allows(role, "editor");
               
               return (
-                <ChatInterface 
-                  key={world.id}
-                  onSendMessage={handleSendMessage}
-                  initialMessages={[]}
-                  userId={userId}
-                  userEmail={userEmail}
-                  world={world}
-                />
+                <div className="flex flex-col h-full">
+                  <ThreadPicker
+                    worldId={world.id}
+                    threadId={threadId}
+                    onSelect={(id) => setThreadByWorld(prev => ({ ...prev, [world.id]: id }))}
+                    actions={
+                      <>
+                        <ChatExportDialog worldId={world.id} threadId={threadId} />
+                        <MemoryInspector key={threadId ?? "main"} worldId={world.id} threadId={threadId} readOnly={readOnly} />
+                      </>
+                    }
+                    readOnly={readOnly}
+                  />
+                  <div className="flex-1 overflow-hidden">
+                    <ChatInterface 
+                      key={`${world.id}-${threadId ?? "main"}`}
+                      onSendMessage={handleSendMessage}
+                      initialMessages={[]}
+                      userId={userId}
+                      userEmail={userEmail}
+                      world={world}
+                      threadId={threadId}
+                      role={role}
+                      focusExchangeId={focus?.tab === activeTab ? focus.exchangeId : null}
+                      onFocused={() => setFocus(null)}
+                    />
+                  </div>
+                </div>
               );
             })()}
           </>
@@ -30,8 +30,20 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Plus, Trash2, Settings, Edit, Sparkles } from "lucide-react";
-import type { World, InsertWorld } from "@shared/schema";
+import { ModelSelect } from "@/components/ModelSelect";
+import { CharacterEditor } from "@/components/CharacterEditor";
+import { LorebookDialog } from "@/components/LorebookDialog";
+import { SaveTemplateDialog } from "@/components/SaveTemplateDialog";
+import { SummaryPanel } from "@/components/SummaryPanel";
+import { TemplateGallery } from "@/components/TemplateGallery";
+import { WorldExportDialog } from "@/components/WorldExportDialog";
+import { WorldForkDialog } from "@/components/WorldForkDialog";
+import { WorldHistoryPanel } from "@/components/WorldHistoryPanel";
+import { WorldImportButton } from "@/components/WorldImportButton";
+import { WorldShareDialog } from "@/components/WorldShareDialog";
+import { Loader2, Plus, Trash2, Settings, Edit, Sparkles, BookOpen, Download, LayoutTemplate, BookmarkPlus, Copy, GitFork, Users } from "lucide-react";
+import type { World, InsertWorld, TemplateWorld, SharedWorld } from "@shared/schema";
+import { allows } from "@shared/worldRoles";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 
 type WorldsProps = {
@@ -45,6 +57,12 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   const { toast } = useToast();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingWorld, setEditingWorld] = useState<World | null>(null);
+  const [lorebookWorld, setLorebookWorld] = useState<World | null>(null);
+  const [exportingWorld, setExportingWorld] = useState<World | null>(null);
+  const [forkingWorld, setForkingWorld] = useState<World | null>(null);
+  const [sharingWorld, setSharingWorld] = useState<World | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [templateWorld, setTemplateWorld] = useState<World | null>(null); // being saved as a template
   const [worldSummaries, setWorldSummaries] = useState<Record<string, { lastSummary: string | null }>>({});
   const [formData, setFormData] = useState<Partial<InsertWorld>>({
     userId,
@@ -56,7 +74,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
     responseStyle: "balanced",
     conversationStyle: "friendly",
     customPersonality: "",
-    characters: "",
+    characters: [],
     events: "",
     scenario: "",
     places: "",
@@ -64,10 +82,10 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   });
 
   // Fetch worlds
-  const { data: worldsData, isLoading } = useQuery<{ ok: boolean; worlds: World[] }>({
+  const { data: worldsData, isLoading } = useQuery<{ ok: boolean; worlds: World[]; shared: SharedWorld[] }>({
     queryKey: ["/api/worlds", userId],
     queryFn: async () => {
-      const response = await fetch(`/api/worlds?userId=${userId}&email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch(`/api/worlds?userId=${userId}`);
       if (!response.ok) throw new Error("Failed to fetch worlds");
       return response.json();
     },
@@ -82,7 +100,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   // Create world mutation
   const createMutation = useMutation({
     mutationFn: async (data: InsertWorld) => {
-      return apiRequest("POST", "/api/worlds", { ...data, email: userEmail });
+      return apiRequest("POST", "/api/worlds", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/worlds", userId] });
@@ -105,7 +123,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   // Update world mutation with optimistic updates
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: Partial<World> }) => {
-      return apiRequest("PUT", `/api/worlds/${id}`, { ...data, userId, email: userEmail });
+      return apiRequest("PUT", `/api/worlds/${id}`, { ...data, userId });
     },
     onMutate: async ({ id, data }) => {
       // Cancel outgoing refetches
@@ -122,15 +140,20 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
           worlds: old.worlds.map((w: World) =>
             w.id === id ? { ...w, ...data } : w
           ),
+          shared: old.shared?.map((w: SharedWorld) =>
+            w.id === id ? { ...w, ...data } : w
+          ),
         };
       });
       
       return { previousWorlds };
     },
-    onSuccess: () => {
+    onSuccess: (_response, { id }) => {
       // Don't refetch - keep optimistic update since Azure has a bug
       // Azure returns 200 OK but doesn't actually save changes
       // Refetching would overwrite our good data with stale Azure data
+      // The world's history records the update and flags it if it didn't stick
+      queryClient.invalidateQueries({ queryKey: ["/api/worlds", id, "revisions"] });
       
       setEditingWorld(null);
       resetForm();
@@ -155,7 +178,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   // Delete world mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/worlds/${id}?email=${encodeURIComponent(userEmail)}`);
+      return apiRequest("DELETE", `/api/worlds/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/worlds", userId] });
@@ -181,7 +204,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ email: userEmail }),
+        body: JSON.stringify({}),
       });
       if (!response.ok) throw new Error("Failed to create summary");
       return response.json();
@@ -194,6 +217,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
       // Delay refetch to allow Azure to process
       setTimeout(() => {
         fetchWorldSummaries(worldId);
+        queryClient.invalidateQueries({ queryKey: ["/api/worlds", worldId, "summaries"] });
       }, 500);
     },
     onError: (error) => {
@@ -208,7 +232,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   // Fetch summaries for a specific world
   const fetchWorldSummaries = async (worldId: string) => {
     try {
-      const response = await fetch(`/api/worlds/${worldId}/summaries?email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch(`/api/worlds/${worldId}/summaries`);
       if (!response.ok) {
         console.error(`Failed to fetch summaries for world ${worldId}`);
         return;
@@ -256,7 +280,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
       responseStyle: "balanced",
       conversationStyle: "friendly",
       customPersonality: "",
-      characters: "",
+      characters: [],
       events: "",
       scenario: "",
       places: "",
@@ -325,8 +349,10 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
       return;
     }
 
-    // Check for duplicate world name (excluding the current world being edited)
-    const duplicateName = worlds.some(
+    // Check for duplicate world name (excluding the current world being edited).
+    // Names only need to differ among the owner's worlds, so a shared world
+    // isn't checked against the user's own.
+    const duplicateName = worlds.some((world) => world.id === editingWorld.id) && worlds.some(
       (world) => 
         world.id !== editingWorld.id && 
         world.name.toLowerCase() === formData.name!.toLowerCase()
@@ -347,6 +373,29 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
     });
   };
 
+  // Start the create form from a template; the name is always the user's
+  const handlePickTemplate = (world: Partial<TemplateWorld>) => {
+    setFormData((prev) => ({ ...prev, ...world, userId, name: "" }));
+    setIsGalleryOpen(false);
+    setIsCreateOpen(true);
+  };
+
+  // A rollback from the history panel: show the world as it is now, in the
+  // list and in the open edit form
+  // Merge the restored world into the one shown, keeping any field the
+  // answer leaves out
+  const handleRolledBack = (rolledBack: World) => {
+    queryClient.setQueryData(["/api/worlds", userId], (old: any) => {
+      if (!old?.worlds) return old;
+      return {
+        ...old,
+        worlds: old.worlds.map((w: World) => (w.id === rolledBack.id ? { ...w, ...rolledBack } : w)),
+        shared: old.shared?.map((w: SharedWorld) => (w.id === rolledBack.id ? { ...w, ...rolledBack } : w)),
+      };
+    });
+    handleEdit(editingWorld?.id === rolledBack.id ? { ...editingWorld, ...rolledBack } : rolledBack);
+  };
+
   const handleEdit = (world: World) => {
     setEditingWorld(world);
     setFormData({
@@ -374,6 +423,8 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
   };
 
   const worlds = worldsData?.worlds || [];
+  const sharedWorlds = worldsData?.shared || [];
+  const worldNames = new Map(worlds.map((world) => [world.id, world.name]));
 
   if (isLoading) {
     return (
@@ -393,14 +444,26 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
               {t("worlds.subtitle")}
             </p>
           </div>
-          <Button
-            onClick={() => setIsCreateOpen(true)}
-            data-testid="button-create-world"
-            className="w-full md:w-auto min-h-[44px]"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            {t("worlds.createWorld")}
-          </Button>
+          <div className="flex flex-col md:flex-row gap-2">
+            <WorldImportButton userId={userId} />
+            <Button
+              variant="outline"
+              onClick={() => setIsGalleryOpen(true)}
+              data-testid="button-open-templates"
+              className="w-full md:w-auto min-h-[44px]"
+            >
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+              {t("templates.open")}
+            </Button>
+            <Button
+              onClick={() => setIsCreateOpen(true)}
+              data-testid="button-create-world"
+              className="w-full md:w-auto min-h-[44px]"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {t("worlds.createWorld")}
+            </Button>
+          </div>
         </div>
 
         {worlds.length === 0 ? (
@@ -411,10 +474,16 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
               <p className="text-muted-foreground text-center mb-4">
                 {t("worlds.noWorldsDescription")}
               </p>
-              <Button onClick={() => setIsCreateOpen(true)} className="min-h-[44px]">
-                <Plus className="w-4 h-4 mr-2" />
-                {t("worlds.createWorld")}
-              </Button>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button variant="outline" onClick={() => setIsGalleryOpen(true)} className="min-h-[44px]">
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  {t("templates.startFromTemplate")}
+                </Button>
+                <Button onClick={() => setIsCreateOpen(true)} className="min-h-[44px]">
+                  <Plus className="w-4 h-4 mr-2" />
+                  {t("worlds.createWorld")}
+                </Button>
+              </div>
             </CardContent>
           </Card>
         ) : (
@@ -432,6 +501,15 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
                   {world.description && (
                     <CardDescription>{world.description}</CardDescription>
                   )}
+                  {world.forkedFromId && (
+                    <p
+                      className="flex items-center gap-1 text-xs text-muted-foreground"
+                      data-testid={`text-forked-from-${world.id}`}
+                    >
+                      <GitFork className="w-3 h-3" />
+                      {t("fork.forkedFrom", { name: worldNames.get(world.forkedFromId) ?? t("fork.unknownWorld") })}
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent className="space-y-2 text-sm">
                   <div className="flex justify-between">
@@ -459,7 +537,7 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
                     </span>
                   </div>
                 </CardContent>
-                <CardFooter className="flex gap-2">
+                <CardFooter className="flex flex-wrap gap-2">
                   <Button
                     variant="outline"
                     size="sm"
@@ -485,6 +563,61 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
                     )}
                     {t("worlds.summarize")}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLorebookWorld(world)}
+                    data-testid={`button-lorebook-world-${world.id}`}
+                    className="min-h-[44px] min-w-[44px]"
+                    title={t("lorebook.open")}
+                    aria-label={t("lorebook.open")}
+                  >
+                    <BookOpen className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setExportingWorld(world)}
+                    data-testid={`button-export-world-${world.id}`}
+                    className="min-h-[44px] min-w-[44px]"
+                    title={t("transfer.export")}
+                    aria-label={t("transfer.export")}
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForkingWorld(world)}
+                    data-testid={`button-fork-world-${world.id}`}
+                    className="min-h-[44px] min-w-[44px]"
+                    title={t("fork.duplicate")}
+                    aria-label={t("fork.duplicate")}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSharingWorld(world)}
+                    data-testid={`button-share-world-${world.id}`}
+                    className="min-h-[44px] min-w-[44px]"
+                    title={t("sharing.open")}
+                    aria-label={t("sharing.open")}
+                  >
+                    <Users className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTemplateWorld(world)}
+                    data-testid={`button-template-world-${world.id}`}
+                    className="min-h-[44px] min-w-[44px]"
+                    title={t("templates.saveAsTemplate")}
+                    aria-label={t("templates.saveAsTemplate")}
+                  >
+                    <BookmarkPlus className="w-4 h-4" />
+                  </Button>
                   <Button
                     variant="destructive"
                     size="sm"
@@ -500,6 +633,63 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
           </div>
         )}
 
+        {sharedWorlds.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg md:text-xl font-semibold">{t("sharing.sharedWithMe")}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {sharedWorlds.map((world) => (
+                <Card key={world.id} data-testid={`card-shared-world-${world.id}`}>
+                  <CardHeader
+                    className="cursor-pointer hover-elevate active-elevate-2"
+                    onClick={() => onWorldClick?.(world.id)}
+                  >
+                    <CardTitle>{world.name}</CardTitle>
+                    {world.description && (
+                      <CardDescription>{world.description}</CardDescription>
+                    )}
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground" data-testid={`text-shared-by-${world.id}`}>
+                      <Users className="w-3 h-3" />
+                      {t("sharing.sharedBy", { email: world.ownerEmail, role: t(`sharing.roles.${world.role}`) })}
+                    </p>
+                  </CardHeader>
+                  {allows(world.role, "editor") && (
+                    <CardFooter className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1 min-h-[44px]"
+                        onClick={() => handleEdit(world)}
+                        data-testid={`button-edit-shared-world-${world.id}`}
+                      >
+                        <Edit className="w-4 h-4 mr-2" />
+                        {t("worlds.edit")}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setLorebookWorld(world)}
+                        data-testid={`button-lorebook-shared-world-${world.id}`}
+                        className="min-h-[44px] min-w-[44px]"
+                        title={t("lorebook.open")}
+                        aria-label={t("lorebook.open")}
+                      >
+                        <BookOpen className="w-4 h-4" />
+                      </Button>
+                    </CardFooter>
+                  )}
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <LorebookDialog world={lorebookWorld} onClose={() => setLorebookWorld(null)} />
+        <WorldShareDialog world={sharingWorld} onClose={() => setSharingWorld(null)} />
+        <WorldExportDialog world={exportingWorld} onClose={() => setExportingWorld(null)} />
+        <WorldForkDialog world={forkingWorld} userId={userId} onClose={() => setForkingWorld(null)} />
+        <SaveTemplateDialog world={templateWorld} onClose={() => setTemplateWorld(null)} />
+        <TemplateGallery open={isGalleryOpen} onOpenChange={setIsGalleryOpen} onPick={handlePickTemplate} />
+
         {/* Create/Edit Dialog */}
         <Dialog
           open={isCreateOpen || editingWorld !== null}
@@ -547,23 +737,12 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
 
               <div className="space-y-2">
                 <Label htmlFor="model">{t("worlds.model")}</Label>
-                <Select
+                <ModelSelect
+                  id="model"
                   value={formData.model}
-                  onValueChange={(value) => setFormData({ ...formData, model: value as any })}
-                >
-                  <SelectTrigger id="model" data-testid="select-world-model">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="gpt-5-nano">GPT-5 Nano - $0.05/$0.40 per 1M tokens</SelectItem>
-                    <SelectItem value="gpt-4o-mini">GPT-4o Mini - $0.15/$0.60 per 1M tokens</SelectItem>
-                    <SelectItem value="gpt-5-mini">GPT-5 Mini - $0.25/$2.00 per 1M tokens</SelectItem>
-                    <SelectItem value="gpt-5">GPT-5 - $1.25/$10.00 per 1M tokens</SelectItem>
-                    <SelectItem value="gpt-4o">GPT-4o - $2.50/$10.00 per 1M tokens</SelectItem>
-                    <SelectItem value="gpt-4.5">GPT-4.5 - $75.00/$150.00 per 1M tokens</SelectItem>
-                    <SelectItem value="o1-pro">o1-Pro - $150.00/$600.00 per 1M tokens</SelectItem>
-                  </SelectContent>
-                </Select>
+                  onValueChange={(value) => setFormData({ ...formData, model: value })}
+                  data-testid="select-world-model"
+                />
               </div>
 
               <div className="space-y-2">
@@ -672,21 +851,10 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
                 </p>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="characters">{t("worlds.characters")}</Label>
-                <Textarea
-                  id="characters"
-                  placeholder={t("worlds.charactersPlaceholder")}
-                  value={formData.characters}
-                  onChange={(e) => setFormData({ ...formData, characters: e.target.value })}
-                  rows={3}
-                  maxLength={10000}
-                  data-testid="textarea-world-characters"
-                />
-                <p className="text-sm text-muted-foreground">
-                  {formData.characters?.length || 0}/10000
-                </p>
-              </div>
+              <CharacterEditor
+                characters={formData.characters || []}
+                onChange={(characters) => setFormData({ ...formData, characters })}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="events">{t("worlds.events")}</Label>
@@ -751,6 +919,10 @@ export default function Worlds({ userId, userEmail, onWorldClick }: WorldsProps)
                   {formData.additionalSettings?.length || 0}/10000
                 </p>
               </div>
+
+              {editingWorld && <SummaryPanel worldId={editingWorld.id} />}
+
+              {editingWorld && <WorldHistoryPanel world={editingWorld} onRolledBack={handleRolledBack} />}
             </div>
 
             <DialogFooter>
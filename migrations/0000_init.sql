@@ -0,0 +1,63 @@
+CREATE TABLE "user_settings" (
+	"email" text PRIMARY KEY NOT NULL,
+	"model" text DEFAULT 'gpt-4o-mini' NOT NULL,
+	"temperature" real DEFAULT 0.7 NOT NULL,
+	"max_tokens" integer DEFAULT 2000 NOT NULL,
+	"response_style" text DEFAULT 'balanced' NOT NULL,
+	"conversation_style" text DEFAULT 'friendly' NOT NULL,
+	"custom_personality" text DEFAULT '' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE "world_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar,
+	"input" text NOT NULL,
+	"ai_reply" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "world_summaries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"from_utc" timestamp with time zone,
+	"to_utc" timestamp with time zone,
+	"summary" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "worlds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"user_id" text DEFAULT '' NOT NULL,
+	"name" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"model" text DEFAULT 'gpt-4o-mini' NOT NULL,
+	"temperature" real DEFAULT 0.7 NOT NULL,
+	"max_tokens" integer DEFAULT 2000 NOT NULL,
+	"response_style" text DEFAULT 'balanced' NOT NULL,
+	"conversation_style" text DEFAULT 'friendly' NOT NULL,
+	"custom_personality" text DEFAULT '' NOT NULL,
+	"characters" text DEFAULT '' NOT NULL,
+	"events" text DEFAULT '' NOT NULL,
+	"scenario" text DEFAULT '' NOT NULL,
+	"places" text DEFAULT '' NOT NULL,
+	"additional_settings" text DEFAULT '' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "world_messages" ADD CONSTRAINT "world_messages_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "world_summaries" ADD CONSTRAINT "world_summaries_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_messages_owner_world_created_idx" ON "world_messages" USING btree ("owner_email","world_id","created_at");--> statement-breakpoint
+CREATE INDEX "world_summaries_world_idx" ON "world_summaries" USING btree ("world_id");--> statement-breakpoint
+CREATE INDEX "worlds_owner_idx" ON "worlds" USING btree ("owner_email");
\ No newline at end of file
@@ -0,0 +1,12 @@
+ALTER TABLE "world_messages" ADD COLUMN "parent_id" varchar;--> statement-breakpoint
+ALTER TABLE "world_messages" ADD CONSTRAINT "world_messages_parent_id_world_messages_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."world_messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_messages_parent_idx" ON "world_messages" USING btree ("parent_id");--> statement-breakpoint
+-- Existing world chats were flat: chain each exchange to the one before it
+UPDATE "world_messages" AS "m" SET "parent_id" = (
+	SELECT "p"."id" FROM "world_messages" AS "p"
+	WHERE "p"."owner_email" = "m"."owner_email"
+		AND "p"."world_id" = "m"."world_id"
+		AND ("p"."created_at", "p"."id") < ("m"."created_at", "m"."id")
+	ORDER BY "p"."created_at" DESC, "p"."id" DESC
+	LIMIT 1
+) WHERE "m"."world_id" IS NOT NULL;
@@ -0,0 +1,15 @@
+CREATE TABLE "world_threads" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"archived" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "world_messages" ADD COLUMN "thread_id" varchar;--> statement-breakpoint
+ALTER TABLE "world_threads" ADD CONSTRAINT "world_threads_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_threads_world_idx" ON "world_threads" USING btree ("world_id");--> statement-breakpoint
+ALTER TABLE "world_messages" ADD CONSTRAINT "world_messages_thread_id_world_threads_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."world_threads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_messages_thread_idx" ON "world_messages" USING btree ("thread_id");
\ No newline at end of file
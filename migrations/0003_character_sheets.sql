@@ -0,0 +1,12 @@
+ALTER TABLE "worlds" ALTER COLUMN "characters" DROP DEFAULT;--> statement-breakpoint
+-- The free-text cast becomes a single character sheet holding it (see
+-- parseCharacters in shared/schema.ts)
+ALTER TABLE "worlds" ALTER COLUMN "characters" SET DATA TYPE jsonb USING (
+  CASE WHEN btrim("characters") = '' THEN '[]'::jsonb
+  ELSE jsonb_build_array(jsonb_build_object(
+    'id', 'legacy', 'name', 'Characters', 'role', '', 'appearance', '', 'personality', "characters",
+    'speechStyle', '', 'relationships', '', 'secrets', '', 'avatarUrl', ''
+  ))
+  END
+);--> statement-breakpoint
+ALTER TABLE "worlds" ALTER COLUMN "characters" SET DEFAULT '[]'::jsonb;
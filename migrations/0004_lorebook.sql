@@ -0,0 +1,16 @@
+CREATE TABLE "lore_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"keywords" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"priority" integer DEFAULT 100 NOT NULL,
+	"token_budget" integer DEFAULT 400 NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lore_entries" ADD CONSTRAINT "lore_entries_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lore_entries_world_idx" ON "lore_entries" USING btree ("world_id");
\ No newline at end of file
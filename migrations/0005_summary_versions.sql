@@ -0,0 +1 @@
+ALTER TABLE "world_summaries" ADD COLUMN "source" text DEFAULT 'manual' NOT NULL;
\ No newline at end of file
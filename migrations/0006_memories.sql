@@ -0,0 +1,18 @@
+CREATE TABLE "world_memories" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"thread_id" varchar,
+	"exchange_id" varchar,
+	"text" text NOT NULL,
+	"pinned" boolean DEFAULT false NOT NULL,
+	"embedding" jsonb NOT NULL,
+	"embedding_model" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "world_memories" ADD CONSTRAINT "world_memories_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "world_memories" ADD CONSTRAINT "world_memories_thread_id_world_threads_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."world_threads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "world_memories" ADD CONSTRAINT "world_memories_exchange_id_world_messages_id_fk" FOREIGN KEY ("exchange_id") REFERENCES "public"."world_messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_memories_world_idx" ON "world_memories" USING btree ("world_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "worlds" ADD COLUMN "forked_from_id" varchar;--> statement-breakpoint
+ALTER TABLE "worlds" ADD CONSTRAINT "worlds_forked_from_id_worlds_id_fk" FOREIGN KEY ("forked_from_id") REFERENCES "public"."worlds"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
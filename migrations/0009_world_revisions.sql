@@ -0,0 +1,13 @@
+CREATE TABLE "world_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"author" text NOT NULL,
+	"source" text DEFAULT 'edit' NOT NULL,
+	"rolled_back_id" varchar,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "world_revisions" ADD CONSTRAINT "world_revisions_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "world_revisions_world_idx" ON "world_revisions" USING btree ("world_id","created_at");
\ No newline at end of file
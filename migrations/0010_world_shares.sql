@@ -0,0 +1,12 @@
+CREATE TABLE "world_shares" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_email" text NOT NULL,
+	"world_id" varchar NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "world_shares" ADD CONSTRAINT "world_shares_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "world_shares_world_email_idx" ON "world_shares" USING btree ("world_id","email");--> statement-breakpoint
+CREATE INDEX "world_shares_email_idx" ON "world_shares" USING btree ("email");
\ No newline at end of file
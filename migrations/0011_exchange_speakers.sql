@@ -0,0 +1 @@
+ALTER TABLE "world_messages" ADD COLUMN "speaker" text;
\ No newline at end of file
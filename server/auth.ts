@@ -0,0 +1,96 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { randomBytes } from "crypto";
+
+// Cookie sessions for the API. Login and code verification put the user in
+// the session; every other /api route reads the user's identity from here
+// rather than from an email in the request body or query string.
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type SessionUser = {
+  email: string;
+  name: string;
+  loginTime: string;
+  // Token returned by the Azure login action. Kept server-side only.
+  token?: string;
+};
+
+declare module "express-session" {
+  interface SessionData {
+    user?: SessionUser;
+    // Name entered at signup, applied once the email is verified
+    pendingSignup?: { email: string; name: string };
+  }
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("[AUTH] SESSION_SECRET not set, using a random secret (sessions end on restart)");
+  return randomBytes(32).toString("hex");
+}
+
+// Returns the session middleware, for WebSocket upgrades (see worldRooms.ts)
+// that don't go through Express
+export function setupSession(app: Express): RequestHandler {
+  const MemoryStore = createMemoryStore(session);
+  const production = process.env.NODE_ENV === "production";
+  if (production) app.set("trust proxy", 1);
+
+  const middleware = session({
+    name: "sid",
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+  app.use(middleware);
+  return middleware;
+}
+
+// Start a fresh session for the user. The session id is regenerated so an id
+// issued before login can't be reused afterwards.
+export function signIn(req: Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((error) => {
+      if (error) return reject(error);
+      req.session.user = user;
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+export function signOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.user) {
+    return res.status(401).json({ ok: false, error: "Not signed in" });
+  }
+  next();
+}
+
+// The signed-in user. Only call behind requireAuth.
+export function getSessionUser(req: Request): SessionUser {
+  const user = req.session.user;
+  if (!user) throw new Error("getSessionUser called without requireAuth");
+  return user;
+}
+
+// What the client is allowed to see about the session user
+export function publicUser(user: SessionUser) {
+  return { email: user.email, name: user.name, loginTime: user.loginTime };
+}
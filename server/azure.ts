@@ -0,0 +1,800 @@
+import { z } from "zod";
+import { readServerSentEvents, type ServerSentEvent } from "@shared/sse";
+import { MOCK_AZURE_URL, mockAzureFetch } from "./mockAzure";
+
+// Typed client for the Azure Function backend. Every Azure "action" gets one
+// method here so the naming quirks of the C# side (worldid vs worldId,
+// PascalCase world fields, rowkey, codeverify...) live in a single place
+// instead of being re-typed in each route.
+
+const DEFAULT_FUNCTION_URL = "https://functionapp120251021090023.azurewebsites.net/api/echo";
+const DEFAULT_TIMEOUT_MS = 15_000;
+const CHAT_TIMEOUT_MS = 120_000;
+const RETRY_DELAY_MS = 300;
+
+export class AzureFunctionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public upstreamStatus?: number,
+  ) {
+    super(message);
+    this.name = "AzureFunctionError";
+  }
+}
+
+// Map an upstream status onto the status our API should answer with.
+// Client errors pass through; anything else is a bad gateway.
+function mapUpstreamStatus(status: number): number {
+  if (status === 400 || status === 401 || status === 403 || status === 404 || status === 409) {
+    return status;
+  }
+  return 502;
+}
+
+// What a failed request or body read throws: timeouts are a 504, anything
+// else a 502 with `message`. Aborts by the caller pass through.
+function requestError(error: unknown, timeoutMs: number, message: string): unknown {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new AzureFunctionError(`Azure Function timed out after ${timeoutMs}ms`, 504);
+  }
+  if (error instanceof Error && error.name === "AbortError") return error;
+  return new AzureFunctionError(message, 502);
+}
+
+// A timeout that starts over on every restart(), so a long stream that keeps
+// sending isn't cut off. Like AbortSignal.timeout it aborts with a
+// TimeoutError.
+class IdleTimeout {
+  private controller = new AbortController();
+  private timer?: ReturnType<typeof setTimeout>;
+  readonly signal = this.controller.signal;
+
+  constructor(readonly ms: number) {
+    this.restart();
+  }
+
+  restart() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.controller.abort(new DOMException(`Nothing received for ${this.ms}ms`, "TimeoutError")),
+      this.ms,
+    );
+  }
+
+  clear() {
+    clearTimeout(this.timer);
+  }
+}
+
+// ---------- Request schemas ----------
+
+const emailSchema = z.string().min(1);
+
+export const loginRequestSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1),
+});
+
+export const createAccountRequestSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1),
+  name: z.string().default(""),
+});
+
+export const verifyCodeRequestSchema = z.object({
+  email: emailSchema,
+  code: z.string().min(1),
+});
+
+export const historyMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+});
+
+export const chatRequestSchema = z.object({
+  email: emailSchema,
+  text: z.string().min(1),
+  history: z.array(historyMessageSchema).default([]),
+});
+
+export const worldChatRequestSchema = chatRequestSchema.extend({
+  worldId: z.string().min(1),
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  responseStyle: z.string().optional(),
+  conversationStyle: z.string().optional(),
+  customPersonality: z.string().optional(),
+  characters: z.string().optional(),
+  events: z.string().optional(),
+  scenario: z.string().optional(),
+  places: z.string().optional(),
+  additionalSettings: z.string().optional(),
+});
+
+export const worldChatsRequestSchema = z.object({
+  email: emailSchema,
+  worldId: z.string().min(1),
+  take: z.number().int().positive().default(10),
+  continuationToken: z.string().nullish(),
+});
+
+export const settingsPayloadSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  responseStyle: z.string().optional(),
+  conversationStyle: z.string().optional(),
+  customPersonality: z.string().optional(),
+});
+
+export const worldPayloadSchema = z.object({
+  userId: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  responseStyle: z.string().optional(),
+  conversationStyle: z.string().optional(),
+  customPersonality: z.string().optional(),
+  characters: z.string().optional(),
+  events: z.string().optional(),
+  scenario: z.string().optional(),
+  places: z.string().optional(),
+  additionalSettings: z.string().optional(),
+});
+
+export type LoginRequest = z.input<typeof loginRequestSchema>;
+export type CreateAccountRequest = z.input<typeof createAccountRequestSchema>;
+export type VerifyCodeRequest = z.input<typeof verifyCodeRequestSchema>;
+export type ChatRequest = z.input<typeof chatRequestSchema>;
+export type WorldChatRequest = z.input<typeof worldChatRequestSchema>;
+export type WorldChatsRequest = z.input<typeof worldChatsRequestSchema>;
+export type SettingsPayload = z.infer<typeof settingsPayloadSchema>;
+export type WorldPayload = z.infer<typeof worldPayloadSchema>;
+
+// ---------- Response schemas ----------
+// Azure adds fields over time, so every object is passthrough and only the
+// fields we actually read are declared.
+
+const baseResponseSchema = z.object({
+  ok: z.boolean().optional(),
+  error: z.string().nullish(),
+  message: z.string().nullish(),
+}).passthrough();
+
+export const authResponseSchema = baseResponseSchema.extend({
+  email: z.string().optional(),
+  name: z.string().optional(),
+  token: z.string().optional(),
+  user: z.object({ email: z.string().nullish(), name: z.string().nullish() }).passthrough().optional(),
+  resendCooldownSecs: z.number().optional(),
+});
+
+export const historyItemSchema = z.object({
+  Input: z.string().nullish(),
+  Response: z.string().nullish(),
+  CreatedUtc: z.string().nullish(),
+  createdUtc: z.string().nullish(),
+}).passthrough();
+
+export const historyResponseSchema = baseResponseSchema.extend({
+  count: z.number().optional(),
+  items: z.array(historyItemSchema).default([]),
+});
+
+export const worldChatItemSchema = z.object({
+  id: z.string().optional(),
+  text: z.string().nullish(),
+  ai: z.string().nullish(),
+  input: z.string().nullish(),
+  aiReply: z.string().nullish(),
+  createdUtc: z.string().nullish(),
+}).passthrough();
+
+export const worldChatsResponseSchema = baseResponseSchema.extend({
+  count: z.number().optional(),
+  items: z.array(worldChatItemSchema).default([]),
+  continuationToken: z.string().nullish(),
+});
+
+export const chatResponseSchema = baseResponseSchema.extend({
+  reply: z.string().nullish(),
+  ai: z.object({ reply: z.string().nullish(), error: z.string().nullish() }).passthrough().nullish(),
+});
+
+export const settingsResponseSchema = baseResponseSchema.extend({
+  settings: z.record(z.any()).nullish(),
+});
+
+export const worldsResponseSchema = baseResponseSchema.extend({
+  items: z.array(z.record(z.any())).optional(),
+  worlds: z.array(z.record(z.any())).optional(),
+});
+
+export const summarySliceSchema = z.object({
+  fromUtc: z.string().nullish(),
+  toUtc: z.string().nullish(),
+  createdUtc: z.string().nullish(),
+  summary: z.string().nullish(),
+}).passthrough();
+
+export const summariesResponseSchema = baseResponseSchema.extend({
+  slices: z.array(summarySliceSchema).default([]),
+});
+
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+export type HistoryResponse = z.infer<typeof historyResponseSchema>;
+export type WorldChatItem = z.infer<typeof worldChatItemSchema>;
+export type WorldChatsResponse = z.infer<typeof worldChatsResponseSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+export type SettingsResponse = z.infer<typeof settingsResponseSchema>;
+export type BaseResponse = z.infer<typeof baseResponseSchema>;
+
+// World as the frontend sees it (camelCase), normalized from Azure's PascalCase rows
+export type AzureWorld = {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  responseStyle: string;
+  conversationStyle: string;
+  customPersonality: string;
+  characters: string;
+  events: string;
+  scenario: string;
+  places: string;
+  additionalSettings: string;
+  createdAt: any;
+};
+
+// Events yielded while streaming a chat reply: incremental text, then the
+// final Azure payload once the reply is complete.
+export type ChatStreamEvent =
+  | { type: "token"; text: string }
+  | { type: "done"; data: ChatResponse };
+
+export type WorldSummary = {
+  fromUtc?: string | null;
+  toUtc?: string | null;
+  createdUtc?: string | null;
+  summary?: string | null;
+};
+
+// ---------- Client ----------
+
+type AzureTarget = "auth" | "function";
+
+type CallOptions<T> = {
+  target?: AzureTarget;
+  query?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  // Value to return when Azure answers 200 with an empty body. When omitted an
+  // empty body is treated as an error.
+  emptyResponse?: T;
+};
+
+export type AzureClientConfig = {
+  functionUrl?: string;
+  authUrl?: string;
+  functionKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+  fetch?: typeof fetch;
+};
+
+function byCreatedUtc(a: { CreatedUtc?: string | null; createdUtc?: string | null }, b: typeof a) {
+  const dateA = new Date(a.CreatedUtc || a.createdUtc || 0).getTime();
+  const dateB = new Date(b.CreatedUtc || b.createdUtc || 0).getTime();
+  return dateA - dateB; // Ascending order (oldest first)
+}
+
+function toPascalCase(obj: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    result[key.charAt(0).toUpperCase() + key.slice(1)] = value;
+  }
+  return result;
+}
+
+function normalizeWorld(world: Record<string, any>): AzureWorld {
+  return {
+    id: world.Id || world.id,
+    userId: world.UserId || world.userId,
+    name: world.Name || world.name,
+    description: world.Description || world.description,
+    model: world.Model || world.model,
+    temperature: world.Temperature ?? world.temperature ?? 0.7,
+    maxTokens: world.MaxTokens || world.maxTokens || 2000,
+    responseStyle: world.ResponseStyle || world.responseStyle || "balanced",
+    conversationStyle: world.ConversationStyle || world.conversationStyle || "friendly",
+    customPersonality: world.CustomPersonality || world.customPersonality || "",
+    characters: world.Characters || world.characters || "",
+    events: world.Events || world.events || "",
+    scenario: world.Scenario || world.scenario || "",
+    places: world.Places || world.places || "",
+    additionalSettings: world.AdditionalSettings || world.additionalSettings || "",
+    createdAt: world.CreatedUtc || world.createdAt,
+  };
+}
+
+export class AzureFunctionClient {
+  private config: AzureClientConfig;
+
+  constructor(config: AzureClientConfig = {}) {
+    this.config = config;
+  }
+
+  private get functionKey() {
+    return this.config.functionKey ?? process.env.AZURE_FUNCTION_KEY;
+  }
+
+  private resolveUrl(target: AzureTarget): string {
+    if (target === "auth") {
+      // SECURITY: Require dedicated auth URL (no fallback to avoid reusing chat endpoint)
+      const authUrl = this.config.authUrl ?? process.env.AZURE_AUTH_URL;
+      if (!authUrl) {
+        throw new AzureFunctionError(
+          "AZURE_AUTH_URL not configured. Please set a dedicated authentication endpoint in your environment secrets.",
+          500,
+        );
+      }
+      return authUrl;
+    }
+    return this.config.functionUrl ?? process.env.AZURE_FUNCTION_URL ?? DEFAULT_FUNCTION_URL;
+  }
+
+  // Build the full URL and headers for a call. Only the function key goes in
+  // the URL; credentials and user data always travel in the POST body.
+  private buildRequest(target: AzureTarget, query: Record<string, string> = {}) {
+    const key = this.functionKey;
+    const params = new URLSearchParams({
+      ...(key && { code: key }),
+      ...query,
+    });
+    return {
+      url: `${this.resolveUrl(target)}?${params.toString()}`,
+      headers: {
+        "Content-Type": "application/json",
+        ...(key && { "x-functions-key": key }),
+      } as Record<string, string>,
+    };
+  }
+
+  // Send a raw POST to the function and return the fetch Response. Used by
+  // callers that need the body as a stream rather than parsed JSON. Given an
+  // `idleTimeout`, the request times out with it instead of after
+  // `timeoutMs` in all.
+  async send(
+    body: Record<string, unknown>,
+    options: {
+      target?: AzureTarget;
+      query?: Record<string, string>;
+      timeoutMs?: number;
+      idleTimeout?: IdleTimeout;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<Response> {
+    const { url, headers } = this.buildRequest(options.target ?? "function", options.query);
+    const fetchImpl = this.config.fetch ?? fetch;
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const signals = [options.idleTimeout?.signal ?? AbortSignal.timeout(timeoutMs)];
+    if (options.signal) signals.push(options.signal);
+
+    try {
+      return await fetchImpl(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.any(signals),
+      });
+    } catch (error) {
+      throw requestError(error, timeoutMs, "Failed to connect to Azure Function");
+    }
+  }
+
+  private async call<S extends z.ZodTypeAny>(
+    action: string,
+    body: Record<string, unknown>,
+    schema: S,
+    options: CallOptions<z.infer<S>> = {},
+  ): Promise<z.infer<S>> {
+    const retries = options.retries ?? 0;
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.callOnce(action, body, schema, options);
+      } catch (error) {
+        const retryable = error instanceof AzureFunctionError && error.status >= 502;
+        if (!retryable || attempt >= retries) throw error;
+        attempt++;
+        console.warn(`[AZURE] ${action} failed (${(error as Error).message}), retry ${attempt}/${retries}`);
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  private async callOnce<S extends z.ZodTypeAny>(
+    action: string,
+    body: Record<string, unknown>,
+    schema: S,
+    options: CallOptions<z.infer<S>>,
+  ): Promise<z.infer<S>> {
+    const response = await this.send(body, options);
+    const text = await response.text();
+
+    // SECURITY: never log request or response bodies, they carry credentials and chat content
+    console.log(`[AZURE] ${action} responded with status: ${response.status}`);
+
+    if (!response.ok) {
+      throw new AzureFunctionError(
+        extractErrorMessage(text) || `Azure Function returned ${response.status}: ${response.statusText}`,
+        mapUpstreamStatus(response.status),
+        response.status,
+      );
+    }
+
+    if (!text) {
+      if (options.emptyResponse !== undefined) return options.emptyResponse;
+      throw new AzureFunctionError("Azure Function returned empty response", 502, response.status);
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new AzureFunctionError("Azure Function returned invalid JSON", 502, response.status);
+    }
+
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) {
+      console.error(`[AZURE] ${action} returned an unexpected shape:`, parsed.error.issues);
+      throw new AzureFunctionError("Azure Function returned an unexpected response", 502, response.status);
+    }
+    return parsed.data;
+  }
+
+  // ---------- Auth ----------
+
+  login(input: LoginRequest): Promise<AuthResponse> {
+    const { email, password } = loginRequestSchema.parse(input);
+    return this.call("login", { action: "login", email, password }, authResponseSchema, { target: "auth" });
+  }
+
+  createAccount(input: CreateAccountRequest): Promise<AuthResponse> {
+    const { email, password, name } = createAccountRequestSchema.parse(input);
+    return this.call("create account", { action: "create account", email, password, name }, authResponseSchema, {
+      target: "auth",
+    });
+  }
+
+  sendCode(email: string): Promise<AuthResponse> {
+    return this.call("sendcode", { action: "sendcode", email: emailSchema.parse(email) }, authResponseSchema, {
+      target: "auth",
+    });
+  }
+
+  verifyCode(input: VerifyCodeRequest): Promise<AuthResponse> {
+    const { email, code } = verifyCodeRequestSchema.parse(input);
+    // Azure reads the user-typed code from `codeverify`; `code` is the function key
+    return this.call("verifycode", { action: "verifycode", email, codeverify: code }, authResponseSchema, {
+      target: "auth",
+    });
+  }
+
+  // ---------- Chat ----------
+
+  async history(email: string): Promise<HistoryResponse> {
+    const data = await this.call("history", { action: "history", email: emailSchema.parse(email) }, historyResponseSchema, {
+      retries: 2,
+      emptyResponse: { ok: true, items: [] },
+    });
+    data.items.sort(byCreatedUtc);
+    return data;
+  }
+
+  async getWorldChats(input: WorldChatsRequest): Promise<WorldChatsResponse> {
+    const { email, worldId, take, continuationToken } = worldChatsRequestSchema.parse(input);
+    const data = await this.call(
+      "getworldchats",
+      {
+        action: "getworldchats",
+        email,
+        worldid: worldId,
+        take,
+        // Only include continuationToken if it's provided (not on first load)
+        ...(continuationToken && { continuationToken }),
+      },
+      worldChatsResponseSchema,
+      { retries: 2, emptyResponse: { ok: true, items: [] } },
+    );
+
+    // Azure's newer format uses text/ai, the frontend expects input/aiReply
+    data.items = data.items
+      .map((item) => ({
+        ...item,
+        input: item.text || item.input,
+        aiReply: item.ai || item.aiReply,
+      }))
+      .sort(byCreatedUtc);
+    if (!data.count) data.count = data.items.length;
+    return data;
+  }
+
+  chat(input: ChatRequest): Promise<ChatResponse> {
+    const { email, text, history } = chatRequestSchema.parse(input);
+    return this.call("chat", { email, text, history }, chatResponseSchema, { timeoutMs: CHAT_TIMEOUT_MS });
+  }
+
+  addWorldChat(input: WorldChatRequest): Promise<ChatResponse> {
+    return this.call("addworldchat", this.worldChatBody(input, false), chatResponseSchema, {
+      timeoutMs: CHAT_TIMEOUT_MS,
+    });
+  }
+
+  streamChat(input: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const { email, text, history } = chatRequestSchema.parse(input);
+    return this.stream("chat", { email, text, history, stream: "true" }, signal);
+  }
+
+  streamWorldChat(input: WorldChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    return this.stream("addworldchat", this.worldChatBody(input, true), signal);
+  }
+
+  // Ask Azure for a streamed reply and yield tokens as they arrive. Azure may
+  // still answer with plain JSON (streaming is optional on the C# side); in
+  // that case the whole reply is yielded as a single token. The reply only
+  // times out once Azure sends nothing for CHAT_TIMEOUT_MS.
+  private async *stream(
+    action: string,
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const timeout = new IdleTimeout(CHAT_TIMEOUT_MS);
+    try {
+      yield* this.readStream(action, body, timeout, signal);
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private async *readStream(
+    action: string,
+    body: Record<string, unknown>,
+    timeout: IdleTimeout,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const response = await this.send(body, { timeoutMs: CHAT_TIMEOUT_MS, idleTimeout: timeout, signal });
+    console.log(`[AZURE] ${action} (stream) responded with status: ${response.status}`);
+
+    if (!response.ok) {
+      const text = await readBody(response.text(), CHAT_TIMEOUT_MS);
+      throw new AzureFunctionError(
+        extractErrorMessage(text) || `Azure Function returned ${response.status}: ${response.statusText}`,
+        mapUpstreamStatus(response.status),
+        response.status,
+      );
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const data = parseChatResponse(await readBody(response.text(), CHAT_TIMEOUT_MS));
+      const reply = data.ai?.reply ?? data.reply;
+      if (reply) yield { type: "token", text: reply };
+      yield { type: "done", data };
+      return;
+    }
+
+    let reply = "";
+    let final: ChatResponse | undefined;
+    for await (const { data } of timedEvents(response.body, timeout)) {
+      if (data === "[DONE]") break;
+
+      let json: any;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        // Plain-text data lines are raw tokens
+        reply += data;
+        yield { type: "token", text: data };
+        continue;
+      }
+
+      const delta = json?.delta ?? json?.token ?? json?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") {
+        reply += delta;
+        yield { type: "token", text: delta };
+      } else if (json?.ok !== undefined || json?.ai || json?.reply) {
+        final = chatResponseSchema.parse(json);
+      }
+    }
+
+    const finalReply = final?.ai?.reply ?? final?.reply;
+    if (!reply && finalReply) {
+      // Azure sent only the final payload, surface it as one token
+      yield { type: "token", text: finalReply };
+    }
+    yield { type: "done", data: final ?? { ok: true, ai: { reply } } };
+  }
+
+  protected worldChatBody(input: WorldChatRequest, stream: boolean): Record<string, unknown> {
+    const { characters, events, scenario, places, additionalSettings, ...rest } = worldChatRequestSchema.parse(input);
+    return {
+      action: "addworldchat",
+      ...rest,
+      stream: stream ? "true" : "false",
+      // Azure rejects empty strings for the optional context fields, omit them instead
+      characters: characters || undefined,
+      events: events || undefined,
+      scenario: scenario || undefined,
+      places: places || undefined,
+      additionalSettings: additionalSettings || undefined,
+    };
+  }
+
+  deleteWorldMessage(email: string, worldId: string, messageId: string): Promise<BaseResponse> {
+    return this.call(
+      "deleteworldmessage",
+      { action: "deleteworldmessage", worldid: worldId, email: emailSchema.parse(email), messageid: messageId },
+      baseResponseSchema,
+      { emptyResponse: { ok: true, deleted: true } },
+    );
+  }
+
+  // ---------- Settings ----------
+
+  getSettings(email: string): Promise<SettingsResponse> {
+    return this.call("getSettings", { action: "getSettings", email: emailSchema.parse(email) }, settingsResponseSchema, {
+      retries: 2,
+      emptyResponse: { ok: true, settings: null },
+    });
+  }
+
+  saveSettings(email: string, settings: SettingsPayload): Promise<SettingsResponse> {
+    const { model, temperature, maxTokens, responseStyle, conversationStyle, customPersonality } =
+      settingsPayloadSchema.parse(settings);
+    return this.call(
+      "saveSettings",
+      {
+        action: "saveSettings",
+        email: emailSchema.parse(email),
+        model,
+        temperature,
+        maxTokens,
+        responseStyle,
+        conversationStyle,
+        customPersonality,
+      },
+      settingsResponseSchema,
+      { emptyResponse: { ok: true } },
+    );
+  }
+
+  // ---------- Worlds ----------
+
+  async getWorlds(email: string, userId?: string): Promise<AzureWorld[]> {
+    const data = await this.call(
+      "getworlds",
+      { action: "getworlds", email: emailSchema.parse(email), userId },
+      worldsResponseSchema,
+      { retries: 2, emptyResponse: { ok: true, worlds: [] } },
+    );
+    // Azure Function returns 'items' in PascalCase, transform to camelCase for frontend
+    return (data.items || data.worlds || []).map(normalizeWorld);
+  }
+
+  createWorld(email: string, world: WorldPayload): Promise<BaseResponse> {
+    return this.call(
+      "createworld",
+      { action: "createworld", ...worldPayloadSchema.parse(world), email: emailSchema.parse(email) },
+      baseResponseSchema,
+    );
+  }
+
+  editWorld(email: string, worldId: string, updates: WorldPayload): Promise<BaseResponse> {
+    return this.call(
+      "editworld",
+      // C# backend expects PascalCase properties
+      { action: "editworld", ...toPascalCase({ ...worldPayloadSchema.parse(updates), email: emailSchema.parse(email) }) },
+      baseResponseSchema,
+      // Azure's ReadParam() looks for worldId in the URL, not the body
+      { query: { worldId } },
+    );
+  }
+
+  deleteWorld(email: string, worldId: string): Promise<BaseResponse> {
+    return this.call(
+      "deleteworld",
+      { action: "deleteworld", email: emailSchema.parse(email), rowkey: worldId },
+      baseResponseSchema,
+      { emptyResponse: { ok: true } },
+    );
+  }
+
+  async getWorldSummaries(email: string, worldId: string): Promise<WorldSummary[]> {
+    const data = await this.call(
+      "getworldsummaries",
+      { action: "getworldsummaries", email: emailSchema.parse(email), worldid: worldId },
+      summariesResponseSchema,
+      { retries: 2, emptyResponse: { ok: true, slices: [] } },
+    );
+    // Azure Function returns a 'slices' array
+    return data.slices.map((slice) => ({
+      fromUtc: slice.fromUtc,
+      toUtc: slice.toUtc,
+      createdUtc: slice.createdUtc,
+      summary: slice.summary,
+    }));
+  }
+
+  createWorldSummary(email: string, worldId: string): Promise<BaseResponse> {
+    return this.call(
+      "createworldsummary",
+      { action: "createworldsummary", email: emailSchema.parse(email), worldid: worldId },
+      baseResponseSchema,
+      { timeoutMs: CHAT_TIMEOUT_MS, emptyResponse: { ok: true } },
+    );
+  }
+}
+
+// Reading a response body fails, or times out, like the request itself
+function readBody<T>(reading: Promise<T>, timeoutMs: number): Promise<T> {
+  return reading.catch((error) => {
+    throw requestError(error, timeoutMs, "Failed to read the Azure Function response");
+  });
+}
+
+// The events of a streamed reply. Each one restarts `timeout`.
+async function* timedEvents(body: ReadableStream<Uint8Array>, timeout: IdleTimeout): AsyncGenerator<ServerSentEvent> {
+  const events = readServerSentEvents(body);
+  try {
+    while (true) {
+      const next = await readBody(events.next(), timeout.ms);
+      if (next.done) return;
+      timeout.restart();
+      yield next.value;
+    }
+  } finally {
+    await events.return(undefined);
+  }
+}
+
+function parseChatResponse(text: string): ChatResponse {
+  if (!text) throw new AzureFunctionError("Azure Function returned empty response", 502);
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new AzureFunctionError("Azure Function returned invalid JSON", 502);
+  }
+  const parsed = chatResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new AzureFunctionError("Azure Function returned an unexpected response", 502);
+  }
+  return parsed.data;
+}
+
+function extractErrorMessage(text: string): string | undefined {
+  if (!text) return undefined;
+  try {
+    const data = JSON.parse(text);
+    return data.error || data.message || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// AZURE_MOCK=true swaps the live backend for the in-memory stand-in in
+// server/mockAzure.ts so the app runs fully offline.
+export const azure = new AzureFunctionClient(
+  process.env.AZURE_MOCK === "true"
+    ? { functionUrl: MOCK_AZURE_URL, authUrl: MOCK_AZURE_URL, functionKey: "", fetch: mockAzureFetch }
+    : {},
+);
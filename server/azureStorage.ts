@@ -0,0 +1,354 @@
+import {
+  characterListSchema,
+  type ChatThread,
+  type InsertWorld,
+  type LoreEntry,
+  type SharedWorld,
+  type UserSettings,
+  type World,
+  type WorldRevision,
+  type WorldShare,
+  type WorldTemplate,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
+import { azure, AzureFunctionError, type AzureFunctionClient, type AzureWorld, type BaseResponse, type WorldPayload } from "./azure";
+import { matchesTerms } from "@shared/search";
+import {
+  compareExchanges,
+  decodeCursor,
+  encodeCursor,
+  type BranchPage,
+  type BranchQuery,
+  type ChatExchange,
+  type ExchangePage,
+  type ExchangeSearch,
+  type IWorldStorage,
+  type NewRevision,
+  type NewWorld,
+  type SearchPage,
+  type StoredMemory,
+  type StoredSummary,
+} from "./storage";
+
+// IWorldStorage backed by Azure Table Storage through the Azure Function.
+// Azure records chat exchanges itself while generating the reply and writes
+// summaries with its own model, so those methods only delegate.
+
+// World chat exchanges read per getworldchats call while searching
+const SEARCH_PAGE_SIZE = 100;
+
+function failureMessage(data: BaseResponse, fallback: string) {
+  return data.error || data.message || fallback;
+}
+
+// Azure keeps a world's character sheets as JSON in its text `characters`
+// column; older rows hold free text, which parses as a single sheet
+function toWorld(world: AzureWorld): World {
+  const characters = characterListSchema.safeParse(world.characters);
+  return { ...world, characters: characters.success ? characters.data : [], forkedFromId: null } as World;
+}
+
+function toPayload({ characters, ...world }: Partial<InsertWorld>): WorldPayload {
+  return { ...world, characters: characters && JSON.stringify(characters) };
+}
+
+export class AzureStorage implements IWorldStorage {
+  private revisions: (WorldRevision & { ownerEmail: string })[] = [];
+  readonly branching = false;
+  readonly editsReplies = false;
+
+  constructor(private client: AzureFunctionClient = azure) {}
+
+  async getWorld(owner: string, id: string): Promise<World | undefined> {
+    // Azure has no get-by-id action
+    return (await this.getWorldsByUser(owner)).find((world) => world.id === id);
+  }
+
+  async getWorldsByUser(owner: string, userId?: string): Promise<World[]> {
+    return (await this.client.getWorlds(owner, userId)).map(toWorld);
+  }
+
+  // Azure worlds have no column for where a fork came from
+  async createWorld(owner: string, { forkedFromId, ...world }: NewWorld): Promise<World> {
+    const data = await this.client.createWorld(owner, toPayload(world));
+    if (data.ok === false) {
+      throw new AzureFunctionError(failureMessage(data, "Failed to create world"), 400);
+    }
+    return { ...world, forkedFromId: null, id: String(data.id ?? data.Id ?? ""), createdAt: Date.now() };
+  }
+
+  async updateWorld(owner: string, id: string, updates: Partial<InsertWorld>): Promise<World | undefined> {
+    const current = await this.getWorld(owner, id);
+    if (!current) return undefined;
+    const data = await this.client.editWorld(owner, id, toPayload(updates));
+    if (data.ok === false) {
+      throw new AzureFunctionError(failureMessage(data, "Failed to update world"), 400);
+    }
+    // editworld doesn't return the row, and reading it back may still show
+    // the old values, so answer with the world as it was read before plus
+    // what was written
+    return { ...current, ...updates, id };
+  }
+
+  async deleteWorld(owner: string, id: string): Promise<boolean> {
+    const data = await this.client.deleteWorld(owner, id);
+    if (data.ok === false) {
+      throw new AzureFunctionError(failureMessage(data, "Failed to delete world from Azure Table Storage"), 400);
+    }
+    this.revisions = this.revisions.filter((revision) => revision.worldId !== id);
+    return true;
+  }
+
+  // The Azure Function has no table for revisions. They're kept for the life
+  // of the process, which is enough to see edits that editworld didn't keep.
+
+  async getRevisions(owner: string, worldId: string): Promise<WorldRevision[]> {
+    return this.revisions
+      .filter((revision) => revision.ownerEmail === owner && revision.worldId === worldId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(({ ownerEmail, ...revision }) => revision);
+  }
+
+  async addRevision(owner: string, revision: NewRevision): Promise<WorldRevision | undefined> {
+    const stored = { ...revision, id: randomUUID(), createdAt: Date.now(), ownerEmail: owner };
+    this.revisions.push(stored);
+    const { ownerEmail, ...result } = stored;
+    return result;
+  }
+
+  // Azure partitions worlds by their owner's email and has no table for
+  // shares, so worlds can't be shared
+
+  async getShares(): Promise<WorldShare[]> {
+    return [];
+  }
+
+  async shareWorld(): Promise<WorldShare | undefined> {
+    throw new AzureFunctionError("Sharing worlds needs STORAGE_BACKEND=postgres or memory", 501);
+  }
+
+  async unshareWorld(): Promise<boolean> {
+    return false;
+  }
+
+  async getSharedWorlds(): Promise<SharedWorld[]> {
+    return [];
+  }
+
+  async getSharedWorld(): Promise<SharedWorld | undefined> {
+    return undefined;
+  }
+
+  // Azure chats are keyed by world only, so a world has just its own chat
+
+  async getThreads(): Promise<ChatThread[]> {
+    return [];
+  }
+
+  async getThread(): Promise<ChatThread | undefined> {
+    return undefined;
+  }
+
+  async createThread(): Promise<ChatThread | undefined> {
+    throw new AzureFunctionError("Threads need STORAGE_BACKEND=postgres or memory", 501);
+  }
+
+  async updateThread(): Promise<ChatThread | undefined> {
+    return undefined;
+  }
+
+  async deleteThread(): Promise<boolean> {
+    return false;
+  }
+
+  // The Azure Function has no table for lorebooks
+
+  async getLoreEntries(): Promise<LoreEntry[]> {
+    return [];
+  }
+
+  async createLoreEntry(): Promise<LoreEntry | undefined> {
+    throw new AzureFunctionError("Lorebooks need STORAGE_BACKEND=postgres or memory", 501);
+  }
+
+  async updateLoreEntry(): Promise<LoreEntry | undefined> {
+    return undefined;
+  }
+
+  async deleteLoreEntry(): Promise<boolean> {
+    return false;
+  }
+
+  async getSettings(owner: string): Promise<Partial<UserSettings> | null> {
+    const { settings } = await this.client.getSettings(owner);
+    if (!settings) return null;
+    // Azure returns PascalCase rows
+    return {
+      model: settings.model ?? settings.Model,
+      temperature: settings.temperature ?? settings.Temperature,
+      maxTokens: settings.maxTokens ?? settings.MaxTokens,
+      responseStyle: settings.responseStyle ?? settings.ResponseStyle,
+      conversationStyle: settings.conversationStyle ?? settings.ConversationStyle,
+      customPersonality: settings.customPersonality ?? settings.CustomPersonality ?? "",
+    };
+  }
+
+  async saveSettings(owner: string, settings: Partial<UserSettings>): Promise<void> {
+    const data = await this.client.saveSettings(owner, settings);
+    if (data.ok === false) {
+      throw new AzureFunctionError(failureMessage(data, "Failed to save settings"), 400);
+    }
+  }
+
+  // Nor for world templates
+
+  async getTemplates(): Promise<WorldTemplate[]> {
+    return [];
+  }
+
+  async createTemplate(): Promise<WorldTemplate> {
+    throw new AzureFunctionError("World templates need STORAGE_BACKEND=postgres or memory", 501);
+  }
+
+  async deleteTemplate(): Promise<boolean> {
+    return false;
+  }
+
+  async getExchanges(
+    owner: string,
+    worldId: string | null,
+    { take, continuationToken }: { take: number; continuationToken?: string | null },
+  ): Promise<ExchangePage> {
+    if (worldId === null) {
+      // The global history action isn't paged
+      const data = await this.client.history(owner);
+      const items = data.items.map((item, index): ChatExchange => ({
+        id: `history-${index}`,
+        worldId: null,
+        threadId: null,
+        parentId: null,
+        speaker: null,
+        input: item.Input ?? "",
+        aiReply: item.Response ?? "",
+        createdAt: new Date(item.CreatedUtc || item.createdUtc || 0),
+      }));
+      return { items, continuationToken: null };
+    }
+
+    const data = await this.client.getWorldChats({ email: owner, worldId, take, continuationToken });
+    const items = data.items.map((item): ChatExchange => ({
+      id: item.id ?? "",
+      worldId,
+      threadId: null,
+      parentId: null,
+      speaker: null,
+      input: item.input ?? "",
+      aiReply: item.aiReply ?? "",
+      createdAt: new Date(item.createdUtc || 0),
+    }));
+    return { items, continuationToken: data.continuationToken ?? null };
+  }
+
+  async getBranch(owner: string, worldId: string, { threadId, take, continuationToken }: BranchQuery): Promise<BranchPage> {
+    if (threadId) return { items: [], continuationToken: null };
+    // Azure world chats are flat: the whole chat is one branch
+    const page = await this.getExchanges(owner, worldId, { take, continuationToken });
+    return { ...page, items: page.items.map((item) => ({ ...item, siblingIds: [item.id] })) };
+  }
+
+  async recordExchange(): Promise<ChatExchange | null> {
+    return null;
+  }
+
+  async deleteExchange(owner: string, worldId: string, id: string): Promise<boolean> {
+    const data = await this.client.deleteWorldMessage(owner, worldId, id);
+    return data.ok !== false;
+  }
+
+  async appendToReply(): Promise<boolean> {
+    // No Azure action edits a stored message
+    return false;
+  }
+
+  // Azure has no search action, so chats are read and filtered here: the
+  // global history in one call, each world's chat page by page from the
+  // newest until it has more than `take` matches older than the cursor
+  async searchExchanges(owner: string, { terms, worldId, role, from, to, take, continuationToken }: ExchangeSearch): Promise<SearchPage> {
+    const cursor = decodeCursor(continuationToken);
+    const isMatch = (exchange: ChatExchange) =>
+      (!from || exchange.createdAt >= from) &&
+      (!to || exchange.createdAt <= to) &&
+      (!cursor || compareExchanges(exchange, cursor) < 0) &&
+      ((role !== "assistant" && matchesTerms(exchange.input, terms)) ||
+        (role !== "user" && matchesTerms(exchange.aiReply, terms)));
+
+    const searchChat = async (chatWorldId: string | null): Promise<ChatExchange[]> => {
+      const found: ChatExchange[] = [];
+      let token: string | null = null;
+      do {
+        const page: ExchangePage = await this.getExchanges(owner, chatWorldId, { take: SEARCH_PAGE_SIZE, continuationToken: token });
+        found.push(...page.items.filter(isMatch));
+        token = page.items.length > 0 ? page.continuationToken : null;
+        // Older pages are all before the range
+        if (from && page.items.some((exchange) => exchange.createdAt < from)) break;
+      } while (token && found.length <= take);
+      return found;
+    };
+
+    const worldIds = worldId === undefined ? (await this.getWorldsByUser(owner)).map((world) => world.id) : worldId ? [worldId] : [];
+    const chats = await Promise.all([
+      ...(worldId ? [] : [searchChat(null)]),
+      ...worldIds.map((id) => searchChat(id)),
+    ]);
+    const matching = chats.flat().sort((a, b) => compareExchanges(b, a));
+    const items = matching.slice(0, take);
+    const hasMore = matching.length > take;
+    return { items, continuationToken: hasMore ? encodeCursor(items[items.length - 1]) : null };
+  }
+
+  async getSummaries(owner: string, worldId: string): Promise<StoredSummary[]> {
+    const summaries = await this.client.getWorldSummaries(owner, worldId);
+    // Azure slices have no id; their position identifies them
+    return summaries.map((summary, index) => ({
+      id: String(index),
+      fromUtc: summary.fromUtc ?? null,
+      toUtc: summary.toUtc ?? null,
+      createdUtc: summary.createdUtc ?? null,
+      summary: summary.summary ?? null,
+      source: "manual" as const,
+    }));
+  }
+
+  async createSummary(owner: string, worldId: string): Promise<boolean> {
+    const data = await this.client.createWorldSummary(owner, worldId);
+    return data.ok !== false;
+  }
+
+  async reviseSummary(): Promise<StoredSummary | undefined> {
+    throw new AzureFunctionError("Editing summaries needs STORAGE_BACKEND=postgres or memory", 501);
+  }
+
+  async addSummary(): Promise<StoredSummary | undefined> {
+    // Azure writes its summaries itself
+    return undefined;
+  }
+
+  // Nor for memories. Exchanges are remembered after every reply, so
+  // creating one quietly does nothing instead of failing.
+
+  async getMemories(): Promise<StoredMemory[]> {
+    return [];
+  }
+
+  async createMemory(): Promise<StoredMemory | undefined> {
+    return undefined;
+  }
+
+  async updateMemory(): Promise<StoredMemory | undefined> {
+    return undefined;
+  }
+
+  async deleteMemory(): Promise<boolean> {
+    return false;
+  }
+}
@@ -0,0 +1,284 @@
+import PDFDocument from "pdfkit";
+import { formatTimestamp, type ChatExportFormat, type ChatExportQuery } from "@shared/chatExport";
+import type { ChatThread, World } from "@shared/schema";
+import { formatCharacters } from "./llm/characters";
+import { storage, type ChatExchange } from "./storage";
+
+// Chat exports for GET /api/chat/export. The whole chat is read page by page
+// (on Azure, through getworldchats' continuation tokens), then written out as
+// Markdown, a standalone HTML page, a PDF or the raw exchanges as JSON.
+
+// Exchanges read per page while collecting a chat
+const EXPORT_PAGE_SIZE = 100;
+
+export type ChatExport = {
+  title: string;
+  world: World | null;
+  thread: ChatThread | null;
+  summary: string | null; // the world's latest story summary, with context
+  context: boolean;
+  timestamps: boolean;
+  timeZone?: string;
+  exchanges: ChatExchange[]; // oldest first
+  exportedAt: Date;
+};
+
+export type ExportFile = { body: string | Buffer; contentType: string; extension: string };
+
+// Every exchange of the global chat, or of the branch on screen of a world's
+// chat (the newest one), from `from` to `to`
+async function collectExchanges(
+  owner: string,
+  worldId: string | null,
+  threadId: string | null,
+  from?: Date,
+  to?: Date,
+): Promise<ChatExchange[]> {
+  let exchanges: ChatExchange[] = [];
+  let continuationToken: string | null = null;
+  do {
+    const page: { items: ChatExchange[]; continuationToken: string | null } = worldId
+      ? await storage.getBranch(owner, worldId, { threadId, take: EXPORT_PAGE_SIZE, continuationToken })
+      : await storage.getExchanges(owner, null, { take: EXPORT_PAGE_SIZE, continuationToken });
+    exchanges = [...page.items, ...exchanges];
+    continuationToken = page.items.length > 0 ? page.continuationToken : null;
+    // Older pages are all before the range
+    if (from && page.items.length > 0 && page.items[0].createdAt < from) break;
+  } while (continuationToken);
+
+  // Azure doesn't always return a page in order
+  return exchanges
+    .filter((exchange) => (!from || exchange.createdAt >= from) && (!to || exchange.createdAt <= to))
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Load what an export needs. `owner` is who the chat is stored under (a
+// shared world's owner).
+export async function loadChatExport(
+  owner: string,
+  query: ChatExportQuery,
+  world: World | null,
+  thread: ChatThread | null,
+): Promise<ChatExport> {
+  const exchanges = await collectExchanges(
+    owner,
+    world?.id ?? null,
+    thread?.id ?? null,
+    query.from ? new Date(query.from) : undefined,
+    query.to ? new Date(query.to) : undefined,
+  );
+  const summary = world && query.context ? (await storage.getSummaries(owner, world.id)).at(-1)?.summary ?? null : null;
+  return {
+    title: world ? (thread ? `${world.name} · ${thread.title}` : world.name) : "Chat",
+    world,
+    thread,
+    summary,
+    context: query.context,
+    timestamps: query.timestamps,
+    timeZone: query.timeZone,
+    exchanges,
+    exportedAt: new Date(),
+  };
+}
+
+// The world's context as titled sections, leaving out empty ones
+function contextSections(chat: ChatExport): [string, string][] {
+  const { world } = chat;
+  if (!chat.context || !world) return [];
+  const sections: [string, string][] = [
+    ["Description", world.description],
+    ["Personality", world.customPersonality],
+    ["Scenario", world.scenario],
+    ["Characters", formatCharacters(world.characters)],
+    ["Places", world.places],
+    ["Events", world.events],
+    ["Additional settings", world.additionalSettings],
+    ["Story so far", chat.summary ?? ""],
+  ];
+  return sections.filter(([, content]) => content.trim());
+}
+
+// Who said each side of an exchange, and when
+type Turn = { role: "user" | "assistant"; label: string; time: string | null; text: string };
+
+function turns(chat: ChatExport, exchange: ChatExchange): Turn[] {
+  const time = chat.timestamps ? formatTimestamp(exchange.createdAt, chat.timeZone) : null;
+  return [
+    ...(exchange.input ? [{ role: "user" as const, label: exchange.speaker || "You", time, text: exchange.input }] : []),
+    ...(exchange.aiReply ? [{ role: "assistant" as const, label: "AI", time, text: exchange.aiReply }] : []),
+  ];
+}
+
+function exportedLine(chat: ChatExport): string {
+  const count = chat.exchanges.length;
+  return `Exported ${formatTimestamp(chat.exportedAt, chat.timeZone)} · ${count} ${count === 1 ? "exchange" : "exchanges"}`;
+}
+
+function toMarkdown(chat: ChatExport): string {
+  const lines = [`# ${chat.title}`, "", `_${exportedLine(chat)}_`, ""];
+  const sections = contextSections(chat);
+  if (sections.length > 0) {
+    lines.push("## World context", "");
+    // Character sheets head each character with "##"; nest them under their section
+    for (const [title, content] of sections) lines.push(`### ${title}`, "", content.trim().replace(/^## /gm, "#### "), "");
+    lines.push("## Conversation", "");
+  }
+  chat.exchanges.forEach((exchange, index) => {
+    if (index > 0) lines.push("---", "");
+    for (const { label, time, text } of turns(chat, exchange)) {
+      lines.push(`**${label}**${time ? ` · ${time}` : ""}`, "", text.trim(), "");
+    }
+  });
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+const HTML_STYLE = `
+  :root { color-scheme: light dark; --bg: #ffffff; --fg: #1f2328; --muted: #656d76; --card: #f6f8fa; --user: #2563eb; --user-fg: #ffffff; --border: #d0d7de; }
+  @media (prefers-color-scheme: dark) { :root { --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --card: #161b22; --user: #1d4ed8; --border: #30363d; } }
+  body { margin: 0; background: var(--bg); color: var(--fg); font: 15px/1.55 Inter, system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem 4rem; }
+  h1 { margin: 0 0 .25rem; font-size: 1.6rem; }
+  h2 { margin: 2rem 0 1rem; font-size: 1.15rem; border-bottom: 1px solid var(--border); padding-bottom: .35rem; }
+  h3 { margin: 1.25rem 0 .35rem; font-size: 1rem; }
+  .meta, .time { color: var(--muted); font-size: .85rem; }
+  .text { white-space: pre-wrap; overflow-wrap: anywhere; }
+  .turn { display: flex; flex-direction: column; margin: 1rem 0; }
+  .turn.user { align-items: flex-end; }
+  .label { font-size: .8rem; color: var(--muted); margin-bottom: .25rem; }
+  .bubble { max-width: 85%; padding: .75rem 1rem; border-radius: 1rem; background: var(--card); }
+  .user .bubble { background: var(--user); color: var(--user-fg); }
+  pre, code { font-family: "JetBrains Mono", ui-monospace, monospace; }
+`;
+
+function toHtml(chat: ChatExport): string {
+  const sections = contextSections(chat);
+  const body: string[] = [`<h1>${escapeHtml(chat.title)}</h1>`, `<p class="meta">${escapeHtml(exportedLine(chat))}</p>`];
+  if (sections.length > 0) {
+    body.push("<h2>World context</h2>");
+    for (const [title, content] of sections) {
+      body.push(`<h3>${escapeHtml(title)}</h3>`, `<div class="text">${escapeHtml(content.trim())}</div>`);
+    }
+    body.push("<h2>Conversation</h2>");
+  }
+  for (const exchange of chat.exchanges) {
+    for (const { role, label, time, text } of turns(chat, exchange)) {
+      body.push(
+        `<div class="turn ${role}">`,
+        `<div class="label">${escapeHtml(label)}${time ? ` · <span class="time">${escapeHtml(time)}</span>` : ""}</div>`,
+        `<div class="bubble text">${escapeHtml(text.trim())}</div>`,
+        "</div>",
+      );
+    }
+  }
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(chat.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    "<main>",
+    ...body,
+    "</main>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+// The PDF's built-in fonts only cover Windows-1252; other characters (emoji,
+// most non-Latin scripts) are written as "?"
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+
+function pdfText(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0)!;
+    return (code >= 0x20 && code <= 0xff) || char === "\n" || WIN_ANSI_EXTRAS.includes(char) ? char : char === "\t" ? "    " : "?";
+  }).join("");
+}
+
+function toPdf(chat: ChatExport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 56, info: { Title: pdfText(chat.title) } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica-Bold").fontSize(20).text(pdfText(chat.title));
+    doc.font("Helvetica").fontSize(9).fillColor("#656d76").text(pdfText(exportedLine(chat))).fillColor("black");
+
+    const sections = contextSections(chat);
+    if (sections.length > 0) {
+      doc.moveDown().font("Helvetica-Bold").fontSize(14).text("World context");
+      for (const [title, content] of sections) {
+        doc.moveDown(0.5).font("Helvetica-Bold").fontSize(11).text(pdfText(title));
+        doc.font("Helvetica").fontSize(10).text(pdfText(content.trim()));
+      }
+      doc.moveDown().font("Helvetica-Bold").fontSize(14).text("Conversation");
+    }
+    for (const exchange of chat.exchanges) {
+      for (const { label, time, text } of turns(chat, exchange)) {
+        doc.moveDown(0.75).font("Helvetica-Bold").fontSize(10).text(pdfText(label), { continued: !!time });
+        if (time) doc.font("Helvetica").fillColor("#656d76").text(` · ${time}`).fillColor("black");
+        doc.font("Helvetica").fontSize(11).text(pdfText(text.trim()), { lineGap: 2 });
+      }
+    }
+    doc.end();
+  });
+}
+
+function toJson(chat: ChatExport): string {
+  const { world, thread } = chat;
+  return JSON.stringify(
+    {
+      title: chat.title,
+      exportedUtc: chat.exportedAt.toISOString(),
+      worldId: world?.id ?? null,
+      threadId: thread?.id ?? null,
+      ...(chat.context && world && {
+        world: {
+          name: world.name,
+          description: world.description,
+          customPersonality: world.customPersonality,
+          scenario: world.scenario,
+          characters: world.characters,
+          places: world.places,
+          events: world.events,
+          additionalSettings: world.additionalSettings,
+        },
+        summary: chat.summary,
+      }),
+      exchanges: chat.exchanges.map((exchange) => ({
+        id: exchange.id,
+        parentId: exchange.parentId,
+        speaker: exchange.speaker,
+        input: exchange.input,
+        aiReply: exchange.aiReply,
+        createdUtc: exchange.createdAt.toISOString(),
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+export async function renderChatExport(chat: ChatExport, format: ChatExportFormat): Promise<ExportFile> {
+  switch (format) {
+    case "markdown":
+      return { body: toMarkdown(chat), contentType: "text/markdown; charset=utf-8", extension: "md" };
+    case "html":
+      return { body: toHtml(chat), contentType: "text/html; charset=utf-8", extension: "html" };
+    case "pdf":
+      return { body: await toPdf(chat), contentType: "application/pdf", extension: "pdf" };
+    case "json":
+      return { body: toJson(chat), contentType: "application/json; charset=utf-8", extension: "json" };
+  }
+}
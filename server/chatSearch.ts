@@ -0,0 +1,127 @@
+import type { z } from "zod";
+import { matchesTerms, searchTerms, type searchRequestSchema, type SearchHit, type SearchSnippet } from "@shared/search";
+import { decodeCursor, encodeCursor, storage, type ChatExchange } from "./storage";
+import { shareEmail, type WorldAccess } from "./worldAccess";
+
+// Full-text search of chat histories for POST /api/search. Storage finds the
+// matching exchanges of one owner; this searches every owner whose chats the
+// user may read, merges the pages and cuts the snippets.
+
+type SearchRequest = z.infer<typeof searchRequestSchema>;
+
+// Characters of text a snippet shows, and how many of them come before the
+// first match
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+// Where to search: an owner's chats, all of them or one world's (null for
+// the global chat)
+type Scope = { owner: string; worldId?: string | null };
+
+// The part of `text` around its first match, with every match in it marked
+function snippet(role: SearchSnippet["role"], original: string, terms: string[]): SearchSnippet {
+  const text = original.replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  // Start at a word
+  const space = lower.indexOf(" ", start);
+  if (start > 0 && space >= 0 && space < first) start = space + 1;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const shown = prefix + text.slice(start, end) + (end < text.length ? "…" : "");
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let index = lower.indexOf(term, start); index >= 0 && index < end; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, Math.min(index + term.length, end)]);
+    }
+  }
+  // Overlapping matches become one highlight
+  ranges.sort((a, b) => a[0] - b[0]);
+  const highlights: [number, number][] = [];
+  for (const [from, to] of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else highlights.push([from, to]);
+  }
+  const offset = prefix.length - start;
+  return { role, text: shown, highlights: highlights.map(([from, to]) => [from + offset, to + offset]) };
+}
+
+function newestFirst(a: ChatExchange, b: ChatExchange) {
+  return b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+// Search the chats of `email`: one world's when `access` is given (its
+// owner's rows), otherwise the global chat or everything they can read
+export async function searchChats(
+  email: string,
+  request: SearchRequest,
+  access?: WorldAccess,
+): Promise<{ hits: SearchHit[]; continuationToken: string | null }> {
+  const terms = searchTerms(request.query);
+  const worldNames = new Map<string, string>();
+  let scopes: Scope[];
+  if (access) {
+    scopes = [{ owner: access.owner, worldId: access.world.id }];
+    worldNames.set(access.world.id, access.world.name);
+  } else if (request.worldId === null) {
+    scopes = [{ owner: email, worldId: null }];
+  } else {
+    const [own, shared] = await Promise.all([storage.getWorldsByUser(email), storage.getSharedWorlds(shareEmail(email))]);
+    own.forEach((world) => worldNames.set(world.id, world.name));
+    shared.forEach((world) => worldNames.set(world.id, world.name));
+    scopes = [{ owner: email }, ...shared.map((world) => ({ owner: world.ownerEmail, worldId: world.id }))];
+  }
+
+  // Every scope pages from the same cursor, so the newest `take` of their
+  // merged matches is the next page of all of them
+  const { take, continuationToken } = request;
+  if (continuationToken && !decodeCursor(continuationToken)) return { hits: [], continuationToken: null };
+  const pages = await Promise.all(
+    scopes.map(({ owner, worldId }) =>
+      storage.searchExchanges(owner, {
+        terms,
+        worldId,
+        role: request.role,
+        from: request.from ? new Date(request.from) : undefined,
+        to: request.to ? new Date(request.to) : undefined,
+        take,
+        continuationToken,
+      }).then((page) => ({ owner, ...page })),
+    ),
+  );
+  const merged = pages
+    .flatMap(({ owner, items }) => items.map((exchange) => ({ owner, exchange })))
+    .sort((a, b) => newestFirst(a.exchange, b.exchange));
+  const found = merged.slice(0, take);
+  const hasMore = merged.length > take || pages.some((page) => page.continuationToken);
+
+  // Thread titles, for the worlds with hits in threads
+  const threadTitles = new Map<string, string>();
+  const threadWorlds = new Map<string, string>();
+  found.forEach(({ owner, exchange }) => exchange.worldId && exchange.threadId && threadWorlds.set(exchange.worldId, owner));
+  await Promise.all(
+    Array.from(threadWorlds, async ([worldId, owner]) => {
+      (await storage.getThreads(owner, worldId)).forEach((thread) => threadTitles.set(thread.id, thread.title));
+    }),
+  );
+
+  const hits = found.map(({ exchange }): SearchHit => ({
+    id: exchange.id,
+    worldId: exchange.worldId,
+    worldName: exchange.worldId ? worldNames.get(exchange.worldId) ?? null : null,
+    threadId: exchange.threadId,
+    threadTitle: exchange.threadId ? threadTitles.get(exchange.threadId) ?? null : null,
+    speaker: exchange.speaker,
+    createdUtc: exchange.createdAt.toISOString(),
+    snippets: [
+      ...(request.role !== "assistant" && matchesTerms(exchange.input, terms) ? [snippet("user", exchange.input, terms)] : []),
+      ...(request.role !== "user" && matchesTerms(exchange.aiReply, terms) ? [snippet("assistant", exchange.aiReply, terms)] : []),
+    ],
+  }));
+  const last = found[found.length - 1];
+  return { hits, continuationToken: hasMore && last ? encodeCursor(last.exchange) : null };
+}
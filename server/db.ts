@@ -0,0 +1,17 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+// Drizzle over node-postgres, so any Postgres works (local, Docker, Neon's
+// pooled connection string...). Only created when STORAGE_BACKEND=postgres.
+
+export function createDb(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set when STORAGE_BACKEND=postgres");
+  }
+  const pool = new pg.Pool({ connectionString });
+  pool.on("error", (error) => console.error("[DB] Idle client error:", error.message));
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,699 @@
+import { and, asc, desc, eq, gte, ilike, inArray, isNull, lt, lte, or, sql, type Column, type SQL } from "drizzle-orm";
+import {
+  loreEntriesTable,
+  users,
+  userSettingsTable,
+  worldsTable,
+  worldMemoriesTable,
+  worldMessagesTable,
+  worldRevisionsTable,
+  worldSharesTable,
+  worldSummariesTable,
+  worldTemplatesTable,
+  worldThreadsTable,
+  type ChatThread,
+  type InsertChatThread,
+  type InsertLoreEntry,
+  type InsertUser,
+  type LoreEntry,
+  type LoreEntryRow,
+  type InsertWorld,
+  type InsertWorldShare,
+  type InsertWorldTemplate,
+  type SharedWorld,
+  type User,
+  type UserSettings,
+  type World,
+  type WorldMemoryRow,
+  type WorldMessage,
+  type WorldRevision,
+  type WorldRevisionRow,
+  type WorldRow,
+  type WorldShare,
+  type WorldShareRow,
+  type WorldSummaryRow,
+  type WorldTemplate,
+  type WorldTemplateRow,
+  type WorldThreadRow,
+} from "@shared/schema";
+import { createDb, type Database } from "./db";
+import {
+  branchPage,
+  decodeCursor,
+  encodeCursor,
+  type BranchPage,
+  type BranchQuery,
+  type ChatExchange,
+  type ExchangePage,
+  type ExchangeSearch,
+  type IStorage,
+  type MemoryChanges,
+  type NewExchange,
+  type NewMemory,
+  type NewRevision,
+  type NewWorld,
+  pendingForSummary,
+  type SearchPage,
+  type StoredMemory,
+  type StoredSummary,
+  type Summarizer,
+  type SummaryOptions,
+} from "./storage";
+
+// IStorage on Postgres through Drizzle. Tables are defined in
+// shared/schema.ts; create them with `npm run db:migrate`.
+
+function toWorld({ ownerEmail, updatedAt, createdAt, ...row }: WorldRow): World {
+  return { ...row, createdAt: createdAt.getTime() } as World;
+}
+
+function toThread({ ownerEmail, createdAt, updatedAt, ...row }: WorldThreadRow): ChatThread {
+  return { ...row, createdAt: createdAt.getTime(), updatedAt: updatedAt.getTime() };
+}
+
+function toLoreEntry({ ownerEmail, createdAt, updatedAt, ...row }: LoreEntryRow): LoreEntry {
+  return { ...row, createdAt: createdAt.getTime(), updatedAt: updatedAt.getTime() };
+}
+
+function toRevision({ ownerEmail, createdAt, ...row }: WorldRevisionRow): WorldRevision {
+  return { ...row, createdAt: createdAt.getTime() };
+}
+
+function toShare({ ownerEmail, createdAt, ...row }: WorldShareRow): WorldShare {
+  return { ...row, createdAt: createdAt.getTime() };
+}
+
+function toTemplate({ ownerEmail, createdAt, updatedAt, ...row }: WorldTemplateRow): WorldTemplate {
+  return { ...row, createdAt: createdAt.getTime(), updatedAt: updatedAt.getTime() };
+}
+
+function toSummary(row: WorldSummaryRow): StoredSummary {
+  return {
+    id: row.id,
+    fromUtc: row.fromUtc?.toISOString() ?? null,
+    toUtc: row.toUtc?.toISOString() ?? null,
+    createdUtc: row.createdAt.toISOString(),
+    summary: row.summary,
+    source: row.source,
+  };
+}
+
+function toMemory({ ownerEmail, createdAt, updatedAt, ...row }: WorldMemoryRow): StoredMemory {
+  return { ...row, createdAt: createdAt.getTime(), updatedAt: updatedAt.getTime() };
+}
+
+function toExchange({ ownerEmail, ...row }: WorldMessage): ChatExchange {
+  return row;
+}
+
+export class DbStorage implements IStorage {
+  readonly branching = true;
+  readonly editsReplies = true;
+
+  constructor(private db: Database) {}
+
+  static fromEnv() {
+    return new DbStorage(createDb());
+  }
+
+  // ---------- Users ----------
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // ---------- Worlds ----------
+
+  private ownWorld(owner: string, id: string): SQL {
+    return and(eq(worldsTable.id, id), eq(worldsTable.ownerEmail, owner))!;
+  }
+
+  async getWorld(owner: string, id: string): Promise<World | undefined> {
+    const [row] = await this.db.select().from(worldsTable).where(this.ownWorld(owner, id));
+    return row && toWorld(row);
+  }
+
+  async getWorldsByUser(owner: string): Promise<World[]> {
+    const rows = await this.db
+      .select()
+      .from(worldsTable)
+      .where(eq(worldsTable.ownerEmail, owner))
+      .orderBy(asc(worldsTable.createdAt));
+    return rows.map(toWorld);
+  }
+
+  async createWorld(owner: string, world: NewWorld): Promise<World> {
+    const [row] = await this.db
+      .insert(worldsTable)
+      .values({ ...world, ownerEmail: owner })
+      .returning();
+    return toWorld(row);
+  }
+
+  async updateWorld(owner: string, id: string, updates: Partial<InsertWorld>): Promise<World | undefined> {
+    const [row] = await this.db
+      .update(worldsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(this.ownWorld(owner, id))
+      .returning();
+    return row && toWorld(row);
+  }
+
+  async deleteWorld(owner: string, id: string): Promise<boolean> {
+    // Messages and summaries go with it (ON DELETE CASCADE)
+    const deleted = await this.db
+      .delete(worldsTable)
+      .where(this.ownWorld(owner, id))
+      .returning({ id: worldsTable.id });
+    return deleted.length > 0;
+  }
+
+  async getRevisions(owner: string, worldId: string): Promise<WorldRevision[]> {
+    const rows = await this.db
+      .select()
+      .from(worldRevisionsTable)
+      .where(and(eq(worldRevisionsTable.worldId, worldId), eq(worldRevisionsTable.ownerEmail, owner)))
+      .orderBy(desc(worldRevisionsTable.createdAt));
+    return rows.map(toRevision);
+  }
+
+  async addRevision(owner: string, revision: NewRevision): Promise<WorldRevision | undefined> {
+    if (!(await this.getWorld(owner, revision.worldId))) return undefined;
+    const [row] = await this.db
+      .insert(worldRevisionsTable)
+      .values({ ...revision, ownerEmail: owner })
+      .returning();
+    return toRevision(row);
+  }
+
+  // ---------- Sharing ----------
+
+  async getShares(owner: string, worldId: string): Promise<WorldShare[]> {
+    const rows = await this.db
+      .select()
+      .from(worldSharesTable)
+      .where(and(eq(worldSharesTable.worldId, worldId), eq(worldSharesTable.ownerEmail, owner)))
+      .orderBy(asc(worldSharesTable.createdAt));
+    return rows.map(toShare);
+  }
+
+  async shareWorld(owner: string, worldId: string, share: InsertWorldShare): Promise<WorldShare | undefined> {
+    if (!(await this.getWorld(owner, worldId))) return undefined;
+    const [row] = await this.db
+      .insert(worldSharesTable)
+      .values({ ...share, worldId, ownerEmail: owner })
+      .onConflictDoUpdate({ target: [worldSharesTable.worldId, worldSharesTable.email], set: { role: share.role } })
+      .returning();
+    return toShare(row);
+  }
+
+  async unshareWorld(owner: string, worldId: string, email: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(worldSharesTable)
+      .where(and(
+        eq(worldSharesTable.worldId, worldId),
+        eq(worldSharesTable.ownerEmail, owner),
+        eq(worldSharesTable.email, email),
+      ))
+      .returning({ id: worldSharesTable.id });
+    return deleted.length > 0;
+  }
+
+  private async sharedWorlds(email: string, worldId?: string): Promise<SharedWorld[]> {
+    const rows = await this.db
+      .select({ world: worldsTable, role: worldSharesTable.role })
+      .from(worldSharesTable)
+      .innerJoin(worldsTable, eq(worldsTable.id, worldSharesTable.worldId))
+      .where(and(eq(worldSharesTable.email, email), worldId ? eq(worldSharesTable.worldId, worldId) : undefined))
+      .orderBy(asc(worldSharesTable.createdAt));
+    return rows.map(({ world, role }) => ({ ...toWorld(world), ownerEmail: world.ownerEmail, role }));
+  }
+
+  async getSharedWorlds(email: string): Promise<SharedWorld[]> {
+    return this.sharedWorlds(email);
+  }
+
+  async getSharedWorld(email: string, worldId: string): Promise<SharedWorld | undefined> {
+    const [world] = await this.sharedWorlds(email, worldId);
+    return world;
+  }
+
+  // ---------- Threads ----------
+
+  private ownThread(owner: string, worldId: string, id: string): SQL {
+    return and(
+      eq(worldThreadsTable.id, id),
+      eq(worldThreadsTable.worldId, worldId),
+      eq(worldThreadsTable.ownerEmail, owner),
+    )!;
+  }
+
+  async getThreads(owner: string, worldId: string): Promise<ChatThread[]> {
+    const rows = await this.db
+      .select()
+      .from(worldThreadsTable)
+      .where(and(eq(worldThreadsTable.worldId, worldId), eq(worldThreadsTable.ownerEmail, owner)))
+      .orderBy(asc(worldThreadsTable.createdAt));
+    return rows.map(toThread);
+  }
+
+  async getThread(owner: string, worldId: string, id: string): Promise<ChatThread | undefined> {
+    const [row] = await this.db.select().from(worldThreadsTable).where(this.ownThread(owner, worldId, id));
+    return row && toThread(row);
+  }
+
+  async createThread(owner: string, worldId: string, thread: InsertChatThread): Promise<ChatThread | undefined> {
+    if (!(await this.getWorld(owner, worldId))) return undefined;
+    const [row] = await this.db
+      .insert(worldThreadsTable)
+      .values({ ...thread, worldId, ownerEmail: owner })
+      .returning();
+    return toThread(row);
+  }
+
+  async updateThread(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertChatThread>,
+  ): Promise<ChatThread | undefined> {
+    const [row] = await this.db
+      .update(worldThreadsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(this.ownThread(owner, worldId, id))
+      .returning();
+    return row && toThread(row);
+  }
+
+  async deleteThread(owner: string, worldId: string, id: string): Promise<boolean> {
+    // Its messages go with it (ON DELETE CASCADE)
+    const deleted = await this.db
+      .delete(worldThreadsTable)
+      .where(this.ownThread(owner, worldId, id))
+      .returning({ id: worldThreadsTable.id });
+    return deleted.length > 0;
+  }
+
+  // ---------- Lorebook ----------
+
+  private ownLoreEntry(owner: string, worldId: string, id: string): SQL {
+    return and(
+      eq(loreEntriesTable.id, id),
+      eq(loreEntriesTable.worldId, worldId),
+      eq(loreEntriesTable.ownerEmail, owner),
+    )!;
+  }
+
+  async getLoreEntries(owner: string, worldId: string): Promise<LoreEntry[]> {
+    const rows = await this.db
+      .select()
+      .from(loreEntriesTable)
+      .where(and(eq(loreEntriesTable.worldId, worldId), eq(loreEntriesTable.ownerEmail, owner)))
+      .orderBy(asc(loreEntriesTable.createdAt));
+    return rows.map(toLoreEntry);
+  }
+
+  async createLoreEntry(owner: string, worldId: string, entry: InsertLoreEntry): Promise<LoreEntry | undefined> {
+    if (!(await this.getWorld(owner, worldId))) return undefined;
+    const [row] = await this.db
+      .insert(loreEntriesTable)
+      .values({ ...entry, worldId, ownerEmail: owner })
+      .returning();
+    return toLoreEntry(row);
+  }
+
+  async updateLoreEntry(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertLoreEntry>,
+  ): Promise<LoreEntry | undefined> {
+    const [row] = await this.db
+      .update(loreEntriesTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(this.ownLoreEntry(owner, worldId, id))
+      .returning();
+    return row && toLoreEntry(row);
+  }
+
+  async deleteLoreEntry(owner: string, worldId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(loreEntriesTable)
+      .where(this.ownLoreEntry(owner, worldId, id))
+      .returning({ id: loreEntriesTable.id });
+    return deleted.length > 0;
+  }
+
+  // ---------- Settings ----------
+
+  async getSettings(owner: string): Promise<Partial<UserSettings> | null> {
+    const [row] = await this.db.select().from(userSettingsTable).where(eq(userSettingsTable.email, owner));
+    if (!row) return null;
+    const { updatedAt, ...settings } = row;
+    return settings as Partial<UserSettings>;
+  }
+
+  async saveSettings(owner: string, settings: Partial<UserSettings>): Promise<void> {
+    const { email, ...values } = settings;
+    await this.db
+      .insert(userSettingsTable)
+      .values({ ...values, email: owner })
+      .onConflictDoUpdate({
+        target: userSettingsTable.email,
+        set: { ...values, updatedAt: new Date() },
+      });
+  }
+
+  // ---------- Templates ----------
+
+  private ownTemplate(owner: string, id: string): SQL {
+    return and(eq(worldTemplatesTable.id, id), eq(worldTemplatesTable.ownerEmail, owner))!;
+  }
+
+  async getTemplates(owner: string): Promise<WorldTemplate[]> {
+    const rows = await this.db
+      .select()
+      .from(worldTemplatesTable)
+      .where(eq(worldTemplatesTable.ownerEmail, owner))
+      .orderBy(desc(worldTemplatesTable.createdAt));
+    return rows.map(toTemplate);
+  }
+
+  async createTemplate(owner: string, template: InsertWorldTemplate): Promise<WorldTemplate> {
+    const [row] = await this.db
+      .insert(worldTemplatesTable)
+      .values({ ...template, ownerEmail: owner })
+      .returning();
+    return toTemplate(row);
+  }
+
+  async deleteTemplate(owner: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(worldTemplatesTable)
+      .where(this.ownTemplate(owner, id))
+      .returning({ id: worldTemplatesTable.id });
+    return deleted.length > 0;
+  }
+
+  // ---------- Chat history ----------
+
+  private exchangesOf(owner: string, worldId: string | null): SQL {
+    return and(
+      eq(worldMessagesTable.ownerEmail, owner),
+      worldId === null ? isNull(worldMessagesTable.worldId) : eq(worldMessagesTable.worldId, worldId),
+    )!;
+  }
+
+  async getExchanges(
+    owner: string,
+    worldId: string | null,
+    { take, continuationToken }: { take: number; continuationToken?: string | null },
+  ): Promise<ExchangePage> {
+    // Newest first, one extra row to know whether there is an older page
+    const rows = await this.db
+      .select()
+      .from(worldMessagesTable)
+      .where(and(this.exchangesOf(owner, worldId), this.olderThan(continuationToken)))
+      .orderBy(desc(worldMessagesTable.createdAt), desc(worldMessagesTable.id))
+      .limit(take + 1);
+
+    const items = rows.slice(0, take).reverse().map(toExchange);
+    const hasMore = rows.length > take;
+    return { items, continuationToken: hasMore && items.length > 0 ? encodeCursor(items[0]) : null };
+  }
+
+  // Exchanges before a continuation token's cursor
+  private olderThan(continuationToken?: string | null): SQL | undefined {
+    const cursor = decodeCursor(continuationToken);
+    return cursor
+      ? or(
+          lt(worldMessagesTable.createdAt, cursor.createdAt),
+          and(eq(worldMessagesTable.createdAt, cursor.createdAt), lt(worldMessagesTable.id, cursor.id)),
+        )
+      : undefined;
+  }
+
+  private inThread(threadId?: string | null): SQL {
+    return threadId ? eq(worldMessagesTable.threadId, threadId) : isNull(worldMessagesTable.threadId);
+  }
+
+  async getBranch(owner: string, worldId: string, query: BranchQuery): Promise<BranchPage> {
+    // Pick the branch from the shape of the tree, then load only its page
+    const nodes = await this.db
+      .select({ id: worldMessagesTable.id, parentId: worldMessagesTable.parentId, createdAt: worldMessagesTable.createdAt })
+      .from(worldMessagesTable)
+      .where(and(this.exchangesOf(owner, worldId), this.inThread(query.threadId)));
+    const page = branchPage(nodes, query);
+    if (page.items.length === 0) return { items: [], continuationToken: page.continuationToken };
+
+    const rows = await this.db
+      .select()
+      .from(worldMessagesTable)
+      .where(and(this.exchangesOf(owner, worldId), inArray(worldMessagesTable.id, page.items.map((item) => item.id))));
+    const byId = new Map(rows.map((row) => [row.id, toExchange(row)]));
+    const items = page.items.flatMap((item) => {
+      const exchange = byId.get(item.id);
+      return exchange ? [{ ...exchange, siblingIds: item.siblingIds }] : [];
+    });
+    return { items, continuationToken: page.continuationToken };
+  }
+
+  async recordExchange(owner: string, { parentId, threadId = null, ...exchange }: NewExchange): Promise<ChatExchange | null> {
+    if (exchange.worldId && !(await this.getWorld(owner, exchange.worldId))) return null;
+    if (threadId && !(exchange.worldId && (await this.getThread(owner, exchange.worldId, threadId)))) return null;
+    const parent = await this.resolveParent(owner, exchange.worldId, threadId, parentId);
+    if (parent === undefined) return null;
+    const [row] = await this.db
+      .insert(worldMessagesTable)
+      .values({
+        ...exchange,
+        threadId,
+        parentId: parent,
+        ownerEmail: owner,
+        // Set here rather than by the database so timestamps have the
+        // millisecond precision continuation tokens carry
+        createdAt: exchange.createdAt ?? new Date(),
+      })
+      .returning();
+    return toExchange(row);
+  }
+
+  // The parent a new exchange gets: the one asked for, or without one the
+  // newest exchange of the chat. undefined when the one asked for isn't in
+  // the same chat. The global chat stays flat.
+  private async resolveParent(
+    owner: string,
+    worldId: string | null,
+    threadId: string | null,
+    parentId?: string | null,
+  ): Promise<string | null | undefined> {
+    if (worldId === null || parentId === null) return null;
+    const [parent] = await this.db
+      .select({ id: worldMessagesTable.id })
+      .from(worldMessagesTable)
+      .where(and(
+        this.exchangesOf(owner, worldId),
+        this.inThread(threadId),
+        parentId ? eq(worldMessagesTable.id, parentId) : undefined,
+      ))
+      .orderBy(desc(worldMessagesTable.createdAt), desc(worldMessagesTable.id))
+      .limit(1);
+    return parentId ? parent?.id : parent?.id ?? null;
+  }
+
+  async deleteExchange(owner: string, worldId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [exchange] = await tx
+        .select({ parentId: worldMessagesTable.parentId })
+        .from(worldMessagesTable)
+        .where(and(eq(worldMessagesTable.id, id), this.exchangesOf(owner, worldId)));
+      if (!exchange) return false;
+
+      await tx
+        .update(worldMessagesTable)
+        .set({ parentId: exchange.parentId })
+        .where(eq(worldMessagesTable.parentId, id));
+      await tx.delete(worldMessagesTable).where(eq(worldMessagesTable.id, id));
+      return true;
+    });
+  }
+
+  async appendToReply(owner: string, worldId: string, id: string, text: string): Promise<boolean> {
+    const updated = await this.db
+      .update(worldMessagesTable)
+      .set({ aiReply: sql`${worldMessagesTable.aiReply} || ${text}` })
+      .where(and(eq(worldMessagesTable.id, id), this.exchangesOf(owner, worldId)))
+      .returning({ id: worldMessagesTable.id });
+    return updated.length > 0;
+  }
+
+  async searchExchanges(owner: string, { terms, worldId, role, from, to, take, continuationToken }: ExchangeSearch): Promise<SearchPage> {
+    if (terms.length === 0) return { items: [], continuationToken: null };
+    // Every term in the column, case-insensitively; LIKE wildcards in a term are literal
+    const containsAll = (column: Column) =>
+      and(...terms.map((term) => ilike(column, `%${term.replace(/[\\%_]/g, "\\$&")}%`)))!;
+
+    const rows = await this.db
+      .select()
+      .from(worldMessagesTable)
+      .where(
+        and(
+          worldId === undefined ? eq(worldMessagesTable.ownerEmail, owner) : this.exchangesOf(owner, worldId),
+          from && gte(worldMessagesTable.createdAt, from),
+          to && lte(worldMessagesTable.createdAt, to),
+          this.olderThan(continuationToken),
+          role === "user"
+            ? containsAll(worldMessagesTable.input)
+            : role === "assistant"
+              ? containsAll(worldMessagesTable.aiReply)
+              : or(containsAll(worldMessagesTable.input), containsAll(worldMessagesTable.aiReply)),
+        ),
+      )
+      .orderBy(desc(worldMessagesTable.createdAt), desc(worldMessagesTable.id))
+      .limit(take + 1);
+
+    const items = rows.slice(0, take).map(toExchange);
+    const hasMore = rows.length > take;
+    return { items, continuationToken: hasMore ? encodeCursor(items[items.length - 1]) : null };
+  }
+
+  // ---------- Summaries ----------
+
+  async getSummaries(owner: string, worldId: string): Promise<StoredSummary[]> {
+    const rows = await this.db
+      .select()
+      .from(worldSummariesTable)
+      .where(and(eq(worldSummariesTable.ownerEmail, owner), eq(worldSummariesTable.worldId, worldId)))
+      .orderBy(asc(worldSummariesTable.createdAt), asc(worldSummariesTable.id));
+    return rows.map(toSummary);
+  }
+
+  async createSummary(
+    owner: string,
+    worldId: string,
+    summarize: Summarizer,
+    { source, minExchanges = 1 }: SummaryOptions = { source: "manual" },
+  ): Promise<boolean> {
+    if (!(await this.getWorld(owner, worldId))) return false;
+
+    const last = (await this.getSummaries(owner, worldId)).at(-1);
+    const { items } = await this.getBranch(owner, worldId, { take: Number.MAX_SAFE_INTEGER });
+    const pending = pendingForSummary(items, last);
+    if (pending.length === 0 || pending.length < minExchanges) return false;
+
+    const summary = await summarize(pending, last?.summary ?? null);
+    await this.db.insert(worldSummariesTable).values({
+      ownerEmail: owner,
+      worldId,
+      fromUtc: pending[0].createdAt,
+      toUtc: pending[pending.length - 1].createdAt,
+      summary,
+      source,
+    });
+    return true;
+  }
+
+  async reviseSummary(owner: string, worldId: string, id: string, text: string): Promise<StoredSummary | undefined> {
+    const [original] = await this.db
+      .select()
+      .from(worldSummariesTable)
+      .where(and(
+        eq(worldSummariesTable.id, id),
+        eq(worldSummariesTable.worldId, worldId),
+        eq(worldSummariesTable.ownerEmail, owner),
+      ));
+    if (!original) return undefined;
+
+    const [row] = await this.db
+      .insert(worldSummariesTable)
+      .values({
+        ownerEmail: owner,
+        worldId,
+        fromUtc: original.fromUtc,
+        toUtc: original.toUtc,
+        summary: text,
+        source: "edited",
+      })
+      .returning();
+    return toSummary(row);
+  }
+
+  async addSummary(owner: string, worldId: string, summary: Omit<StoredSummary, "id">): Promise<StoredSummary | undefined> {
+    if (!(await this.getWorld(owner, worldId))) return undefined;
+    const date = (utc: string | null) => (utc ? new Date(utc) : null);
+    const [row] = await this.db
+      .insert(worldSummariesTable)
+      .values({
+        ownerEmail: owner,
+        worldId,
+        fromUtc: date(summary.fromUtc),
+        toUtc: date(summary.toUtc),
+        summary: summary.summary ?? "",
+        source: summary.source,
+        createdAt: date(summary.createdUtc) ?? new Date(),
+      })
+      .returning();
+    return toSummary(row);
+  }
+
+  // ---------- Memories ----------
+
+  private ownMemory(owner: string, worldId: string, id: string): SQL {
+    return and(
+      eq(worldMemoriesTable.id, id),
+      eq(worldMemoriesTable.worldId, worldId),
+      eq(worldMemoriesTable.ownerEmail, owner),
+    )!;
+  }
+
+  async getMemories(owner: string, worldId: string, threadId: string | null): Promise<StoredMemory[]> {
+    const rows = await this.db
+      .select()
+      .from(worldMemoriesTable)
+      .where(and(
+        eq(worldMemoriesTable.ownerEmail, owner),
+        eq(worldMemoriesTable.worldId, worldId),
+        threadId ? eq(worldMemoriesTable.threadId, threadId) : isNull(worldMemoriesTable.threadId),
+      ))
+      .orderBy(asc(worldMemoriesTable.createdAt), asc(worldMemoriesTable.id));
+    return rows.map(toMemory);
+  }
+
+  async createMemory(owner: string, memory: NewMemory): Promise<StoredMemory | undefined> {
+    if (!(await this.getWorld(owner, memory.worldId))) return undefined;
+    if (memory.threadId && !(await this.getThread(owner, memory.worldId, memory.threadId))) return undefined;
+    const [row] = await this.db
+      .insert(worldMemoriesTable)
+      .values({ ...memory, ownerEmail: owner })
+      .returning();
+    return toMemory(row);
+  }
+
+  async updateMemory(owner: string, worldId: string, id: string, changes: MemoryChanges): Promise<StoredMemory | undefined> {
+    const [row] = await this.db
+      .update(worldMemoriesTable)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(this.ownMemory(owner, worldId, id))
+      .returning();
+    return row && toMemory(row);
+  }
+
+  async deleteMemory(owner: string, worldId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(worldMemoriesTable)
+      .where(this.ownMemory(owner, worldId, id))
+      .returning({ id: worldMemoriesTable.id });
+    return deleted.length > 0;
+  }
+}
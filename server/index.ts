@@ -3,7 +3,11 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Chat requests carry the world's context fields, character sheets and
+// history, which outgrow the 100kb default. Imported worlds may bring their
+// whole chat history.
+app.use("/api/worlds/import", express.json({ limit: "50mb" }));
+app.use(express.json({ limit: "2mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,59 @@
+import type { ModelInfo } from "@shared/schema";
+import { azure, type AzureFunctionClient, type ChatResponse, type ChatStreamEvent } from "../azure";
+import type { ChatWorldSettings, LlmProvider, ProviderChatRequest } from "./types";
+
+// The Azure Function doesn't report its models, so the catalog is the list
+// of deployments it is known to route to.
+const AZURE_MODELS: ModelInfo[] = [
+  { id: "gpt-5-nano", label: "GPT-5 Nano", description: "$0.05/$0.40 per 1M tokens" },
+  { id: "gpt-4o-mini", label: "GPT-4o Mini", description: "$0.15/$0.60 per 1M tokens" },
+  { id: "gpt-5-mini", label: "GPT-5 Mini", description: "$0.25/$2.00 per 1M tokens" },
+  { id: "gpt-5", label: "GPT-5", description: "$1.25/$10.00 per 1M tokens" },
+  { id: "gpt-4o", label: "GPT-4o", description: "$2.50/$10.00 per 1M tokens" },
+  { id: "gpt-4.5", label: "GPT-4.5", description: "$75.00/$150.00 per 1M tokens" },
+  { id: "o1-pro", label: "o1-Pro", description: "$150.00/$600.00 per 1M tokens" },
+];
+
+// The Azure Function only knows its fixed world fields, so injected lore,
+// the story summary, recalled memories and the participants ride along in
+// `additionalSettings`
+function azureWorld({ lore, summary, memories, participants, ...world }: ChatWorldSettings) {
+  if (!lore && !summary && !memories && !participants) return world;
+  const additionalSettings = [
+    world.additionalSettings,
+    lore && `Lore:\n${lore}`,
+    summary && `Story so far:\n${summary}`,
+    memories && `Relevant memories:\n${memories}`,
+    participants && `Participants:\n${participants}`,
+  ].filter(Boolean).join("\n\n");
+  return { ...world, additionalSettings };
+}
+
+export class AzureProvider implements LlmProvider {
+  readonly id = "azure" as const;
+  readonly label = "Azure";
+  readonly persistsHistory = true;
+
+  constructor(private client: AzureFunctionClient = azure) {}
+
+  async listModels(): Promise<ModelInfo[]> {
+    return AZURE_MODELS;
+  }
+
+  chat(request: ProviderChatRequest): Promise<ChatResponse> {
+    const { email, text, history, model, world } = request;
+    if (!world) {
+      // Global chat: Azure applies the user's saved settings itself
+      return this.client.chat({ email, text, history });
+    }
+    return this.client.addWorldChat({ ...azureWorld(world), model: model ?? world.model, email, text, history });
+  }
+
+  streamChat(request: ProviderChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const { email, text, history, model, world } = request;
+    if (!world) {
+      return this.client.streamChat({ email, text, history }, signal);
+    }
+    return this.client.streamWorldChat({ ...azureWorld(world), model: model ?? world.model, email, text, history }, signal);
+  }
+}
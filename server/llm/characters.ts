@@ -0,0 +1,27 @@
+import type { Character } from "@shared/schema";
+
+// Character sheets as they go into the model's context. Every provider gets
+// the same text: the Azure Function in its `characters` field, the others in
+// the system prompt (prompt.ts). Avatars are for the UI only.
+
+const SHEET_FIELDS: [keyof Omit<Character, "id" | "name" | "avatarUrl">, string][] = [
+  ["role", "Role"],
+  ["appearance", "Appearance"],
+  ["personality", "Personality"],
+  ["speechStyle", "Speech style"],
+  ["relationships", "Relationships"],
+  ["secrets", "Secrets (hidden from the other characters until the story reveals them)"],
+];
+
+export function formatCharacters(characters: Character[]): string {
+  return characters
+    .map((character) => {
+      const lines = [`## ${character.name}`];
+      for (const [field, label] of SHEET_FIELDS) {
+        const value = character[field].trim();
+        if (value) lines.push(`${label}: ${value}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
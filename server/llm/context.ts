@@ -0,0 +1,160 @@
+import type { ContextBudget, LoreEntry } from "@shared/schema";
+import type { StoredMemory } from "../storage";
+import { formatLore, LORE_SCAN_DEPTH, LORE_TOKEN_BUDGET, selectLore } from "./lorebook";
+import { formatMemories } from "./memory";
+import { buildSystemPrompt } from "./prompt";
+import { estimateTokens, MESSAGE_OVERHEAD_TOKENS, modelProfile, truncateToTokens } from "./tokens";
+import { LlmProviderError, type ChatWorldSettings, type ProviderChatRequest } from "./types";
+
+// Fits a chat request into the model's context window. The reply gets its
+// reserve, the instructions and the new message always go in, and the rest
+// is shared out: world context fields, lorebook entries, the story summary
+// and recalled memories each get at most a fixed share, and the history
+// takes what is left, newest turns first.
+
+type HistoryMessage = ProviderChatRequest["history"][number];
+
+// World fields the budget may shorten, in the order the prompt lists them
+const CONTEXT_FIELDS = ["scenario", "characters", "places", "events", "additionalSettings"] as const;
+
+// Shares of the window left after the reply, instructions and message
+const WORLD_SHARE = 0.4;
+const LORE_SHARE = 0.15;
+const SUMMARY_SHARE = 0.15;
+const MEMORY_SHARE = 0.1;
+
+// Reply reserve when the world doesn't set maxTokens; never more than a
+// quarter of the window
+const DEFAULT_REPLY_TOKENS = 2000;
+
+export type ContextRequest = {
+  model?: string;
+  maxTokens?: number;
+  text: string;
+  history: HistoryMessage[];
+  world?: ChatWorldSettings; // characters already serialized, no lore yet
+  loreEntries?: LoreEntry[];
+  summary?: string;
+  memories?: StoredMemory[]; // best first
+};
+
+export type FittedContext = {
+  history: HistoryMessage[];
+  world?: ChatWorldSettings;
+  budget: ContextBudget;
+};
+
+// Split `budget` between fields so that small ones are kept whole and the
+// large ones share the rest evenly
+function shareOut(sizes: number[], budget: number): number[] {
+  const order = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size);
+  const shares = new Array<number>(sizes.length).fill(0);
+  let remaining = budget;
+  order.forEach(({ size, index }, position) => {
+    shares[index] = Math.min(size, Math.floor(remaining / (order.length - position)));
+    remaining -= shares[index];
+  });
+  return shares;
+}
+
+export function buildContext(request: ContextRequest): FittedContext {
+  const { model, text, world, loreEntries = [] } = request;
+  const count = (content: string) => estimateTokens(content, model);
+  const { contextWindow } = modelProfile(model);
+  const reserved = Math.min(request.maxTokens ?? DEFAULT_REPLY_TOKENS, Math.floor(contextWindow / 4));
+
+  // The client sends the history including the message being answered
+  let history = [...request.history];
+  const last = history[history.length - 1];
+  const repeatsMessage = last?.role === "user" && last.content === text;
+  if (repeatsMessage) history.pop();
+
+  const message = count(text) + MESSAGE_OVERHEAD_TOKENS;
+  const bareWorld = world && { ...world, ...Object.fromEntries(CONTEXT_FIELDS.map((field) => [field, undefined])) };
+  const system = count(buildSystemPrompt(bareWorld)) + MESSAGE_OVERHEAD_TOKENS;
+  const available = contextWindow - reserved - system - message;
+  if (available < 0) {
+    throw new LlmProviderError("The message is too long for this model's context window", 413);
+  }
+
+  // World context fields
+  let fitted = world && { ...world };
+  const truncated: string[] = [];
+  let worldTokens = 0;
+  if (fitted) {
+    const sizes = CONTEXT_FIELDS.map((field) => count(fitted![field] ?? ""));
+    const shares = shareOut(sizes, Math.floor(available * WORLD_SHARE));
+    CONTEXT_FIELDS.forEach((field, index) => {
+      if (sizes[index] > shares[index]) {
+        fitted![field] = truncateToTokens(fitted![field] ?? "", shares[index], model);
+        truncated.push(field);
+      }
+      worldTokens += count(fitted![field] ?? "");
+    });
+  }
+
+  // Lorebook entries triggered by the message and the turns before it
+  let loreTokens = 0;
+  if (fitted && loreEntries.length > 0) {
+    const scanned = [...history.slice(-LORE_SCAN_DEPTH).map((m) => m.content), text];
+    const budget = Math.min(LORE_TOKEN_BUDGET, Math.floor(available * LORE_SHARE));
+    const lore = formatLore(selectLore(loreEntries, scanned, budget, model));
+    fitted.lore = lore || undefined;
+    loreTokens = count(lore);
+  }
+
+  // The summary keeps its end, where the latest events are
+  let summaryTokens = 0;
+  if (fitted && request.summary) {
+    fitted.summary = truncateToTokens(request.summary, Math.floor(available * SUMMARY_SHARE), model, true);
+    summaryTokens = count(fitted.summary);
+  }
+
+  // Recalled memories, pinned and best matching first, each one that still fits
+  let memoryTokens = 0;
+  if (fitted && request.memories?.length) {
+    const budget = Math.floor(available * MEMORY_SHARE);
+    const kept: StoredMemory[] = [];
+    for (const memory of request.memories) {
+      if (count(formatMemories([...kept, memory])) <= budget) kept.push(memory);
+    }
+    const memories = formatMemories(kept);
+    fitted.memories = memories || undefined;
+    memoryTokens = count(memories);
+  }
+
+  // History, newest first, until the rest of the window is used up
+  let historyBudget = available - worldTokens - loreTokens - summaryTokens - memoryTokens;
+  let start = history.length;
+  while (start > 0) {
+    const cost = count(history[start - 1].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (cost > historyBudget) break;
+    historyBudget -= cost;
+    start--;
+  }
+  const droppedMessages = start;
+  history = history.slice(start);
+  const historyTokens = history.reduce((sum, m) => sum + count(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+  if (repeatsMessage) history.push(last);
+
+  return {
+    history,
+    world: fitted,
+    budget: {
+      model: model ?? null,
+      contextWindow,
+      reserved,
+      system,
+      world: worldTokens,
+      lore: loreTokens,
+      summary: summaryTokens,
+      memory: memoryTokens,
+      history: historyTokens,
+      message,
+      total: system + worldTokens + loreTokens + summaryTokens + memoryTokens + historyTokens + message,
+      historyMessages: history.length - (repeatsMessage ? 1 : 0),
+      droppedMessages,
+      truncated,
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { providerFetch } from "./http";
+import { LlmProviderError } from "./types";
+
+// Text embeddings for world memories. EMBEDDING_PROVIDER picks the backend:
+//   local   (default) feature hashing of words and word pairs; no model and
+//           no network, so it works offline, but only matches shared words
+//   openai  /embeddings of the OpenAI-compatible endpoint (OPENAI_BASE_URL,
+//           OPENAI_API_KEY), model OPENAI_EMBEDDING_MODEL
+//   ollama  /api/embed of OLLAMA_BASE_URL, model OLLAMA_EMBEDDING_MODEL
+// Vectors from different embedders can't be compared, so each stored vector
+// records the embedder id it came from.
+
+export interface Embedder {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASH_DIMENSIONS = 512;
+
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// FNV-1a, 32 bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+export class HashingEmbedder implements Embedder {
+  readonly id = `local:hash-${HASH_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(WORD) ?? [];
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+      for (const feature of features) {
+        const h = hash(feature);
+        // The top bit picks the sign so unrelated features cancel out
+        vector[h % HASH_DIMENSIONS] += h & 0x80000000 ? -1 : 1;
+      }
+      return normalize(vector.map((value) => Math.sign(value) * Math.log1p(Math.abs(value))));
+    });
+  }
+}
+
+export class OpenAIEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private config: { baseUrl: string; apiKey?: string; model: string }) {
+    this.id = `openai:${config.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await providerFetch("OpenAI embeddings", `${this.config.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+      body: { model: this.config.model, input: texts },
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+      timeoutMs: 30_000,
+    });
+    const data = await response.json();
+    const items = (data?.data ?? []) as { index: number; embedding: number[] }[];
+    return items.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+export class OllamaEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(private config: { baseUrl: string; model: string }) {
+    this.id = `ollama:${config.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await providerFetch("Ollama embeddings", `${this.config.baseUrl.replace(/\/+$/, "")}/api/embed`, {
+      body: { model: this.config.model, input: texts },
+      timeoutMs: 30_000,
+    });
+    const data = await response.json();
+    return (data?.embeddings ?? []) as number[][];
+  }
+}
+
+function createEmbedder(): Embedder {
+  const configured = process.env.EMBEDDING_PROVIDER || "local";
+  if (configured === "openai") {
+    const baseUrl = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+    const model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+    return new OpenAIEmbedder({ baseUrl, apiKey: process.env.OPENAI_API_KEY, model });
+  }
+  if (configured === "ollama" && process.env.OLLAMA_BASE_URL) {
+    const model = process.env.OLLAMA_EMBEDDING_MODEL || "nomic-embed-text";
+    return new OllamaEmbedder({ baseUrl: process.env.OLLAMA_BASE_URL, model });
+  }
+  if (configured !== "local") {
+    console.warn(`[MEMORY] EMBEDDING_PROVIDER "${configured}" is not configured, using local hashing`);
+  }
+  return new HashingEmbedder();
+}
+
+export const embedder = createEmbedder();
+
+export async function embedOne(text: string): Promise<number[]> {
+  const [vector] = await embedder.embed([text]);
+  if (!vector?.length) throw new LlmProviderError(`${embedder.id} returned no embedding`, 502);
+  return vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,66 @@
+import { LlmProviderError } from "./types";
+
+// Fetch wrapper shared by the directly-called providers: applies a timeout,
+// combines it with the caller's abort signal and turns network and HTTP
+// failures into LlmProviderError. Aborts by the caller are rethrown as-is.
+
+export const PROVIDER_TIMEOUT_MS = 120_000;
+
+export type ProviderRequestOptions = {
+  method?: "GET" | "POST";
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+};
+
+export async function providerFetch(
+  providerLabel: string,
+  url: string,
+  options: ProviderRequestOptions = {},
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? PROVIDER_TIMEOUT_MS;
+  const signals = [AbortSignal.timeout(timeoutMs)];
+  if (options.signal) signals.push(options.signal);
+
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method: options.method ?? (options.body === undefined ? "GET" : "POST"),
+      headers: {
+        ...(options.body !== undefined && { "Content-Type": "application/json" }),
+        ...options.headers,
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: AbortSignal.any(signals),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new LlmProviderError(`${providerLabel} timed out after ${timeoutMs}ms`, 504);
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw error;
+    }
+    throw new LlmProviderError(`Failed to connect to ${providerLabel}`, 502);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    // SECURITY: log the status only, error bodies may echo the prompt
+    console.error(`[LLM] ${providerLabel} responded with status: ${response.status}`);
+    const status = response.status === 400 || response.status === 404 ? response.status : 502;
+    throw new LlmProviderError(extractProviderError(text) || `${providerLabel} returned ${response.status}`, status);
+  }
+  return response;
+}
+
+function extractProviderError(text: string): string | undefined {
+  try {
+    const data = JSON.parse(text);
+    // OpenAI nests the message under `error`, Ollama uses a plain string
+    return data?.error?.message || (typeof data?.error === "string" ? data.error : undefined);
+  } catch {
+    return undefined;
+  }
+}
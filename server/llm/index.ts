@@ -0,0 +1,115 @@
+import type { ModelCatalogResponse, ProviderCatalog } from "@shared/schema";
+import { AzureProvider } from "./azureProvider";
+import { LocalProvider } from "./localProvider";
+import { OpenAICompatibleProvider } from "./openaiProvider";
+import { LlmProviderError, type LlmProvider, type ProviderId } from "./types";
+
+export * from "./types";
+
+// Provider registry. Which providers exist is decided per deployment through
+// env vars; which one answers a message is decided by the model id:
+//
+//   "openai:gpt-4o-mini"  -> OpenAI-compatible provider, model gpt-4o-mini
+//   "local:llama3.1"      -> local provider, model llama3.1
+//   "gpt-4o-mini"         -> LLM_PROVIDER (default azure), model as-is
+//
+// Model ids are stored on worlds and user settings as plain strings, so a
+// world picks its provider just by picking a model.
+
+const CATALOG_TTL_MS = 5 * 60_000;
+
+function createProviders(): Map<ProviderId, LlmProvider> {
+  const providers = new Map<ProviderId, LlmProvider>();
+  providers.set("azure", new AzureProvider());
+
+  const openaiBaseUrl = process.env.OPENAI_BASE_URL || (process.env.OPENAI_API_KEY ? "https://api.openai.com/v1" : "");
+  if (openaiBaseUrl) {
+    providers.set("openai", new OpenAICompatibleProvider({
+      baseUrl: openaiBaseUrl,
+      apiKey: process.env.OPENAI_API_KEY,
+      defaultModel: process.env.OPENAI_DEFAULT_MODEL,
+    }));
+  }
+
+  // The stub needs no configuration, but only show it when asked for
+  if (process.env.OLLAMA_BASE_URL || process.env.LLM_PROVIDER === "local") {
+    providers.set("local", new LocalProvider({
+      baseUrl: process.env.OLLAMA_BASE_URL,
+      defaultModel: process.env.OLLAMA_DEFAULT_MODEL,
+    }));
+  }
+
+  return providers;
+}
+
+const providers = createProviders();
+
+function defaultProviderId(): ProviderId {
+  const configured = process.env.LLM_PROVIDER as ProviderId | undefined;
+  if (configured && providers.has(configured)) return configured;
+  if (configured) {
+    console.warn(`[LLM] LLM_PROVIDER "${configured}" is not configured, falling back to azure`);
+  }
+  return "azure";
+}
+
+export const DEFAULT_PROVIDER = defaultProviderId();
+
+// True when more than one provider is configured, i.e. the model id actually
+// matters for routing
+export function hasMultipleProviders(): boolean {
+  return providers.size > 1;
+}
+
+export function getProvider(id: ProviderId): LlmProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new LlmProviderError(`LLM provider "${id}" is not configured on this server`, 400);
+  }
+  return provider;
+}
+
+// Split a stored model id into the provider that serves it and the model name
+// that provider expects
+export function resolveModel(modelId?: string | null): { provider: LlmProvider; model?: string } {
+  const match = modelId?.match(/^(azure|openai|local):(.+)$/);
+  if (match) {
+    return { provider: getProvider(match[1] as ProviderId), model: match[2] };
+  }
+  return { provider: getProvider(DEFAULT_PROVIDER), model: modelId || undefined };
+}
+
+function qualifyModelId(providerId: ProviderId, model: string) {
+  return providerId === DEFAULT_PROVIDER ? model : `${providerId}:${model}`;
+}
+
+let catalogCache: { expiresAt: number; catalog: ModelCatalogResponse } | undefined;
+
+// Ask every provider for its models. A provider that can't be reached is still
+// listed (with its error) so the UI can explain why it has no models.
+export async function getModelCatalog(): Promise<ModelCatalogResponse> {
+  if (catalogCache && catalogCache.expiresAt > Date.now()) return catalogCache.catalog;
+
+  const entries = await Promise.all(
+    Array.from(providers.values()).map(async (provider): Promise<ProviderCatalog> => {
+      try {
+        const models = await provider.listModels();
+        return {
+          id: provider.id,
+          label: provider.label,
+          models: models.map((model) => ({ ...model, id: qualifyModelId(provider.id, model.id) })),
+        };
+      } catch (error) {
+        console.error(`[LLM] Failed to list ${provider.id} models:`, (error as Error).message);
+        return { id: provider.id, label: provider.label, models: [], error: (error as Error).message };
+      }
+    }),
+  );
+
+  const catalog: ModelCatalogResponse = { ok: true, defaultProvider: DEFAULT_PROVIDER, providers: entries };
+  // Don't cache a catalog with failures, the provider may be starting up
+  if (entries.every((entry) => !entry.error)) {
+    catalogCache = { expiresAt: Date.now() + CATALOG_TTL_MS, catalog };
+  }
+  return catalog;
+}
@@ -0,0 +1,131 @@
+import type { ModelInfo } from "@shared/schema";
+import type { ChatResponse, ChatStreamEvent } from "../azure";
+import { mockAzure } from "../mockAzure";
+import { buildMessages } from "./prompt";
+import { providerFetch } from "./http";
+import { LlmProviderError, type LlmProvider, type ProviderChatRequest } from "./types";
+
+// Local models. With OLLAMA_BASE_URL set this talks to an Ollama server
+// (/api/tags, /api/chat); without it, it is a stub that answers instantly
+// with canned replies, handy for testing the UI and prompts offline.
+
+export const STUB_MODEL = "stub";
+const STUB_TOKEN_DELAY_MS = 20;
+
+export type LocalProviderConfig = {
+  baseUrl?: string;
+  defaultModel?: string;
+  fetch?: typeof fetch;
+};
+
+export class LocalProvider implements LlmProvider {
+  readonly id = "local" as const;
+  readonly persistsHistory = false;
+
+  constructor(private config: LocalProviderConfig = {}) {}
+
+  get label() {
+    return this.config.baseUrl ? "Local (Ollama)" : "Local stub";
+  }
+
+  private url(path: string) {
+    return `${this.config.baseUrl!.replace(/\/+$/, "")}${path}`;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    if (!this.config.baseUrl) {
+      return [{ id: STUB_MODEL, label: "Stub (canned replies)" }];
+    }
+    const response = await providerFetch(this.label, this.url("/api/tags"), {
+      timeoutMs: 10_000,
+      fetch: this.config.fetch,
+    });
+    const data = await response.json();
+    return ((data?.models ?? []) as { name: string; details?: { parameter_size?: string } }[]).map((model) => ({
+      id: model.name,
+      label: model.name,
+      description: model.details?.parameter_size,
+    }));
+  }
+
+  private body(request: ProviderChatRequest, stream: boolean) {
+    const model = request.model || this.config.defaultModel;
+    if (!model) {
+      throw new LlmProviderError("No model selected for the local provider", 400);
+    }
+    return {
+      model,
+      messages: buildMessages(request),
+      stream,
+      options: {
+        temperature: request.world?.temperature,
+        num_predict: request.world?.maxTokens,
+      },
+    };
+  }
+
+  async chat(request: ProviderChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    if (!this.config.baseUrl) {
+      return { ok: true, ai: { reply: this.stubReply(request) }, persisted: false };
+    }
+    const response = await providerFetch(this.label, this.url("/api/chat"), {
+      body: this.body(request, false),
+      signal,
+      fetch: this.config.fetch,
+    });
+    const data = await response.json();
+    return { ok: true, ai: { reply: data?.message?.content ?? "" }, persisted: false };
+  }
+
+  async *streamChat(request: ProviderChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    if (!this.config.baseUrl) {
+      yield* this.streamStub(request, signal);
+      return;
+    }
+
+    const response = await providerFetch(this.label, this.url("/api/chat"), {
+      body: this.body(request, true),
+      signal,
+      fetch: this.config.fetch,
+    });
+    if (!response.body) throw new LlmProviderError(`${this.label} returned an empty stream`, 502);
+
+    // Ollama streams newline-delimited JSON objects
+    let reply = "";
+    let buffer = "";
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const json = JSON.parse(line);
+        if (json.error) throw new LlmProviderError(String(json.error), 502);
+        const delta = json.message?.content;
+        if (typeof delta === "string" && delta) {
+          reply += delta;
+          yield { type: "token", text: delta };
+        }
+      }
+    }
+    yield { type: "done", data: { ok: true, ai: { reply }, persisted: false } };
+  }
+
+  private stubReply(request: ProviderChatRequest): string {
+    return mockAzure.reply(request.text);
+  }
+
+  private async *streamStub(request: ProviderChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const reply = this.stubReply(request);
+    for (const word of reply.match(/\S+\s*/g) ?? []) {
+      signal?.throwIfAborted();
+      await new Promise((resolve) => setTimeout(resolve, STUB_TOKEN_DELAY_MS));
+      yield { type: "token", text: word };
+    }
+    yield { type: "done", data: { ok: true, ai: { reply }, persisted: false } };
+  }
+}
@@ -0,0 +1,66 @@
+import RE2 from "re2";
+import { REGEX_KEYWORD, type LoreEntry } from "@shared/schema";
+import { estimateTokens, truncateToTokens } from "./tokens";
+
+// Lorebook injection: entries whose keywords appear in the latest messages
+// go into the prompt, highest priority first, until the budget is spent.
+// Every provider gets the same text: the Azure Function appended to its
+// `additionalSettings`, the others as a section of the system prompt.
+
+// How many history messages before the one being answered are scanned
+export const LORE_SCAN_DEPTH = 4;
+
+// Tokens all injected entries may take together
+export const LORE_TOKEN_BUDGET = 2000;
+
+// Plain keywords match whole words only, so "elf" doesn't fire on "shelf".
+// Regex keywords are written by any editor of a world and run on every chat
+// message, so they go through RE2, whose matching time is linear in the text
+// (a JavaScript RegExp like /(a|a)*b/ can block the server for seconds).
+function keywordPattern(keyword: string): RegExp {
+  const regex = keyword.match(REGEX_KEYWORD);
+  if (regex) return new RE2(regex[1], regex[2].replace(/[gy]/g, ""));
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, "iu");
+}
+
+function matches(entry: LoreEntry, text: string): boolean {
+  return entry.keywords.some((keyword) => {
+    try {
+      return keywordPattern(keyword).test(text);
+    } catch {
+      return false; // validated on save, but don't let one entry break the chat
+    }
+  });
+}
+
+// Entries triggered by `messages`, best first, each cut to its own token
+// budget and all of them fitting in `budget` (counted for `model`)
+export function selectLore(
+  entries: LoreEntry[],
+  messages: string[],
+  budget = LORE_TOKEN_BUDGET,
+  model?: string,
+): LoreEntry[] {
+  const text = messages.join("\n");
+  const selected: LoreEntry[] = [];
+  let remaining = budget;
+  const triggered = entries
+    .filter((entry) => entry.enabled && entry.content.trim() && matches(entry, text))
+    .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
+
+  for (const entry of triggered) {
+    const content = truncateToTokens(entry.content.trim(), Math.min(entry.tokenBudget, remaining), model);
+    const tokens = estimateTokens(content, model);
+    if (!content) break;
+    if (tokens > remaining) break;
+    selected.push({ ...entry, content });
+    remaining -= tokens;
+    if (remaining <= 0) break;
+  }
+  return selected;
+}
+
+export function formatLore(entries: LoreEntry[]): string {
+  return entries.map((entry) => `## ${entry.title}\n${entry.content}`).join("\n\n");
+}
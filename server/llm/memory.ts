@@ -0,0 +1,63 @@
+import type { StoredMemory } from "../storage";
+import { cosineSimilarity, type Embedder } from "./embeddings";
+
+// Long-term memory recall: the stored exchanges of a chat whose embeddings
+// are closest to the new message go into the prompt, so things said long
+// before the history window can still come up. Pinned memories always go in.
+
+// Unpinned memories recalled per message at most
+export const MEMORY_TOP_K = 5;
+
+// Below this similarity a memory isn't related enough to be worth its tokens
+export const MEMORY_MIN_SCORE = 0.2;
+
+// The text an exchange is remembered (and embedded) as
+export function exchangeText(input: string, aiReply: string): string {
+  return `User: ${input}\nAI: ${aiReply}`;
+}
+
+export type Recall = {
+  memories: StoredMemory[]; // pinned first, then best match first
+  // Memories embedded by another embedder than the current one, with their
+  // new embedding; the caller stores them so this happens once
+  reembedded: StoredMemory[];
+};
+
+// `skip` holds texts already in the prompt (the history being sent), which
+// aren't worth recalling
+export async function recall(
+  memories: StoredMemory[],
+  query: string,
+  embedder: Embedder,
+  skip: Set<string> = new Set(),
+): Promise<Recall> {
+  const candidates = memories.filter((memory) => !skip.has(memory.text));
+  if (candidates.length === 0) return { memories: [], reembedded: [] };
+
+  const stale = candidates.filter((memory) => memory.embeddingModel !== embedder.id);
+  const [queryVector, ...staleVectors] = await embedder.embed([query, ...stale.map((memory) => memory.text)]);
+  const reembedded = stale.map((memory, i) => ({ ...memory, embedding: staleVectors[i], embeddingModel: embedder.id }));
+  const current = new Map(reembedded.map((memory) => [memory.id, memory]));
+
+  const pinned = candidates.filter((memory) => memory.pinned);
+  const scored = candidates
+    .filter((memory) => !memory.pinned)
+    .map((memory) => {
+      const embedding = (current.get(memory.id) ?? memory).embedding;
+      return { memory, score: cosineSimilarity(queryVector, embedding) };
+    })
+    .filter(({ score }) => score >= MEMORY_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MEMORY_TOP_K)
+    .map(({ memory }) => memory);
+  return { memories: [...pinned, ...scored], reembedded };
+}
+
+// The prompt section of recalled memories, oldest first so they read as a
+// story
+export function formatMemories(memories: StoredMemory[]): string {
+  return [...memories]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((memory) => memory.text)
+    .join("\n\n");
+}
@@ -0,0 +1,91 @@
+import type { ModelInfo } from "@shared/schema";
+import { readServerSentEvents } from "@shared/sse";
+import type { ChatResponse, ChatStreamEvent } from "../azure";
+import { buildMessages } from "./prompt";
+import { providerFetch } from "./http";
+import { LlmProviderError, type LlmProvider, type ProviderChatRequest } from "./types";
+
+// Any endpoint speaking the OpenAI Chat Completions API (OpenAI itself,
+// Azure OpenAI deployments behind a gateway, vLLM, LM Studio, llama.cpp...).
+
+export type OpenAIProviderConfig = {
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel?: string;
+  fetch?: typeof fetch;
+};
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly id = "openai" as const;
+  readonly label = "OpenAI-compatible";
+  readonly persistsHistory = false;
+
+  constructor(private config: OpenAIProviderConfig) {}
+
+  private url(path: string) {
+    return `${this.config.baseUrl.replace(/\/+$/, "")}${path}`;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await providerFetch(this.label, this.url("/models"), {
+      headers: this.headers,
+      timeoutMs: 10_000,
+      fetch: this.config.fetch,
+    });
+    const data = await response.json();
+    return ((data?.data ?? []) as { id: string }[])
+      .map((model) => ({ id: model.id, label: model.id }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private body(request: ProviderChatRequest, stream: boolean) {
+    const model = request.model || this.config.defaultModel;
+    if (!model) {
+      throw new LlmProviderError("No model selected for the OpenAI-compatible provider", 400);
+    }
+    return {
+      model,
+      messages: buildMessages(request),
+      temperature: request.world?.temperature,
+      max_tokens: request.world?.maxTokens,
+      stream,
+    };
+  }
+
+  async chat(request: ProviderChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await providerFetch(this.label, this.url("/chat/completions"), {
+      body: this.body(request, false),
+      headers: this.headers,
+      signal,
+      fetch: this.config.fetch,
+    });
+    const data = await response.json();
+    const reply: string = data?.choices?.[0]?.message?.content ?? "";
+    return { ok: true, ai: { reply }, persisted: false };
+  }
+
+  async *streamChat(request: ProviderChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const response = await providerFetch(this.label, this.url("/chat/completions"), {
+      body: this.body(request, true),
+      headers: this.headers,
+      signal,
+      fetch: this.config.fetch,
+    });
+    if (!response.body) throw new LlmProviderError(`${this.label} returned an empty stream`, 502);
+
+    let reply = "";
+    for await (const { data } of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") break;
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) {
+        reply += delta;
+        yield { type: "token", text: delta };
+      }
+    }
+    yield { type: "done", data: { ok: true, ai: { reply }, persisted: false } };
+  }
+}
@@ -0,0 +1,47 @@
+import type { ProviderChatRequest } from "./types";
+
+// Several people can chat in a shared world. Once more than one of them has
+// spoken, their turns go to the model as "Name: message" and the prompt
+// lists who is taking part, so replies can tell them apart.
+
+type HistoryMessage = ProviderChatRequest["history"][number];
+
+export type SpokenMessage = HistoryMessage & { speaker?: string | null };
+
+export type AttributedChat = {
+  history: HistoryMessage[];
+  text: string;
+  participants?: string; // for the prompt; undefined while one person chats
+};
+
+function said(speaker: string | null | undefined, content: string): string {
+  return speaker ? `${speaker}: ${content}` : content;
+}
+
+// `speaker` says `text`; null when the text is an instruction rather than
+// something a person said (continue)
+export function attributeSpeakers(history: SpokenMessage[], text: string, speaker: string | null): AttributedChat {
+  // The client sends the history including the message being answered
+  const last = history[history.length - 1];
+  const turns = last?.role === "user" && last.content === text ? history.slice(0, -1) : history;
+
+  const speakers = new Set<string>();
+  turns.forEach((message) => {
+    if (message.role === "user" && message.speaker) speakers.add(message.speaker);
+  });
+  if (speaker) speakers.add(speaker);
+
+  if (speakers.size < 2) {
+    return { history: turns.map(({ role, content }) => ({ role, content })), text };
+  }
+  return {
+    history: turns.map(({ role, content, speaker: name }) => ({
+      role,
+      content: role === "user" ? said(name, content) : content,
+    })),
+    text: said(speaker, text),
+    participants:
+      `${Array.from(speakers).join(", ")}\n` +
+      "Each of their messages starts with the name of who wrote it. Keep track of who said what and answer them by name when it matters.",
+  };
+}
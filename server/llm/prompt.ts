@@ -0,0 +1,46 @@
+import type { ChatWorldSettings, ProviderChatRequest } from "./types";
+
+// Prompt assembly for providers we call directly. The Azure Function builds
+// its own prompt from the world settings; OpenAI-compatible and local models
+// get the equivalent system message from here.
+
+export type PromptMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export function buildSystemPrompt(world?: ChatWorldSettings): string {
+  const lines = ["You are a helpful AI assistant."];
+  if (!world) return lines.join("\n");
+
+  if (world.responseStyle) lines.push(`Response style: ${world.responseStyle}.`);
+  if (world.conversationStyle) lines.push(`Conversation style: ${world.conversationStyle}.`);
+  if (world.customPersonality) lines.push(`\nPersonality:\n${world.customPersonality}`);
+
+  const sections: [string, string | undefined][] = [
+    ["Scenario", world.scenario],
+    ["Characters", world.characters],
+    ["Participants", world.participants],
+    ["Places", world.places],
+    ["Events", world.events],
+    ["Lore", world.lore],
+    ["Story so far", world.summary],
+    ["Relevant memories", world.memories],
+    ["Additional settings", world.additionalSettings],
+  ];
+  for (const [title, content] of sections) {
+    if (content) lines.push(`\n${title}:\n${content}`);
+  }
+  return lines.join("\n");
+}
+
+export function buildMessages(request: ProviderChatRequest): PromptMessage[] {
+  const history = [...request.history];
+  // The client sends history including the message being answered; drop it so
+  // it isn't repeated
+  const last = history[history.length - 1];
+  if (last?.role === "user" && last.content === request.text) history.pop();
+
+  return [
+    { role: "system", content: buildSystemPrompt(request.world) },
+    ...history.filter((m) => m.role !== "system").map((m) => ({ role: m.role, content: m.content })),
+    { role: "user", content: request.text },
+  ];
+}
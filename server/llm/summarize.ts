@@ -0,0 +1,50 @@
+import type { World } from "@shared/schema";
+import type { Summarizer } from "../storage";
+import { resolveModel } from "./index";
+import { LlmProviderError } from "./types";
+
+// Summaries for the storage backends that don't write their own (Azure does
+// it inside the Function). The world's model writes the summary so it stays
+// in the same voice as the chat. Summaries roll: each one rewrites the
+// previous together with the new exchanges, so the newest tells the whole
+// story and is what /api/chat puts in the context.
+
+// Summarize automatically once this many exchanges have piled up since the
+// last summary; 0 turns it off
+export const AUTO_SUMMARY_TURNS = Math.max(0, Number(process.env.AUTO_SUMMARY_TURNS ?? 20) || 0);
+
+const SUMMARY_INSTRUCTIONS =
+  "Summarize the following roleplay conversation in a few paragraphs. Keep names, " +
+  "places, decisions and unresolved threads; drop small talk. Write in the past tense " +
+  "and reply with the summary only.";
+
+const ROLLING_INSTRUCTIONS =
+  "Below is the summary of a roleplay story so far, followed by what happened next. " +
+  "Rewrite the summary so it also covers the new part, in a few paragraphs and at most " +
+  "about 600 words. Keep names, places, decisions and unresolved threads; condense older " +
+  "events before dropping recent ones. Write in the past tense and reply with the summary only.";
+
+export function createSummarizer(email: string, world: World): Summarizer {
+  return async (exchanges, previous) => {
+    const { provider, model } = resolveModel(world.model);
+    const transcript = exchanges
+      .map((exchange) => `User: ${exchange.input}\nAI: ${exchange.aiReply}`)
+      .join("\n\n");
+
+    const text = previous
+      ? `${ROLLING_INSTRUCTIONS}\n\nSummary so far:\n${previous}\n\nWhat happened next:\n${transcript}`
+      : `${SUMMARY_INSTRUCTIONS}\n\n${transcript}`;
+
+    const data = await provider.chat({
+      email,
+      text,
+      history: [],
+      model,
+    });
+    const summary = data.ai?.reply ?? data.reply;
+    if (data.ok === false || !summary) {
+      throw new LlmProviderError(data.error || "The model did not return a summary", 502);
+    }
+    return summary.trim();
+  };
+}
@@ -0,0 +1,61 @@
+// Token arithmetic for prompt budgets. We don't ship tokenizers, so counts
+// are estimates from per-model profiles: how many characters of Latin-script
+// text make a token, and how large the context window is. CJK characters are
+// about one token each with every tokenizer we talk to.
+
+export type ModelProfile = {
+  contextWindow: number;
+  charsPerToken: number;
+};
+
+// Matched against the model name (without the provider prefix), first match
+// wins
+const MODEL_PROFILES: [RegExp, ModelProfile][] = [
+  [/^gpt-5/, { contextWindow: 400_000, charsPerToken: 4 }],
+  [/^gpt-4\.1/, { contextWindow: 1_000_000, charsPerToken: 4 }],
+  [/^(gpt-4o|gpt-4\.5|gpt-4-turbo)/, { contextWindow: 128_000, charsPerToken: 4 }],
+  [/^o\d/, { contextWindow: 200_000, charsPerToken: 4 }],
+  [/^gpt-4/, { contextWindow: 8_192, charsPerToken: 3.7 }],
+  [/^gpt-3\.5/, { contextWindow: 16_385, charsPerToken: 3.7 }],
+  [/^llama3\.[1-3]/, { contextWindow: 128_000, charsPerToken: 3.8 }],
+  [/^llama/, { contextWindow: 8_192, charsPerToken: 3.8 }],
+  [/^(mistral|mixtral|qwen)/, { contextWindow: 32_768, charsPerToken: 3.5 }],
+  [/^(gemma|phi)/, { contextWindow: 8_192, charsPerToken: 3.5 }],
+];
+
+// Unknown models: a small window and a pessimistic ratio, so prompts fit
+const DEFAULT_PROFILE: ModelProfile = { contextWindow: 8_192, charsPerToken: 3.5 };
+
+// Role markers and separators each chat message costs on top of its text
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const WIDE_CHARS = /[぀-ヿ㐀-鿿가-힯豈-﫿]/g;
+
+export function modelProfile(model?: string): ModelProfile {
+  const name = model?.toLowerCase() ?? "";
+  return MODEL_PROFILES.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_PROFILE;
+}
+
+export function estimateTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  const wide = text.match(WIDE_CHARS)?.length ?? 0;
+  return Math.ceil((text.length - wide) / modelProfile(model).charsPerToken) + wide;
+}
+
+// Cut `text` to at most `tokens` tokens, at a word boundary when there is one
+// near the cut. With `fromEnd` the end of the text is kept instead.
+export function truncateToTokens(text: string, tokens: number, model?: string, fromEnd = false): string {
+  const total = estimateTokens(text, model);
+  if (total <= tokens) return text;
+  // One token goes to the ellipsis. The estimate isn't linear in length (wide
+  // characters), so shrink until it fits; the first guess is usually right.
+  for (let length = Math.floor((text.length * (tokens - 1)) / total); length > 0; length = Math.floor(length * 0.9)) {
+    let cut = fromEnd ? text.slice(text.length - length) : text.slice(0, length);
+    const space = fromEnd ? cut.indexOf(" ") : cut.lastIndexOf(" ");
+    if (fromEnd ? space >= 0 && space < length * 0.2 : space > length * 0.8) {
+      cut = fromEnd ? cut.slice(space + 1) : cut.slice(0, space);
+    }
+    if (estimateTokens(cut, model) < tokens) return fromEnd ? `…${cut}` : `${cut}…`;
+  }
+  return "";
+}
@@ -0,0 +1,51 @@
+import type { ModelInfo } from "@shared/schema";
+import type { ChatResponse, ChatStreamEvent, WorldChatRequest } from "../azure";
+
+// Common shape for every LLM backend /api/chat can talk to. The Azure
+// Function is one provider among several; the others are called directly
+// from this server.
+
+export type ProviderId = "azure" | "openai" | "local";
+
+// World settings that travel with a chat message (everything in the world
+// chat request except who is talking and what they said), plus what the
+// server adds to fit the context window (see context.ts): the lorebook
+// entries picked for this message, a summary of the story so far and the
+// memories recalled for it, and who takes part when several people chat in
+// the world (see participants.ts)
+export type ChatWorldSettings = Omit<WorldChatRequest, "email" | "text" | "history"> & {
+  lore?: string;
+  summary?: string;
+  memories?: string;
+  participants?: string;
+};
+
+export type ProviderChatRequest = {
+  email: string;
+  text: string;
+  history: { role: "user" | "assistant" | "system"; content: string }[];
+  // Model name as the provider knows it, without the "provider:" prefix
+  model?: string;
+  world?: ChatWorldSettings;
+};
+
+export interface LlmProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  // Whether the provider stores the exchange in chat history itself. Only the
+  // Azure Function does; replies from the others are not persisted.
+  readonly persistsHistory: boolean;
+  listModels(): Promise<ModelInfo[]>;
+  chat(request: ProviderChatRequest, signal?: AbortSignal): Promise<ChatResponse>;
+  streamChat(request: ProviderChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
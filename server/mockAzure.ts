@@ -0,0 +1,405 @@
+import express from "express";
+import { randomUUID, randomInt } from "crypto";
+import { Readable } from "stream";
+import { pathToFileURL } from "url";
+
+// In-memory stand-in for the Azure Function backend so the app can run and be
+// tested without the live service. It speaks the same wire format as the
+// C# function: one POST endpoint, an `action` field selecting the operation
+// and parameters read from the query string or the JSON body.
+//
+// Use it in-process with AZURE_MOCK=true (see server/azure.ts), or run it as
+// its own server with `npm run mock:azure` and point AZURE_FUNCTION_URL and
+// AZURE_AUTH_URL at http://localhost:7071/api/echo.
+
+export const MOCK_AZURE_URL = "http://mock-azure.local/api/echo";
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_COOLDOWN_SECS = 60;
+const STREAM_TOKEN_DELAY_MS = 30;
+
+type MockUser = { email: string; password: string; name: string };
+type MockLogItem = { Input: string; Response: string; CreatedUtc: string };
+type MockWorldChat = { id: string; worldId: string; email: string; text: string; ai: string; createdUtc: string };
+type MockSummary = { worldId: string; fromUtc: string; toUtc: string; createdUtc: string; summary: string };
+
+export type MockAzureResult = { status: number; body: unknown };
+
+const CANNED_REPLIES = [
+  "That's an interesting thought. Tell me more about what you have in mind.",
+  "Here's how I would approach it: start small, check the result, then build on it.",
+  "Good question! The short answer is that it depends on the context, so let's look at the details.",
+  "I see where you're going with this. Let's take it one step at a time.",
+  "Sounds like a plan. What would you like to do next?",
+];
+
+const WORLD_FIELDS = [
+  "Name", "Description", "Model", "Temperature", "MaxTokens", "ResponseStyle", "ConversationStyle",
+  "CustomPersonality", "Characters", "Events", "Scenario", "Places", "AdditionalSettings",
+];
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function capitalize(key: string) {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+export class MockAzureBackend {
+  private users = new Map<string, MockUser>();
+  private codes = new Map<string, { code: string; expiresAt: number }>();
+  private logs = new Map<string, MockLogItem[]>();
+  private worlds = new Map<string, Record<string, any>>();
+  private worldChats: MockWorldChat[] = [];
+  private settings = new Map<string, Record<string, any>>();
+  private summaries: MockSummary[] = [];
+
+  // Generate a canned AI reply. Deterministic for a given input so tests can
+  // assert on it.
+  reply(text: string, worldName?: string): string {
+    let hash = 0;
+    for (const char of text) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    const canned = CANNED_REPLIES[hash % CANNED_REPLIES.length];
+    const prefix = worldName ? `[${worldName}] ` : "";
+    return `${prefix}${canned} (mock reply to: "${text.slice(0, 80)}")`;
+  }
+
+  handle(body: Record<string, any>, query: Record<string, any> = {}): MockAzureResult {
+    // Mirrors ReadParam() in the C# function: query string first, then body,
+    // with the first matching alias winning.
+    const param = (...names: string[]): string | undefined => {
+      for (const source of [query, body]) {
+        for (const name of names) {
+          const value = source?.[name];
+          if (value !== undefined && value !== null && value !== "") {
+            return typeof value === "string" ? value : JSON.stringify(value);
+          }
+        }
+      }
+      return undefined;
+    };
+
+    const action = (param("action") || "").toLowerCase();
+    const email = param("email", "Email");
+
+    switch (action) {
+      case "create account":
+      case "createaccount":
+        return this.createAccount(email, param("password"), param("name", "displayName"));
+      case "login":
+        return this.login(email, param("password"));
+      case "sendcode":
+        return this.sendCode(email);
+      case "verifycode":
+        return this.verifyCode(email, param("codeverify"));
+      case "history":
+      case "logs":
+        return this.history(email, Number(param("top")) || 50);
+      case "savesettings":
+      case "savesetting":
+        return this.saveSettings(email, body);
+      case "getsettings":
+      case "settings":
+        return this.getSettings(email);
+      case "createworld":
+        return this.createWorld(email, body);
+      case "getworlds":
+        return this.getWorlds(email);
+      case "editworld":
+      case "updateworld":
+      case "patchworld":
+        return this.editWorld(email, param("worldId", "worldid", "id"), body);
+      case "deleteworld":
+        return this.deleteWorld(email, param("rowkey", "rowKey", "id"));
+      case "addworldchat":
+        return this.addWorldChat(email, param("worldid", "worldId", "id"), param("text"));
+      case "getworldchats":
+        return this.getWorldChats(
+          email,
+          param("worldid", "worldId", "id"),
+          Number(param("take", "pageSize")) || 10,
+          param("continuationToken", "token"),
+        );
+      case "deleteworldmessage":
+        return this.deleteWorldMessage(email, param("worldid", "worldId", "id"), param("messageid", "messageId", "rowKey"));
+      case "createworldsummary":
+        return this.createWorldSummary(email, param("worldid", "worldId", "id"));
+      case "getworldsummaries":
+        return this.getWorldSummaries(email, param("worldid", "worldId", "id"));
+      case "":
+        return this.chat(email, param("text"));
+      default:
+        return { status: 400, body: { ok: false, error: `Unknown action '${action}'.` } };
+    }
+  }
+
+  // ---------- Auth ----------
+
+  private createAccount(email?: string, password?: string, name?: string): MockAzureResult {
+    if (!email || !password) return { status: 400, body: { ok: false, error: "email and password are required." } };
+    if (this.users.has(email)) return { status: 400, body: { ok: false, error: "User already exists." } };
+    this.users.set(email, { email, password, name: name || "" });
+    return { status: 201, body: { ok: true, message: "User created.", user: { email, name } } };
+  }
+
+  private login(email?: string, password?: string): MockAzureResult {
+    const user = email ? this.users.get(email) : undefined;
+    if (!user || user.password !== password) {
+      return { status: 401, body: { ok: false, error: "Invalid email or password." } };
+    }
+    return {
+      status: 200,
+      body: { ok: true, message: "Login OK.", user: { email, name: user.name }, name: user.name, token: randomUUID() },
+    };
+  }
+
+  private sendCode(email?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+    this.codes.set(email, { code, expiresAt: Date.now() + CODE_TTL_MS });
+    // There is no mailbox offline, so surface the code in the server log
+    console.log(`[MOCK-AZURE] Verification code for ${email}: ${code}`);
+    return { status: 200, body: { ok: true, message: "Code sent.", resendCooldownSecs: RESEND_COOLDOWN_SECS } };
+  }
+
+  private verifyCode(email?: string, code?: string): MockAzureResult {
+    const entry = email ? this.codes.get(email) : undefined;
+    if (!entry || entry.code !== code) return { status: 400, body: { ok: false, error: "Invalid code." } };
+    if (entry.expiresAt < Date.now()) return { status: 400, body: { ok: false, error: "Code expired." } };
+    this.codes.delete(email!);
+    return { status: 200, body: { ok: true, message: "Email verified.", token: randomUUID() } };
+  }
+
+  // ---------- Global chat ----------
+
+  private chat(email?: string, text?: string): MockAzureResult {
+    if (!text) return { status: 400, body: { ok: false, error: "text is required." } };
+    const reply = this.reply(text);
+    const key = email || "(anon)";
+    const log = this.logs.get(key) ?? [];
+    log.push({ Input: text, Response: reply, CreatedUtc: nowIso() });
+    this.logs.set(key, log);
+    return {
+      status: 200,
+      body: { ok: true, query: { email, text }, ai: { reply, error: null }, timestamp: nowIso() },
+    };
+  }
+
+  private history(email: string | undefined, top: number): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    const items = (this.logs.get(email) ?? []).slice(-Math.min(top, 500));
+    return { status: 200, body: { ok: true, email, count: items.length, items } };
+  }
+
+  // ---------- Settings ----------
+
+  private saveSettings(email: string | undefined, body: Record<string, any>): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    const keys = ["model", "temperature", "maxTokens", "responseStyle", "conversationStyle", "customPersonality"];
+    const settings = { ...this.settings.get(email) };
+    for (const key of keys) {
+      if (body[key] !== undefined) settings[key] = body[key];
+    }
+    this.settings.set(email, settings);
+    return { status: 200, body: { ok: true, message: "Settings saved.", settings } };
+  }
+
+  private getSettings(email?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    return { status: 200, body: { ok: true, settings: this.settings.get(email) ?? null } };
+  }
+
+  // ---------- Worlds ----------
+
+  private createWorld(email: string | undefined, body: Record<string, any>): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!body.name) return { status: 400, body: { ok: false, error: "name is required." } };
+    const id = randomUUID().replace(/-/g, "");
+    const row: Record<string, any> = { Id: id, Email: email, UserId: body.userId, CreatedUtc: nowIso() };
+    for (const field of WORLD_FIELDS) {
+      const camel = field.charAt(0).toLowerCase() + field.slice(1);
+      if (body[camel] !== undefined) row[field] = body[camel];
+    }
+    this.worlds.set(id, row);
+    return { status: 201, body: { ok: true, id, name: row.Name } };
+  }
+
+  private getWorlds(email?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    const items = Array.from(this.worlds.values()).filter((world) => world.Email === email);
+    return { status: 200, body: { ok: true, email, count: items.length, items } };
+  }
+
+  private editWorld(email: string | undefined, worldId: string | undefined, body: Record<string, any>): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    const world = worldId ? this.worlds.get(worldId) : undefined;
+    if (!world || world.Email !== email) return { status: 404, body: { ok: false, error: "world not found" } };
+    for (const [key, value] of Object.entries(body)) {
+      const field = capitalize(key);
+      if (WORLD_FIELDS.includes(field)) world[field] = value;
+    }
+    world.UpdatedUtc = nowIso();
+    return { status: 200, body: { ok: true, id: worldId, updatedUtc: world.UpdatedUtc } };
+  }
+
+  private deleteWorld(email: string | undefined, worldId: string | undefined): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "id (rowKey) is required." } };
+    const world = this.worlds.get(worldId);
+    if (!world || world.Email !== email) return { status: 404, body: { ok: false, error: "world not found" } };
+    this.worlds.delete(worldId);
+    this.worldChats = this.worldChats.filter((chat) => chat.worldId !== worldId);
+    this.summaries = this.summaries.filter((summary) => summary.worldId !== worldId);
+    return { status: 200, body: { ok: true, id: worldId, deleted: true } };
+  }
+
+  // ---------- World chats ----------
+
+  private addWorldChat(email?: string, worldId?: string, text?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "worldId (id) is required." } };
+    if (!text) return { status: 400, body: { ok: false, error: "text is required." } };
+    const reply = this.reply(text, this.worlds.get(worldId)?.Name);
+    this.worldChats.push({ id: randomUUID(), worldId, email, text, ai: reply, createdUtc: nowIso() });
+    return { status: 200, body: { ok: true, ai: { reply } } };
+  }
+
+  // Pages go backwards from the newest message; the continuation token is the
+  // number of messages already returned.
+  private getWorldChats(email?: string, worldId?: string, take = 10, token?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "worldId (id) is required." } };
+    const all = this.worldChats.filter((chat) => chat.worldId === worldId && chat.email === email);
+    const skip = Number(token) || 0;
+    const end = all.length - skip;
+    const start = Math.max(0, end - take);
+    const items = all.slice(start, Math.max(end, 0));
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        count: items.length,
+        items,
+        continuationToken: start > 0 ? String(skip + items.length) : null,
+      },
+    };
+  }
+
+  private deleteWorldMessage(email?: string, worldId?: string, messageId?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "worldId (id) is required." } };
+    if (!messageId) return { status: 400, body: { ok: false, error: "messageId is required." } };
+    const before = this.worldChats.length;
+    this.worldChats = this.worldChats.filter((chat) => !(chat.id === messageId && chat.worldId === worldId));
+    if (this.worldChats.length === before) {
+      return { status: 404, body: { ok: false, error: "message not found" } };
+    }
+    return { status: 200, body: { ok: true, deleted: true, id: messageId } };
+  }
+
+  // ---------- Summaries ----------
+
+  private createWorldSummary(email?: string, worldId?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "worldId (id) is required." } };
+    const last = this.summaries.filter((s) => s.worldId === worldId).at(-1);
+    const rows = this.worldChats.filter(
+      (chat) => chat.worldId === worldId && (!last || chat.createdUtc > last.toUtc),
+    );
+    if (rows.length === 0) {
+      return { status: 200, body: { ok: true, note: "No new messages since last summary." } };
+    }
+    const slice: MockSummary = {
+      worldId,
+      fromUtc: rows[0].createdUtc,
+      toUtc: rows[rows.length - 1].createdUtc,
+      createdUtc: nowIso(),
+      summary: `Summary of ${rows.length} exchange(s): ${rows.map((row) => row.text).join("; ").slice(0, 500)}`,
+    };
+    this.summaries.push(slice);
+    return { status: 200, body: { ok: true, summary: slice.summary, fromUtc: slice.fromUtc, toUtc: slice.toUtc } };
+  }
+
+  private getWorldSummaries(email?: string, worldId?: string): MockAzureResult {
+    if (!email) return { status: 400, body: { ok: false, error: "email is required." } };
+    if (!worldId) return { status: 400, body: { ok: false, error: "worldId (id) is required." } };
+    const slices = this.summaries
+      .filter((s) => s.worldId === worldId)
+      .map(({ fromUtc, toUtc, createdUtc, summary }) => ({ fromUtc, toUtc, createdUtc, summary }));
+    return { status: 200, body: { ok: true, worldId, email, count: slices.length, slices } };
+  }
+}
+
+export const mockAzure = new MockAzureBackend();
+
+// Replay a finished reply as an SSE stream, one word per event, the way a
+// streaming model would deliver it.
+function streamReply(result: unknown, signal?: AbortSignal | null): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const reply: string = (result as any)?.ai?.reply ?? "";
+  const words = reply.match(/\S+\s*/g) ?? [];
+
+  return new ReadableStream({
+    async start(controller) {
+      for (const word of words) {
+        if (signal?.aborted) break;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ delta: word })}\n\n`));
+        await new Promise((resolve) => setTimeout(resolve, STREAM_TOKEN_DELAY_MS));
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(result)}\n\n`));
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+}
+
+function wantsStream(body: Record<string, any>, status: number) {
+  return String(body.stream) === "true" && status === 200;
+}
+
+// fetch-compatible entry point so AzureFunctionClient can talk to the mock
+// without opening a socket.
+export const mockAzureFetch: typeof fetch = async (input, init) => {
+  const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+  const raw = typeof init?.body === "string" ? init.body : "";
+  let body: Record<string, any> = {};
+  try {
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    return new Response(JSON.stringify({ ok: false, error: "Invalid JSON body." }), { status: 400 });
+  }
+  const { status, body: result } = mockAzure.handle(body, Object.fromEntries(url.searchParams));
+  if (wantsStream(body, status)) {
+    return new Response(streamReply(result, init?.signal), {
+      status,
+      headers: { "Content-Type": "text/event-stream" },
+    });
+  }
+  return new Response(JSON.stringify(result), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export function createMockAzureApp(backend: MockAzureBackend = mockAzure) {
+  const app = express();
+  app.use(express.json({ limit: "1mb" }));
+  app.post("/api/echo", (req, res) => {
+    const { status, body } = backend.handle(req.body ?? {}, req.query as Record<string, any>);
+    if (wantsStream(req.body ?? {}, status)) {
+      res.status(status).setHeader("Content-Type", "text/event-stream");
+      Readable.fromWeb(streamReply(body) as any).pipe(res);
+      return;
+    }
+    res.status(status).json(body);
+  });
+  return app;
+}
+
+// Standalone mode: `npm run mock:azure`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_AZURE_PORT) || 7071;
+  createMockAzureApp().listen(port, () => {
+    console.log(`[MOCK-AZURE] listening on http://localhost:${port}/api/echo`);
+  });
+}
@@ -1,8 +1,478 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertChatThreadSchema,
+  insertLoreEntrySchema,
+  insertWorldSchema,
+  insertWorldShareSchema,
+  insertWorldTemplateSchema,
+  memoryUpdateSchema,
+  templateWorldSchema,
+  userSettingsSchema,
+  worldBundleSchema,
+  type World,
+} from "@shared/schema";
+import { chatExportQuerySchema } from "@shared/chatExport";
+import { searchRequestSchema } from "@shared/search";
+import { formatServerSentEvent } from "@shared/sse";
+import type { RoomExchange } from "@shared/worldRoom";
+import { azure, AzureFunctionError, type ChatResponse, type ChatStreamEvent } from "./azure";
+import { getSessionUser, publicUser, requireAuth, setupSession, signIn, signOut } from "./auth";
+import { getModelCatalog, hasMultipleProviders, LlmProviderError, resolveModel, type LlmProvider } from "./llm";
+import { formatCharacters } from "./llm/characters";
+import { buildContext } from "./llm/context";
+import { embedder, embedOne } from "./llm/embeddings";
+import { exchangeText, recall } from "./llm/memory";
+import { attributeSpeakers } from "./llm/participants";
+import type { ChatWorldSettings } from "./llm/types";
+import { AUTO_SUMMARY_TURNS, createSummarizer } from "./llm/summarize";
+import { storage, type BranchPage, type ChatExchange, type StoredMemory } from "./storage";
+import { exportWorld, forkWorld, importWorld } from "./worldBundle";
+import { shareEmail, worldAccess, WorldAccessError } from "./worldAccess";
+import { loadChatExport, renderChatExport } from "./chatExport";
+import { searchChats } from "./chatSearch";
+import { userSync } from "./userSync";
+import { driftedFields, updateWorldWithRevision, valuesBefore } from "./worldRevisions";
+import { roomMemberId, worldRooms } from "./worldRooms";
+
+// The global chat has no paging in the UI; show the most recent exchanges
+const GLOBAL_HISTORY_LIMIT = 200;
+
+// Partial updates: only the fields sent are validated and written
+const settingsUpdateSchema = userSettingsSchema.omit({ email: true }).partial();
+const worldUpdateSchema = insertWorldSchema.partial();
+const threadUpdateSchema = insertChatThreadSchema.partial();
+const loreEntryUpdateSchema = insertLoreEntrySchema.partial();
+// Naming a template saved from a world
+const templateFromWorldSchema = insertWorldTemplateSchema.pick({ name: true, description: true }).partial();
+
+// Thread of a world chat; null or omitted for the world's own chat
+const threadIdSchema = z.string().min(1).nullable().optional();
+
+// The world a chat message is for. Its settings are read from storage, not
+// taken from the client.
+const worldChatSettingsSchema = z.object({ worldId: z.string().min(1) });
+
+// A summary as the user edits it
+const summaryEditSchema = z.object({ summary: z.string().trim().min(1).max(20000) });
+
+// What a world export includes besides the world and its lorebook
+const queryFlag = z.enum(["true", "false"]).default("false").transform((value) => value === "true");
+const exportQuerySchema = z.object({ history: queryFlag, summaries: queryFlag });
+
+// Duplicating a world; the name defaults to "<original> copy"
+const forkRequestSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  userId: z.string().optional(),
+  history: z.boolean().default(false),
+  throughId: z.string().min(1).nullable().optional(),
+  threadId: threadIdSchema,
+});
+
+// Chat history as the client sends it, oldest first. World chats say who
+// sent each user message.
+const historySchema = z.array(z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  content: z.string(),
+  speaker: z.string().max(200).nullish(),
+}));
+
+// Exchange a new one follows in a world chat's tree; null starts a new root
+const parentIdSchema = z.string().min(1).nullable().optional();
+
+// Message actions act on stored exchanges, so they only exist in world chats.
+// `replaceIds` are the replaced exchange and every later one of the branch on
+// screen, top first.
+const resendRequestSchema = z.object({
+  message: z.string().min(1),
+  replaceIds: z.array(z.string().min(1)).min(1).max(100),
+  worldSettings: worldChatSettingsSchema,
+});
+
+const continueRequestSchema = z.object({
+  messageId: z.string().min(1),
+  worldSettings: worldChatSettingsSchema,
+});
+
+// Sent as the user's turn by the continue action
+const CONTINUE_PROMPT =
+  "Continue your previous reply exactly where it stopped, even mid-sentence. Don't repeat anything you already wrote.";
+
+// Turn a failed Azure call into an HTTP response. AzureFunctionError already
+// carries the status we want to expose; validation errors are the caller's
+// fault; world access errors say why; anything else is reported with the
+// route's generic message.
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ ok: false, error: fromZodError(error).message });
+  }
+  if (error instanceof AzureFunctionError || error instanceof LlmProviderError || error instanceof WorldAccessError) {
+    return res.status(error.status).json({ ok: false, error: error.message });
+  }
+  return res.status(500).json({ ok: false, error: fallback });
+}
+
+// A name as a download's file name: ASCII letters and digits, words joined
+// by dashes
+function fileSlug(name: string, fallback: string): string {
+  return name.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || fallback;
+}
+
+// Relay a streamed AI reply to the browser as SSE: `token` events carry text
+// as it arrives, `done` carries the final payload, `error` reports a failure
+// after streaming started. The first event is awaited before any headers are
+// sent so that upstream errors still map to a proper HTTP status.
+async function relayChatStream(
+  res: Response,
+  stream: AsyncGenerator<ChatStreamEvent>,
+  abort: AbortController,
+  finalize: (data: ChatResponse) => Promise<ChatResponse>,
+) {
+  const first = await stream.next();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const write = async (event: ChatStreamEvent) => {
+    if (event.type === "token") {
+      res.write(formatServerSentEvent("token", { text: event.text }));
+    } else {
+      res.write(formatServerSentEvent("done", await finalize(event.data)));
+    }
+  };
+
+  try {
+    if (!first.done) await write(first.value);
+    for await (const event of stream) {
+      await write(event);
+    }
+  } catch (error) {
+    if (!abort.signal.aborted) {
+      console.error("[CHAT] Stream failed:", error);
+      const message = error instanceof AzureFunctionError || error instanceof LlmProviderError
+        ? error.message
+        : "Failed to process message";
+      res.write(formatServerSentEvent("error", { ok: false, error: message }));
+    }
+  } finally {
+    res.end();
+  }
+}
+
+// `owner` is the email the chat is stored under: the world's owner, or the
+// signed-in user for the global chat. `speaker` is the name of who sent the
+// message in a world chat.
+type ReplyContext = {
+  owner: string;
+  provider: LlmProvider;
+  worldId: string | null;
+  threadId: string | null;
+  speaker: string | null;
+};
+
+// Runs on the final reply before it is sent, to store it
+type ReplyFinisher = (data: ChatResponse, context: ReplyContext) => Promise<ChatResponse>;
+
+function replyText(data: ChatResponse) {
+  return data.ok === false ? undefined : (data.ai?.reply ?? data.reply) || undefined;
+}
+
+// A stored exchange as the world history route and the world's room send it
+function historyItem(exchange: ChatExchange): RoomExchange {
+  return {
+    id: exchange.id,
+    parentId: exchange.parentId,
+    speaker: exchange.speaker,
+    input: exchange.input,
+    aiReply: exchange.aiReply,
+    createdUtc: exchange.createdAt.toISOString(),
+  };
+}
+
+// Store a finished exchange in chat history. Backends that keep their own
+// history (Azure) decline; then the reply is persisted only if the provider
+// wrote it. A storage failure doesn't lose the reply, it just isn't persisted.
+// A stored exchange is returned as `exchange` (its id also as `exchangeId`),
+// and a world's exchange goes to everyone in its room.
+async function recordReply(
+  context: ReplyContext,
+  exchange: { input: string; parentId?: string | null },
+  data: ChatResponse,
+): Promise<ChatResponse> {
+  const aiReply = replyText(data);
+  if (!aiReply) return data;
+
+  try {
+    const recorded = await storage.recordExchange(context.owner, {
+      ...exchange,
+      worldId: context.worldId,
+      threadId: context.threadId,
+      speaker: context.speaker,
+      aiReply,
+    });
+    if (recorded) {
+      if (context.worldId && !context.threadId) summarizeInBackground(context.owner, context.worldId);
+      if (context.worldId) {
+        rememberInBackground(context.owner, recorded);
+        worldRooms.broadcast(context.worldId, { type: "exchange", threadId: context.threadId, exchange: historyItem(recorded) });
+      }
+      return { ...data, persisted: true, exchangeId: recorded.id, exchange: historyItem(recorded) };
+    }
+    return context.provider.persistsHistory ? data : { ...data, persisted: false };
+  } catch (error) {
+    console.error("[CHAT] Failed to record exchange:", error);
+    return { ...data, persisted: false };
+  }
+}
+
+// Exchanges read per page while looking for one on a branch
+const BRANCH_PAGE_SIZE = 100;
+
+// The branch of a world chat (its own or `threadId`'s) through `throughId`,
+// from the exchange `topId` down. Azure keeps one flat branch, read newest
+// page first until `topId` shows up. Returns undefined when `topId` isn't on
+// the branch.
+async function branchFrom(
+  owner: string,
+  worldId: string,
+  threadId: string | null,
+  throughId: string,
+  topId: string,
+): Promise<ChatExchange[] | undefined> {
+  let exchanges: ChatExchange[] = [];
+  let continuationToken: string | null = null;
+  do {
+    const page: BranchPage = await storage.getBranch(owner, worldId, { threadId, throughId, take: BRANCH_PAGE_SIZE, continuationToken });
+    exchanges = [...page.items, ...exchanges];
+    const index = exchanges.findIndex((exchange) => exchange.id === topId);
+    if (index >= 0) return exchanges.slice(index);
+    continuationToken = page.items.length > 0 ? page.continuationToken : null;
+  } while (continuationToken);
+  return undefined;
+}
+
+// Worlds whose summary is being written, so a burst of replies starts one run
+const summarizing = new Set<string>();
+
+// Fold the latest turns of a world's own chat into its summary once
+// AUTO_SUMMARY_TURNS of them have piled up. Runs after the reply is sent;
+// a failure is only logged.
+function summarizeInBackground(email: string, worldId: string) {
+  if (AUTO_SUMMARY_TURNS === 0 || summarizing.has(worldId)) return;
+  summarizing.add(worldId);
+  (async () => {
+    const world = await storage.getWorld(email, worldId);
+    if (!world) return;
+    const created = await storage.createSummary(email, worldId, createSummarizer(email, world), {
+      source: "auto",
+      minExchanges: AUTO_SUMMARY_TURNS,
+    });
+    if (created) console.log("[WORLD SUMMARIES] Automatic summary created");
+  })()
+    .catch((error) => console.error("[WORLD SUMMARIES] Automatic summary failed:", error))
+    .finally(() => summarizing.delete(worldId));
+}
+
+// The newest summary of a world's story, for the chat context. The chat goes
+// on without it when the summaries can't be read.
+async function latestSummary(email: string, worldId: string): Promise<string | undefined> {
+  try {
+    return (await storage.getSummaries(email, worldId)).at(-1)?.summary ?? undefined;
+  } catch (error) {
+    console.error("[WORLD SUMMARIES] Failed to load the summary for chat:", error);
+    return undefined;
+  }
+}
+
+// Store an exchange of a world chat as a memory, with its embedding. Runs
+// after the reply is sent; a failure is only logged.
+function rememberInBackground(email: string, exchange: ChatExchange) {
+  const { worldId, threadId, id, input, aiReply } = exchange;
+  if (!worldId) return;
+  (async () => {
+    const text = exchangeText(input, aiReply);
+    const embedding = await embedOne(text);
+    await storage.createMemory(email, { worldId, threadId, exchangeId: id, text, embedding, embeddingModel: embedder.id });
+  })().catch((error) => console.error("[MEMORY] Failed to remember exchange:", error));
+}
+
+// Keep the memory of a continued reply in step with it, unless the user
+// has edited the memory since
+function extendMemoryInBackground(email: string, worldId: string, threadId: string | null, exchangeId: string, text: string) {
+  (async () => {
+    const memory = (await storage.getMemories(email, worldId, threadId)).find((other) => other.exchangeId === exchangeId);
+    if (!memory) return;
+    const extended = memory.text + text;
+    const embedding = await embedOne(extended);
+    await storage.updateMemory(email, worldId, memory.id, { text: extended, embedding, embeddingModel: embedder.id });
+  })().catch((error) => console.error("[MEMORY] Failed to extend memory:", error));
+}
+
+// Memories of the chat related to `text`, leaving out exchanges the history
+// already carries. The chat goes on without them when recall fails (e.g. the
+// embedding provider is down).
+async function recallMemories(
+  email: string,
+  worldId: string,
+  threadId: string | null,
+  text: string,
+  history: { role: string; content: string }[],
+): Promise<StoredMemory[]> {
+  try {
+    const memories = await storage.getMemories(email, worldId, threadId);
+    if (memories.length === 0) return [];
+    const skip = new Set<string>();
+    history.forEach((message, i) => {
+      const reply = history[i + 1];
+      if (message.role === "user" && reply?.role === "assistant") skip.add(exchangeText(message.content, reply.content));
+    });
+
+    const recalled = await recall(memories, text, embedder, skip);
+    for (const { id, embedding, embeddingModel } of recalled.reembedded) {
+      await storage.updateMemory(email, worldId, id, { embedding, embeddingModel });
+    }
+    if (recalled.memories.length > 0) console.log(`[MEMORY] Recalled ${recalled.memories.length} memories`);
+    return recalled.memories;
+  } catch (error) {
+    console.error("[MEMORY] Failed to recall memories for chat:", error);
+    return [];
+  }
+}
+
+// Memories as the API returns them, without the embedding
+function publicMemory({ embedding, embeddingModel, ...memory }: StoredMemory) {
+  return memory;
+}
+
+// World settings as the providers take them, from the stored world, so a
+// player of a shared world can't change its prompt or model. The character
+// sheets are serialized into prompt text here.
+function chatWorldSettings(world: World): ChatWorldSettings {
+  return {
+    worldId: world.id,
+    model: world.model,
+    temperature: world.temperature,
+    maxTokens: world.maxTokens,
+    responseStyle: world.responseStyle,
+    conversationStyle: world.conversationStyle,
+    customPersonality: world.customPersonality,
+    characters: formatCharacters(world.characters),
+    events: world.events,
+    scenario: world.scenario,
+    places: world.places,
+    additionalSettings: world.additionalSettings,
+  };
+}
+
+// Generate a reply to `text` for the chat routes. The model picks the
+// provider, the rest of the body (history, worldSettings.worldId, threadId, stream)
+// is read the same way by all of them. With `stream: true` the reply is
+// relayed as Server-Sent Events. In world chats the world's room sees that a
+// reply is being generated, and what was stored once it's done. `spoken` is
+// false when `text` is an instruction rather than something the user said.
+async function answerChat(req: Request, res: Response, text: string, finish: ReplyFinisher, spoken = true) {
+  // Stop generating upstream when the browser goes away (e.g. the stop button)
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) abort.abort();
+  });
+  let replying: { worldId: string; id: string; speaker: string; threadId: string | null } | undefined;
+
+  try {
+    const { email, name } = getSessionUser(req);
+    const { history, stream } = req.body;
+    const worldId = worldChatSettingsSchema.nullish().parse(req.body.worldSettings)?.worldId ?? null;
+    const threadId = threadIdSchema.parse(req.body.threadId) ?? null;
+    // Players of a shared world chat in the owner's chat
+    const access = worldId ? await worldAccess(req, worldId, "player") : undefined;
+    const owner = access?.owner ?? email;
+    if (threadId && !(worldId && (await storage.getThread(owner, worldId, threadId)))) {
+      return res.status(404).json({ ok: false, error: "Thread not found" });
+    }
+    // Several people may chat in a shared world, so its messages carry who sent them
+    const speaker = worldId ? name || email : null;
+
+    // The world's model for world chats, the user's saved model for the
+    // global chat. Only look the settings up when there is more than one
+    // provider to choose from.
+    let modelId: string | undefined = access?.world.model;
+    if (!access && hasMultipleProviders()) {
+      modelId = (await storage.getSettings(email))?.model;
+    }
+    const { provider, model } = resolveModel(modelId);
+
+    // Fit world context, lorebook entries, the story summary (the world's own
+    // chat only, threads tell other stories), memories of this chat and
+    // history into the model's window; the breakdown goes back with the reply
+    const chatHistory = historySchema.parse(history ?? []);
+    const attributed = attributeSpeakers(chatHistory, text, spoken ? speaker : null);
+    const chatWorld = access && chatWorldSettings(access.world);
+    const { history: fittedHistory, world, budget } = buildContext({
+      model,
+      maxTokens: access?.world.maxTokens,
+      text: attributed.text,
+      history: attributed.history,
+      world: chatWorld && { ...chatWorld, participants: attributed.participants },
+      loreEntries: worldId ? await storage.getLoreEntries(owner, worldId) : [],
+      summary: worldId && !threadId ? await latestSummary(owner, worldId) : undefined,
+      memories: worldId ? await recallMemories(owner, worldId, threadId, text, chatHistory) : [],
+    });
+    console.log(`[CONTEXT] ${budget.total}/${budget.contextWindow} tokens, ${budget.historyMessages} history messages (${budget.droppedMessages} left out)`);
+
+    const request = { email, text: attributed.text, history: fittedHistory, model, world };
+    const context: ReplyContext = { owner, provider, worldId, threadId, speaker };
+    const done = async (data: ChatResponse) => {
+      const result = await finish(data, context);
+      // New exchanges reach the room from recordReply; anything else that was
+      // stored (a continued reply, a chat Azure keeps) makes it reload. The
+      // user's other tabs reload the global chat.
+      if (replyText(data) && result.persisted !== false) {
+        if (!worldId) userSync.publish(email, { type: "chat" });
+        else if (!result.exchangeId) worldRooms.broadcast(worldId, { type: "refresh", threadId });
+      }
+      return { ...result, contextBudget: budget };
+    };
+
+    if (worldId) {
+      replying = { worldId, id: roomMemberId(email), speaker: speaker!, threadId };
+      worldRooms.broadcast(worldId, { type: "replying", ...replying, replying: true });
+    }
+
+    if (stream) {
+      console.log(`[CHAT] Streaming reply from ${provider.label}`);
+      return await relayChatStream(res, provider.streamChat(request, abort.signal), abort, done);
+    }
+
+    // SECURITY: Email, message, history, and world settings sent in encrypted POST body (not logged for privacy)
+    console.log(`[CHAT] Calling ${provider.label}${access ? ' with world settings' : ''} (SECURE - data in encrypted POST body)`);
+    const data = await provider.chat(request, abort.signal);
+
+    // SECURITY: Only log success/failure, NOT message content or AI response
+    if (data.ok) {
+      console.log('[CHAT] Response received successfully');
+    } else {
+      console.error('[CHAT] Provider returned error response:', data.error || data.message || 'No error message provided');
+    }
+    res.json(await done(data));
+  } catch (error) {
+    if (abort.signal.aborted) return;
+    console.error("Error calling LLM provider:", error);
+    sendError(res, error, "Failed to process message");
+  } finally {
+    if (replying) worldRooms.broadcast(replying.worldId, { type: "replying", ...replying, replying: false });
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const sessionMiddleware = setupSession(app);
+
   // Authentication endpoints - proxy to Azure Function
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -12,160 +482,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ ok: false, error: "Email and password are required" });
       }
 
-      // SECURITY: Require dedicated auth URL (no fallback to avoid reusing chat endpoint)
-      const azureFunctionUrl = process.env.AZURE_AUTH_URL;
-      
-      if (!azureFunctionUrl) {
-        return res.status(500).json({ 
-          ok: false, 
-          error: "AZURE_AUTH_URL not configured. Please set a dedicated authentication endpoint in your environment secrets." 
-        });
-      }
-
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
-
-      // SECURE: Only include auth code in URL, NOT credentials
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
-
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
       console.log(`[LOGIN] Calling Azure Function (SECURE - credentials in encrypted POST body, not logged)`);
-      
-      // SECURE: Send credentials in encrypted POST body, not URL
-      const response = await fetch(fullUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { 'x-functions-key': azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: 'login',
-          email: email,
-          password: password
-        })
+      const data = await azure.login({ email, password });
+
+      // SECURITY: Only log success/failure, NOT the response content (may contain tokens/user data)
+      console.log(`[LOGIN] Authentication ${data.ok ? 'successful' : 'failed'}`);
+      if (!data.ok) {
+        return res.json(data);
+      }
+
+      // The Azure token stays in the session, the browser only gets the cookie
+      const { token, ...rest } = data;
+      const sessionEmail = data.user?.email || data.email || email;
+      await signIn(req, {
+        email: sessionEmail,
+        name: data.user?.name || data.name || sessionEmail.split('@')[0],
+        loginTime: new Date().toISOString(),
+        token,
       });
-
-      console.log(`[LOGIN] Azure Function responded with status: ${response.status}`);
-      
-      // Handle non-OK responses
-      if (!response.ok) {
-        return res.status(response.status).json({ 
-          ok: false, 
-          error: `Azure Function returned ${response.status}: ${response.statusText}` 
-        });
-      }
-
-      // Try to parse JSON, handle empty or invalid responses
-      const text = await response.text();
-      if (!text) {
-        console.log('[LOGIN] Empty response from Azure Function');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned empty response' 
-        });
-      }
-
-      let data;
-      try {
-        data = JSON.parse(text);
-        // SECURITY: Only log success/failure, NOT the response content (may contain tokens/user data)
-        console.log(`[LOGIN] Authentication ${data.ok ? 'successful' : 'failed'}`);
-      } catch (parseError) {
-        console.error('[LOGIN] Failed to parse Azure Function response (content not logged)');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned invalid JSON' 
-        });
-      }
-
-      res.json(data);
+      res.json({ ...rest, user: publicUser(req.session.user!) });
     } catch (error) {
       console.error('Login error:', error);
-      res.status(500).json({ ok: false, error: 'Failed to connect to Azure Function. Please check your configuration.' });
+      sendError(res, error, 'Failed to connect to Azure Function. Please check your configuration.');
     }
   });
 
   app.post("/api/auth/signup", async (req, res) => {
     try {
-      const { action, email, password, name } = req.body;
+      const { email, password, name } = req.body;
 
       if (!email || !password) {
         return res.status(400).json({ ok: false, error: "Email and password are required" });
       }
 
-      // SECURITY: Require dedicated auth URL (no fallback to avoid reusing chat endpoint)
-      const azureFunctionUrl = process.env.AZURE_AUTH_URL;
-      
-      if (!azureFunctionUrl) {
-        return res.status(500).json({ 
-          ok: false, 
-          error: "AZURE_AUTH_URL not configured. Please set a dedicated authentication endpoint in your environment secrets." 
-        });
-      }
-
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
-
-      // SECURE: Only include auth code in URL, NOT credentials
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
-
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
       console.log(`[SIGNUP] Calling Azure Function (SECURE - credentials in encrypted POST body, not logged)`);
-      
-      // SECURE: Send credentials in encrypted POST body, not URL
-      const response = await fetch(fullUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { 'x-functions-key': azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: action || 'create account',
-          email: email,
-          password: password,
-          name: name || ''
-        })
-      });
+      const data = await azure.createAccount({ email, password, name: name || '' });
 
-      console.log(`[SIGNUP] Azure Function responded with status: ${response.status}`);
-      
-      // Handle non-OK responses
-      if (!response.ok) {
-        return res.status(response.status).json({ 
-          ok: false, 
-          error: `Azure Function returned ${response.status}: ${response.statusText}` 
-        });
-      }
-
-      // Try to parse JSON, handle empty or invalid responses
-      const text = await response.text();
-      if (!text) {
-        console.log('[SIGNUP] Empty response from Azure Function');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned empty response' 
-        });
-      }
-
-      let data;
-      try {
-        data = JSON.parse(text);
-        // SECURITY: Only log success/failure, NOT the response content (may contain tokens/user data)
-        console.log(`[SIGNUP] Account creation ${data.ok ? 'successful' : 'failed'}`);
-      } catch (parseError) {
-        console.error('[SIGNUP] Failed to parse Azure Function response (content not logged)');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned invalid JSON' 
-        });
+      // SECURITY: Only log success/failure, NOT the response content (may contain tokens/user data)
+      console.log(`[SIGNUP] Account creation ${data.ok ? 'successful' : 'failed'}`);
+      if (data.ok) {
+        // Remember the name until the email is verified and the session starts
+        req.session.pendingSignup = { email, name: name || '' };
       }
-
       res.json(data);
     } catch (error) {
       console.error('Signup error:', error);
-      res.status(500).json({ ok: false, error: 'Failed to connect to Azure Function. Please check your configuration.' });
+      sendError(res, error, 'Failed to connect to Azure Function. Please check your configuration.');
     }
   });
 
@@ -178,70 +540,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ ok: false, error: "Email is required" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_AUTH_URL;
-      
-      if (!azureFunctionUrl) {
-        return res.status(500).json({ 
-          ok: false, 
-          error: "AZURE_AUTH_URL not configured. Please set a dedicated authentication endpoint in your environment secrets." 
-        });
-      }
-
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
-
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
-
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
       console.log(`[SENDCODE] Sending verification code (email not logged for security)`);
-      
-      const response = await fetch(fullUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { 'x-functions-key': azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: 'sendcode',
-          email: email
-        })
-      });
-
-      console.log(`[SENDCODE] Azure Function responded with status: ${response.status}`);
-      
-      if (!response.ok) {
-        return res.status(response.status).json({ 
-          ok: false, 
-          error: `Azure Function returned ${response.status}: ${response.statusText}` 
-        });
-      }
-
-      const text = await response.text();
-      if (!text) {
-        console.log('[SENDCODE] Empty response from Azure Function');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned empty response' 
-        });
-      }
-
-      let data;
-      try {
-        data = JSON.parse(text);
-        console.log(`[SENDCODE] Verification code ${data.ok ? 'sent successfully' : 'send failed'}`);
-      } catch (parseError) {
-        console.error('[SENDCODE] Failed to parse Azure Function response');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned invalid JSON' 
-        });
-      }
+      const data = await azure.sendCode(email);
 
+      console.log(`[SENDCODE] Verification code ${data.ok ? 'sent successfully' : 'send failed'}`);
       res.json(data);
     } catch (error) {
       console.error('Send code error:', error);
-      res.status(500).json({ ok: false, error: 'Failed to send verification code. Please try again.' });
+      sendError(res, error, 'Failed to send verification code. Please try again.');
     }
   });
 
@@ -254,1005 +560,1004 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ ok: false, error: "Email and code are required" });
       }
 
-      console.log(`[VERIFYCODE] 🔐 CODE RECEIVED FROM FRONTEND: "${code}"`);
-      console.log(`[VERIFYCODE] 📧 EMAIL: "${email}"`);
+      const data = await azure.verifyCode({ email, code });
 
-      const azureFunctionUrl = process.env.AZURE_AUTH_URL;
-      
-      if (!azureFunctionUrl) {
-        return res.status(500).json({ 
-          ok: false, 
-          error: "AZURE_AUTH_URL not configured. Please set a dedicated authentication endpoint in your environment secrets." 
-        });
+      console.log(`[VERIFYCODE] Code verification ${data.ok ? 'successful' : 'failed'}`);
+      if (!data.ok) {
+        return res.json(data);
       }
 
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
-
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
+      // A verified email signs the user in
+      const pending = req.session.pendingSignup;
+      const { token, ...rest } = data;
+      await signIn(req, {
+        email,
+        name: (pending && pending.email === email ? pending.name : '') || email.split('@')[0],
+        loginTime: new Date().toISOString(),
+        token,
       });
+      res.json({ ...rest, user: publicUser(req.session.user!) });
+    } catch (error) {
+      console.error('Verify code error:', error);
+      sendError(res, error, 'Failed to verify code. Please try again.');
+    }
+  });
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      
-      const azurePayload = {
-        action: 'verifycode',
-        email: email,
-        codeverify: code
-      };
-      console.log(`[VERIFYCODE] 📤 SENDING TO AZURE:`, JSON.stringify(azurePayload));
-      
-      const response = await fetch(fullUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { 'x-functions-key': azureFunctionKey }),
-        },
-        body: JSON.stringify(azurePayload)
-      });
+  // Current session user, or null when signed out
+  app.get("/api/auth/me", (req, res) => {
+    const user = req.session.user;
+    res.json({ ok: true, user: user ? publicUser(user) : null });
+  });
 
-      console.log(`[VERIFYCODE] Azure Function responded with status: ${response.status}`);
-      
-      if (!response.ok) {
-        return res.status(response.status).json({ 
-          ok: false, 
-          error: `Azure Function returned ${response.status}: ${response.statusText}` 
-        });
-      }
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await signOut(req);
+      res.clearCookie("sid");
+      console.log("[LOGOUT] Session ended");
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Logout error:', error);
+      sendError(res, error, 'Failed to log out');
+    }
+  });
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[VERIFYCODE] Empty response from Azure Function');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned empty response' 
-        });
-      }
+  // Everything below acts on the signed-in user's data. The user comes from
+  // the session; emails sent in request bodies or query strings are ignored.
+  app.use("/api", (req, res, next) => {
+    if (req.path.startsWith("/auth/")) return next();
+    requireAuth(req, res, next);
+  });
 
-      let data;
-      try {
-        data = JSON.parse(text);
-        console.log(`[VERIFYCODE] Code verification ${data.ok ? 'successful' : 'failed'}`);
-      } catch (parseError) {
-        console.error('[VERIFYCODE] Failed to parse Azure Function response');
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Azure Function returned invalid JSON' 
-        });
-      }
+  // The user's sync stream (see shared/sync.ts): what changes in their worlds
+  // and global chat, as it happens, for every tab and device they have open
+  app.get("/api/sync", (req, res) => {
+    const { email } = getSessionUser(req);
+    console.log("[SYNC] Sync stream opened");
+    userSync.subscribe(email, res);
+  });
 
-      res.json(data);
+  // Chat history endpoint - fetches user's global chat history. The newest
+  // GLOBAL_HISTORY_LIMIT exchanges, and older pages with `continuationToken`
+  // (not on Azure, whose global history isn't paged).
+  app.post("/api/chat/history", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const { continuationToken } = req.body;
+
+      console.log("[HISTORY] Fetching chat history for user (email not logged)");
+      // Items come back sorted oldest first
+      const page = await storage.getExchanges(email, null, { take: GLOBAL_HISTORY_LIMIT, continuationToken });
+
+      console.log(`[HISTORY] Retrieved ${page.items.length} history items`);
+      res.json({
+        ok: true,
+        count: page.items.length,
+        items: page.items.map((item) => ({
+          Id: item.id,
+          Input: item.input,
+          Response: item.aiReply,
+          CreatedUtc: item.createdAt.toISOString(),
+        })),
+        continuationToken: page.continuationToken,
+      });
     } catch (error) {
-      console.error('Verify code error:', error);
-      res.status(500).json({ ok: false, error: 'Failed to verify code. Please try again.' });
+      console.error("Error fetching history:", error);
+      sendError(res, error, "Failed to fetch chat history");
     }
   });
 
-  // Chat history endpoint - fetches user's chat history
-  app.post("/api/chat/history", async (req, res) => {
+  // World-specific chat history endpoint with pagination support. Returns one
+  // branch of the chat's tree (the world's own chat, or `threadId`): the one
+  // ending with the newest exchange, the one through `throughId`, or (with
+  // `fromId`) the rest of the branch from that exchange down, used to switch
+  // to a sibling.
+  app.post("/api/chat/world-history", async (req, res) => {
     try {
-      const { email } = req.body;
+      const { worldId, take, continuationToken, throughId, fromId } = req.body;
+      const threadId = threadIdSchema.parse(req.body.threadId);
 
-      if (!email) {
-        return res.status(400).json({ error: "Email is required" });
+      if (!worldId) {
+        return res.status(400).json({ error: "worldId is required" });
       }
+      const { owner } = await worldAccess(req, worldId, "viewer");
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      const pageSize = take || 10; // Default to 10 messages per page
+      console.log(`[WORLD-HISTORY] Fetching world chat history (email and worldId not logged) - page size: ${pageSize}, has token: ${!!continuationToken}`);
+
+      const page = await storage.getBranch(owner, worldId, { threadId, take: pageSize, continuationToken, throughId, fromId });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
+      console.log(`[WORLD-HISTORY] Retrieved ${page.items.length} world history items`);
+      res.json({
+        ok: true,
+        count: page.items.length,
+        items: page.items.map((item) => ({ ...historyItem(item), siblingIds: item.siblingIds })),
+        continuationToken: page.continuationToken,
+        canContinue: storage.editsReplies,
       });
+    } catch (error) {
+      console.error("Error fetching world history:", error);
+      sendError(res, error, "Failed to fetch world chat history");
+    }
+  });
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[HISTORY] Fetching chat history for user (email not logged)");
+  // Download a chat to keep: the global chat, or a world's own chat or
+  // `threadId` (its branch on screen), as `format` (markdown, html, pdf or
+  // json). `from`/`to` bound the time; `context` adds the world's settings
+  // and story summary; `timestamps` dates every message in `timeZone`.
+  app.get("/api/chat/export", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const query = chatExportQuerySchema.parse(req.query);
+      const access = query.worldId ? await worldAccess(req, query.worldId, "viewer") : undefined;
+      const owner = access?.owner ?? email;
+      const thread = access && query.threadId ? await storage.getThread(owner, access.world.id, query.threadId) : null;
+      if (access && query.threadId && !thread) {
+        return res.status(404).json({ ok: false, error: "Thread not found" });
+      }
+
+      console.log(`[EXPORT] Exporting a ${access ? "world" : "global"} chat as ${query.format}`);
+      const chat = await loadChatExport(owner, query, access?.world ?? null, thread ?? null);
+      const file = await renderChatExport(chat, query.format);
+
+      console.log(`[EXPORT] Exported ${chat.exchanges.length} exchanges`);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileSlug(chat.title, "chat")}.chat.${file.extension}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("[EXPORT] Error exporting chat:", error);
+      sendError(res, error, "Failed to export chat");
+    }
+  });
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          email: email,
-          action: "history"
-        })
-      });
+  // Search the user's chats: the global chat, their worlds and the worlds
+  // shared with them, or only the global chat (`worldId: null`) or one world
+  // (all of its threads). Newest first, a page of `take` hits at a time.
+  app.post("/api/search", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const request = searchRequestSchema.parse(req.body);
+      const access = request.worldId ? await worldAccess(req, request.worldId, "viewer") : undefined;
 
-      console.log("[HISTORY] Azure Function responded with status:", response.status);
+      // SECURITY: The query is in the POST body and isn't logged
+      console.log(`[SEARCH] Searching chats${request.worldId !== undefined ? " (one chat)" : ""}, has token: ${!!request.continuationToken}`);
+      const { hits, continuationToken } = await searchChats(email, request, access);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[HISTORY] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
+      console.log(`[SEARCH] Found ${hits.length} matching exchanges`);
+      res.json({ ok: true, count: hits.length, hits, continuationToken });
+    } catch (error) {
+      console.error("[SEARCH] Error searching chats:", error);
+      sendError(res, error, "Failed to search chats");
+    }
+  });
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[HISTORY] Empty response from Azure Function');
-        return res.json({ ok: true, items: [] });
-      }
+  // Delete world message endpoint
+  app.delete("/api/chat/world-message", async (req, res) => {
+    try {
+      const { worldId, messageId } = req.body;
 
-      const data = JSON.parse(text);
-      
-      // Sort messages in chronological order (oldest first, newest last)
-      if (data.items && Array.isArray(data.items)) {
-        data.items.sort((a: any, b: any) => {
-          const dateA = new Date(a.CreatedUtc || a.createdUtc || 0).getTime();
-          const dateB = new Date(b.CreatedUtc || b.createdUtc || 0).getTime();
-          return dateA - dateB; // Ascending order (oldest first)
-        });
+      if (!worldId || !messageId) {
+        return res.status(400).json({ error: "worldId and messageId are required" });
       }
-      
-      console.log(`[HISTORY] Retrieved ${data.count || 0} history items`);
-      
-      // Debug: Log first and last items to verify order
-      if (data.items && data.items.length > 0) {
-        console.log('[HISTORY] First item CreatedUtc:', data.items[0].CreatedUtc);
-        console.log('[HISTORY] Last item CreatedUtc:', data.items[data.items.length - 1].CreatedUtc);
+      const { owner } = await worldAccess(req, worldId, "editor");
+
+      console.log("[DELETE-MESSAGE] Deleting world message (email and IDs not logged)");
+      const deleted = await storage.deleteExchange(owner, worldId, messageId);
+
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Message not found" });
       }
-      
-      res.json(data);
+
+      worldRooms.broadcast(worldId, { type: "deleted", messageId });
+      console.log(`[DELETE-MESSAGE] Deleted message successfully`);
+      res.json({ ok: true });
     } catch (error) {
-      console.error("Error fetching history:", error);
-      res.status(500).json({ error: "Failed to fetch chat history" });
+      console.error("Error deleting world message:", error);
+      sendError(res, error, "Failed to delete world message");
     }
   });
 
-  // World-specific chat history endpoint with pagination support
-  app.post("/api/chat/world-history", async (req, res) => {
+  // Get user settings endpoint
+  app.post("/api/settings/get", async (req, res) => {
     try {
-      const { email, worldId, take, continuationToken } = req.body;
+      const { email } = getSessionUser(req);
 
-      if (!email || !worldId) {
-        return res.status(400).json({ error: "Email and worldId are required" });
-      }
+      console.log("[SETTINGS] Fetching user settings (email not logged)");
+      const settings = await storage.getSettings(email);
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      console.log("[SETTINGS] Retrieved user settings successfully");
+      res.json({ ok: true, settings });
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      sendError(res, error, "Failed to fetch user settings");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Save user settings endpoint
+  app.post("/api/settings/save", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      
-      const pageSize = take || 10; // Default to 10 messages per page
-      console.log(`[WORLD-HISTORY] Fetching world chat history (email and worldId not logged) - page size: ${pageSize}, has token: ${!!continuationToken}`);
+      if (!req.body.settings) {
+        return res.status(400).json({ error: "Settings are required" });
+      }
+      const settings = settingsUpdateSchema.parse(req.body.settings);
 
-      const requestBody: any = {
-        action: "getworldchats",
-        email: email,
-        worldid: worldId,
-        take: pageSize
-      };
+      console.log("[SETTINGS] Saving user settings (email and settings not logged)");
+      await storage.saveSettings(email, settings);
 
-      // Only include continuationToken if it's provided (not on first load)
-      if (continuationToken) {
-        requestBody.continuationToken = continuationToken;
-      }
+      console.log("[SETTINGS] Saved user settings successfully");
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      sendError(res, error, "Failed to save user settings");
+    }
+  });
+
+  // Worlds endpoints - manage separate chat contexts with their own AI settings
+  // Stored in whichever backend STORAGE_BACKEND selects (see server/storage.ts)
+  app.get("/api/worlds", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const { userId } = req.query;
 
-      console.log("[WORLD-HISTORY] 📤 REQUEST BODY SENT TO AZURE:", JSON.stringify(requestBody, null, 2));
+      console.log("[WORLDS] Fetching worlds for user");
+      const worlds = await storage.getWorldsByUser(email, typeof userId === 'string' ? userId : undefined);
+      const shared = await storage.getSharedWorlds(shareEmail(email));
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify(requestBody)
-      });
+      console.log(`[WORLDS] Retrieved ${worlds.length} worlds and ${shared.length} shared worlds`);
+      res.json({ ok: true, worlds, shared });
+    } catch (error) {
+      console.error("Error fetching worlds:", error);
+      sendError(res, error, "Failed to fetch worlds");
+    }
+  });
 
-      console.log("[WORLD-HISTORY] Azure Function responded with status:", response.status);
+  app.post("/api/worlds", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLD-HISTORY] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
+      if (!req.body.name) {
+        return res.status(400).json({ error: "Name is required" });
       }
+      const worldData = insertWorldSchema.parse({ ...req.body, userId: req.body.userId || email });
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLD-HISTORY] Empty response from Azure Function');
-        return res.json({ ok: true, items: [] });
-      }
+      console.log("[WORLDS] Creating new world");
+      const world = await storage.createWorld(email, worldData);
 
-      const data = JSON.parse(text);
-      
-      // Transform Azure's new format (text/ai) to our expected format (input/aiReply)
-      if (data.items && Array.isArray(data.items)) {
-        data.items = data.items.map((item: any) => ({
-          ...item,
-          input: item.text || item.input,     // Support both old and new format
-          aiReply: item.ai || item.aiReply,   // Support both old and new format
-        }));
-        
-        // Sort messages in chronological order (oldest first, newest last)
-        data.items.sort((a: any, b: any) => {
-          const dateA = new Date(a.createdUtc || 0).getTime();
-          const dateB = new Date(b.createdUtc || 0).getTime();
-          return dateA - dateB; // Ascending order (oldest first)
-        });
-      }
-      
-      // Calculate count if not provided
-      if (!data.count && data.items) {
-        data.count = data.items.length;
+      userSync.publishWorld(email, world);
+      console.log("[WORLDS] World created successfully");
+      res.json({ ok: true, id: world.id, world });
+    } catch (error) {
+      console.error("Error creating world:", error);
+      sendError(res, error, "Failed to create world");
+    }
+  });
+
+  // Import a world bundle as a new world. Validation errors come back per
+  // field in `issues`, with paths into the file.
+  app.post("/api/worlds/import", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const parsed = worldBundleSchema.safeParse(req.body.bundle);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+        return res.status(400).json({ ok: false, error: fromZodError(parsed.error).message, issues });
       }
-      
-      console.log(`[WORLD-HISTORY] Retrieved ${data.count || 0} world history items for world ${worldId}`);
-      console.log("[WORLD-HISTORY] Transformed data being sent to frontend:", JSON.stringify(data, null, 2));
-      res.json(data);
+
+      console.log("[WORLDS] Importing world bundle");
+      const { world, skipped } = await importWorld(email, req.body.userId || email, parsed.data);
+      userSync.publishWorld(email, world);
+
+      console.log(`[WORLDS] World imported successfully${skipped.length ? ` (skipped ${skipped.join(", ")})` : ""}`);
+      res.json({ ok: true, id: world.id, world, skipped });
     } catch (error) {
-      console.error("Error fetching world history:", error);
-      res.status(500).json({ error: "Failed to fetch world chat history" });
+      console.error("Error importing world:", error);
+      sendError(res, error, "Failed to import world");
     }
   });
 
-  // Delete world message endpoint
-  app.delete("/api/chat/world-message", async (req, res) => {
+  // Download a world as a bundle. ?history=true adds its chats (threads
+  // included), ?summaries=true its summaries.
+  app.get("/api/worlds/:id/export", async (req, res) => {
     try {
-      const { email, worldId, messageId } = req.body;
+      const { email } = getSessionUser(req);
+      const { id } = req.params;
+      const options = exportQuerySchema.parse(req.query);
+      await worldAccess(req, id, "owner");
+
+      console.log("[WORLDS] Exporting world");
+      const bundle = await exportWorld(email, id, options);
 
-      if (!email || !worldId || !messageId) {
-        return res.status(400).json({ error: "Email, worldId, and messageId are required" });
+      if (!bundle) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      const fileName = fileSlug(bundle.world.name, "world");
+      console.log("[WORLDS] World exported successfully");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.world.json"`);
+      res.json(bundle);
+    } catch (error) {
+      console.error("Error exporting world:", error);
+      sendError(res, error, "Failed to export world");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Duplicate a world under a new name: its settings and lorebook, plus all
+  // its chats (`history`) or the branch ending at `throughId`. The copy
+  // records the original in `forkedFromId`.
+  app.post("/api/worlds/:id/fork", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const { id } = req.params;
+      const { name, userId, history, throughId, threadId } = forkRequestSchema.parse(req.body);
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[DELETE-MESSAGE] Deleting world message (email and IDs not logged)");
+      const { world: original } = await worldAccess(req, id, "owner");
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: "deleteworldmessage",
-          worldid: worldId,
-          email: email,
-          messageid: messageId
-        })
+      console.log(`[WORLDS] Forking world${throughId ? " at a message" : history ? " with history" : ""}`);
+      const forked = await forkWorld(email, userId || original.userId, id, {
+        name: name || `${original.name} copy`,
+        history,
+        throughId,
+        threadId,
       });
 
-      console.log("[DELETE-MESSAGE] Azure Function responded with status:", response.status);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[DELETE-MESSAGE] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
-
-      const text = await response.text();
-      if (!text) {
-        console.log('[DELETE-MESSAGE] Empty response from Azure Function');
-        return res.json({ ok: true, deleted: true });
+      if (!forked) {
+        return res.status(404).json({ ok: false, error: "Message not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log(`[DELETE-MESSAGE] Deleted message successfully`);
-      res.json(data);
+      const { world, skipped } = forked;
+      userSync.publishWorld(email, world);
+      console.log(`[WORLDS] World forked successfully${skipped.length ? ` (skipped ${skipped.join(", ")})` : ""}`);
+      res.json({ ok: true, id: world.id, world, skipped });
     } catch (error) {
-      console.error("Error deleting world message:", error);
-      res.status(500).json({ error: "Failed to delete world message" });
+      console.error("Error forking world:", error);
+      sendError(res, error, "Failed to fork world");
     }
   });
 
-  // Get user settings endpoint
-  app.post("/api/settings/get", async (req, res) => {
+  app.put("/api/worlds/:id", async (req, res) => {
     try {
-      const { email } = req.body;
+      const { id } = req.params;
+      const updates = worldUpdateSchema.parse(req.body);
+      const { email, owner, role } = await worldAccess(req, id, "editor");
+      // A shared world stays filed under its owner's user id
+      const { userId, ...changes } = updates;
 
-      if (!email) {
-        return res.status(400).json({ error: "Email is required" });
+      console.log("[WORLDS] Updating world");
+      const updated = await updateWorldWithRevision(owner, email, id, role === "owner" ? updates : changes);
+
+      if (!updated) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      const { world, revision } = updated;
+      userSync.publishWorld(owner, world);
+      console.log(`[WORLDS] World updated successfully${revision ? ` (${Object.keys(revision.changes).length} fields changed)` : ""}`);
+      res.json({ ok: true, world, revision });
+    } catch (error) {
+      console.error("Error updating world:", error);
+      sendError(res, error, "Failed to update world");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Revisions of a world, newest first. `drift` lists fields whose stored
+  // value isn't what their latest revision wrote, i.e. updates the storage
+  // didn't keep.
+  app.get("/api/worlds/:id/revisions", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { owner, world } = await worldAccess(req, id, "viewer");
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[SETTINGS] Fetching user settings (email not logged)");
+      console.log("[REVISIONS] Fetching world revisions");
+      const revisions = await storage.getRevisions(owner, id);
+      const drift = driftedFields(world, revisions);
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          email: email,
-          action: "getSettings"
-        })
-      });
+      console.log(`[REVISIONS] Retrieved ${revisions.length} revisions${drift.length ? `, drift in ${drift.join(", ")}` : ""}`);
+      res.json({ ok: true, revisions, drift });
+    } catch (error) {
+      console.error("Error fetching world revisions:", error);
+      sendError(res, error, "Failed to fetch world revisions");
+    }
+  });
 
-      console.log("[SETTINGS] Azure Function responded with status:", response.status);
+  // Put the world back the way it was before a revision, undoing it and
+  // every later one. The rollback is recorded as a revision too.
+  app.post("/api/worlds/:id/revisions/:revisionId/rollback", async (req, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const { email, owner } = await worldAccess(req, id, "editor");
 
-      if (!response.ok) {
-        console.error("[SETTINGS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
+      const revisions = await storage.getRevisions(owner, id);
+      const values = valuesBefore(revisions, revisionId);
+      if (!values) {
+        return res.status(404).json({ ok: false, error: "Revision not found" });
       }
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[SETTINGS] Empty response, returning defaults');
-        return res.json({ ok: true, settings: null });
+      console.log("[REVISIONS] Rolling back world");
+      const updated = await updateWorldWithRevision(owner, email, id, worldUpdateSchema.parse(values), revisionId);
+
+      if (!updated) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log("[SETTINGS] Retrieved user settings successfully");
-      res.json(data);
+      userSync.publishWorld(owner, updated.world);
+      console.log("[REVISIONS] World rolled back successfully");
+      res.json({ ok: true, ...updated });
     } catch (error) {
-      console.error("Error fetching settings:", error);
-      res.status(500).json({ error: "Failed to fetch user settings" });
+      console.error("Error rolling back world:", error);
+      sendError(res, error, "Failed to roll back world");
     }
   });
 
-  // Save user settings endpoint
-  app.post("/api/settings/save", async (req, res) => {
+  app.delete("/api/worlds/:id", async (req, res) => {
     try {
-      const { email, settings } = req.body;
+      const { id } = req.params;
+      const { owner } = await worldAccess(req, id, "owner");
+
+      console.log("[WORLDS] Deleting world");
+      const shares = await storage.getShares(owner, id);
+      const deleted = await storage.deleteWorld(owner, id);
 
-      if (!email || !settings) {
-        return res.status(400).json({ error: "Email and settings are required" });
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      worldRooms.close(id);
+      userSync.publishWorldDeleted(owner, id, shares);
+      console.log("[WORLDS] World deleted successfully");
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error deleting world:", error);
+      sendError(res, error, "Failed to delete world");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Accounts the world is shared with. Only the owner sees and changes them.
+  app.get("/api/worlds/:id/shares", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { owner } = await worldAccess(req, id, "owner");
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[SETTINGS] Saving user settings (email and settings not logged)");
+      console.log("[SHARES] Fetching world shares");
+      const shares = await storage.getShares(owner, id);
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          email: email,
-          action: "saveSettings",
-          model: settings.model,
-          temperature: settings.temperature,
-          maxTokens: settings.maxTokens,
-          responseStyle: settings.responseStyle,
-          conversationStyle: settings.conversationStyle,
-          customPersonality: settings.customPersonality
-        })
-      });
+      console.log(`[SHARES] Retrieved ${shares.length} shares`);
+      res.json({ ok: true, shares });
+    } catch (error) {
+      console.error("Error fetching world shares:", error);
+      sendError(res, error, "Failed to fetch world shares");
+    }
+  });
 
-      console.log("[SETTINGS] Azure Function responded with status:", response.status);
+  // Share a world with an account by email, or change its role. The share
+  // applies whenever that email signs in; there's no separate invitation.
+  app.post("/api/worlds/:id/shares", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { owner } = await worldAccess(req, id, "owner");
+      const shareData = insertWorldShareSchema.parse(req.body);
 
-      if (!response.ok) {
-        console.error("[SETTINGS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
+      if (shareData.email === shareEmail(owner)) {
+        return res.status(400).json({ ok: false, error: "You already own this world" });
       }
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[SETTINGS] Empty response');
-        return res.json({ ok: true });
+      console.log("[SHARES] Sharing world");
+      const share = await storage.shareWorld(owner, id, shareData);
+
+      if (!share) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log("[SETTINGS] Saved user settings successfully");
-      res.json(data);
+      // Someone in the room whose role changed rejoins with the new one
+      worldRooms.close(id, share.email);
+      userSync.publish(share.email, { type: "shares" });
+      console.log(`[SHARES] World shared successfully as ${share.role}`);
+      res.json({ ok: true, share });
     } catch (error) {
-      console.error("Error saving settings:", error);
-      res.status(500).json({ error: "Failed to save user settings" });
+      console.error("Error sharing world:", error);
+      sendError(res, error, "Failed to share world");
     }
   });
 
-  // Worlds endpoints - manage separate chat contexts with their own AI settings
-  // All world operations are sent to Azure Function and stored in Azure Table Storage
-  app.get("/api/worlds", async (req, res) => {
+  app.delete("/api/worlds/:id/shares/:email", async (req, res) => {
     try {
-      const { userId, email } = req.query;
+      const { id, email } = req.params;
+      const { owner } = await worldAccess(req, id, "owner");
 
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ error: "User ID is required" });
-      }
+      console.log("[SHARES] Removing world share");
+      const deleted = await storage.unshareWorld(owner, id, shareEmail(email));
 
-      if (!email || typeof email !== 'string') {
-        return res.status(400).json({ error: "Email is required" });
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Share not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      worldRooms.close(id, email);
+      userSync.publish(email, { type: "shares" });
+      console.log("[SHARES] World share removed successfully");
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error removing world share:", error);
+      sendError(res, error, "Failed to remove world share");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Threads - separate chats inside a world that share its settings and
+  // context. The world's own chat isn't a thread and isn't listed.
+  app.get("/api/worlds/:worldId/threads", async (req, res) => {
+    try {
+      const { worldId } = req.params;
+      const { owner } = await worldAccess(req, worldId, "viewer");
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[WORLDS] Fetching worlds for user from Azure Table Storage");
-
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: "getworlds",
-          email: email,
-          userId: userId
-        })
-      });
+      console.log("[THREADS] Fetching threads for world");
+      const threads = await storage.getThreads(owner, worldId);
 
-      console.log("[WORLDS] Azure Function responded with status:", response.status);
+      console.log(`[THREADS] Retrieved ${threads.length} threads`);
+      res.json({ ok: true, threads });
+    } catch (error) {
+      console.error("Error fetching threads:", error);
+      sendError(res, error, "Failed to fetch threads");
+    }
+  });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLDS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
+  app.post("/api/worlds/:worldId/threads", async (req, res) => {
+    try {
+      const { worldId } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const threadData = insertChatThreadSchema.parse(req.body);
+
+      console.log("[THREADS] Creating new thread");
+      const thread = await storage.createThread(owner, worldId, threadData);
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLDS] Empty response from Azure Function');
-        return res.json({ ok: true, worlds: [] });
+      if (!thread) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const data = JSON.parse(text);
-      
-      // Azure Function returns 'items' in PascalCase, transform to camelCase for frontend
-      const rawWorlds = data.items || data.worlds || [];
-      
-      console.log("[WORLDS] Raw data from Azure Function:", JSON.stringify(rawWorlds, null, 2));
-      
-      // Transform PascalCase to camelCase
-      const worlds = rawWorlds.map((world: any) => ({
-        id: world.Id || world.id,
-        userId: world.UserId || world.userId,
-        name: world.Name || world.name,
-        description: world.Description || world.description,
-        model: world.Model || world.model,
-        temperature: world.Temperature ?? world.temperature ?? 0.7,
-        maxTokens: world.MaxTokens || world.maxTokens || 2000,
-        responseStyle: world.ResponseStyle || world.responseStyle || "balanced",
-        conversationStyle: world.ConversationStyle || world.conversationStyle || "friendly",
-        customPersonality: world.CustomPersonality || world.customPersonality || "",
-        characters: world.Characters || world.characters || "",
-        events: world.Events || world.events || "",
-        scenario: world.Scenario || world.scenario || "",
-        places: world.Places || world.places || "",
-        additionalSettings: world.AdditionalSettings || world.additionalSettings || "",
-        createdAt: world.CreatedUtc || world.createdAt,
-      }));
-      
-      console.log(`[WORLDS] Retrieved and transformed ${worlds.length} worlds to camelCase`);
-      
-      res.json({ ok: true, worlds });
+      console.log("[THREADS] Thread created successfully");
+      res.json({ ok: true, thread });
     } catch (error) {
-      console.error("Error fetching worlds:", error);
-      res.status(500).json({ error: "Failed to fetch worlds" });
+      console.error("Error creating thread:", error);
+      sendError(res, error, "Failed to create thread");
     }
   });
 
-  app.post("/api/worlds", async (req, res) => {
+  // Rename and archive/unarchive
+  app.put("/api/worlds/:worldId/threads/:id", async (req, res) => {
     try {
-      const worldData = req.body;
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const updates = threadUpdateSchema.parse(req.body);
 
-      if (!worldData.userId || !worldData.name) {
-        return res.status(400).json({ error: "User ID and name are required" });
-      }
+      console.log("[THREADS] Updating thread");
+      const thread = await storage.updateThread(owner, worldId, id, updates);
 
-      if (!worldData.email) {
-        return res.status(400).json({ error: "Email is required" });
+      if (!thread) {
+        return res.status(404).json({ ok: false, error: "Thread not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
-
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
-
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      
-      const requestBody = {
-        action: "createworld",
-        ...worldData
-      };
-      
-      console.log("[WORLDS] Creating new world in Azure Table Storage");
-      console.log("[WORLDS] REQUEST BODY:", JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify(requestBody)
-      });
+      console.log("[THREADS] Thread updated successfully");
+      res.json({ ok: true, thread });
+    } catch (error) {
+      console.error("Error updating thread:", error);
+      sendError(res, error, "Failed to update thread");
+    }
+  });
 
-      console.log("[WORLDS] Azure Function responded with status:", response.status);
+  app.delete("/api/worlds/:worldId/threads/:id", async (req, res) => {
+    try {
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLDS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
+      console.log("[THREADS] Deleting thread");
+      const deleted = await storage.deleteThread(owner, worldId, id);
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLDS] Empty response from Azure Function');
-        throw new Error('Azure Function returned empty response');
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Thread not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log("[WORLDS] World created successfully");
-      res.json(data);
+      console.log("[THREADS] Thread deleted successfully");
+      res.json({ ok: true });
     } catch (error) {
-      console.error("Error creating world:", error);
-      res.status(500).json({ error: "Failed to create world" });
+      console.error("Error deleting thread:", error);
+      sendError(res, error, "Failed to delete thread");
     }
   });
 
-  app.put("/api/worlds/:id", async (req, res) => {
+  // The user's saved world templates; built-in templates live in the client
+  app.get("/api/templates", async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
+      const { email } = getSessionUser(req);
 
-      if (!updates.email) {
-        return res.status(400).json({ error: "Email is required" });
-      }
+      console.log("[TEMPLATES] Fetching templates");
+      const templates = await storage.getTemplates(email);
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      console.log(`[TEMPLATES] Retrieved ${templates.length} templates`);
+      res.json({ ok: true, templates });
+    } catch (error) {
+      console.error("Error fetching templates:", error);
+      sendError(res, error, "Failed to fetch templates");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey }),
-        worldId: id  // Azure expects worldId as URL parameter, not in body
+  // Save a world's settings and context (not its chats or lorebook) as a
+  // template. The name defaults to the world's.
+  app.post("/api/worlds/:id/template", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { owner, world: found } = await worldAccess(req, id, "owner");
+      const { name, description } = templateFromWorldSchema.parse(req.body);
+
+      console.log("[TEMPLATES] Saving world as template");
+      const template = await storage.createTemplate(owner, {
+        name: name || found.name,
+        description: description ?? found.description,
+        world: templateWorldSchema.parse(found), // drops the id, owner and name
       });
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[WORLDS] Updating world in Azure Table Storage using editworld action");
-      
-      // Transform camelCase to PascalCase for Azure's C# backend
-      const toPascalCase = (obj: any) => {
-        const result: any = {};
-        for (const [key, value] of Object.entries(obj)) {
-          const pascalKey = key.charAt(0).toUpperCase() + key.slice(1);
-          result[pascalKey] = value;
-        }
-        return result;
-      };
-      
-      const requestBody = {
-        action: "editworld",
-        ...toPascalCase(updates)
-      };
-      console.log("[WORLDS] Request body being sent:", JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify(requestBody)
-      });
+      console.log("[TEMPLATES] Template saved successfully");
+      res.json({ ok: true, template });
+    } catch (error) {
+      console.error("Error saving template:", error);
+      sendError(res, error, "Failed to save template");
+    }
+  });
 
-      console.log("[WORLDS] Azure Function responded with status:", response.status);
+  app.delete("/api/templates/:id", async (req, res) => {
+    try {
+      const { email } = getSessionUser(req);
+      const { id } = req.params;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLDS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
+      console.log("[TEMPLATES] Deleting template");
+      const deleted = await storage.deleteTemplate(email, id);
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLDS] Empty response from Azure Function');
-        throw new Error('Azure Function returned empty response');
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Template not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log("[WORLDS] Azure response:", JSON.stringify(data, null, 2));
-      
-      if (data.ok === false) {
-        console.error("[WORLDS] Azure returned ok:false, error:", data.error);
-      } else {
-        console.log("[WORLDS] World updated successfully");
-      }
-      
-      res.json(data);
+      console.log("[TEMPLATES] Template deleted successfully");
+      res.json({ ok: true });
     } catch (error) {
-      console.error("Error updating world:", error);
-      res.status(500).json({ error: "Failed to update world" });
+      console.error("Error deleting template:", error);
+      sendError(res, error, "Failed to delete template");
     }
   });
 
-  app.delete("/api/worlds/:id", async (req, res) => {
+  // Lorebook of a world. Entries are injected into world chats when their
+  // keywords come up (see server/llm/lorebook.ts).
+  app.get("/api/worlds/:worldId/lore", async (req, res) => {
     try {
-      const { id } = req.params;
-      const { email } = req.query;
-
-      if (!email || typeof email !== 'string') {
-        return res.status(400).json({ error: "Email is required" });
-      }
+      const { worldId } = req.params;
+      const { owner } = await worldAccess(req, worldId, "viewer");
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      console.log("[LORE] Fetching lorebook for world");
+      const entries = await storage.getLoreEntries(owner, worldId);
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+      console.log(`[LORE] Retrieved ${entries.length} entries`);
+      res.json({ ok: true, entries });
+    } catch (error) {
+      console.error("Error fetching lorebook:", error);
+      sendError(res, error, "Failed to fetch lorebook");
+    }
+  });
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log("[WORLDS] Deleting world from Azure Table Storage by rowkey");
-
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: "deleteworld",
-          email: email,
-          rowkey: id
-        })
-      });
+  app.post("/api/worlds/:worldId/lore", async (req, res) => {
+    try {
+      const { worldId } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const entryData = insertLoreEntrySchema.parse(req.body);
 
-      console.log("[WORLDS] Azure Function responded with status:", response.status);
+      console.log("[LORE] Creating new entry");
+      const entry = await storage.createLoreEntry(owner, worldId, entryData);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLDS] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
+      if (!entry) {
+        return res.status(404).json({ ok: false, error: "World not found" });
       }
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLDS] Empty response from Azure Function');
-        return res.json({ ok: true });
-      }
+      console.log("[LORE] Entry created successfully");
+      res.json({ ok: true, entry });
+    } catch (error) {
+      console.error("Error creating lore entry:", error);
+      sendError(res, error, "Failed to create lore entry");
+    }
+  });
 
-      const data = JSON.parse(text);
-      
-      // Check if Azure Function actually succeeded
-      if (data.ok === false) {
-        console.error("[WORLDS] Azure Function returned failure:", data.message || "Unknown error");
-        return res.status(400).json({ 
-          ok: false, 
-          error: data.message || "Failed to delete world from Azure Table Storage" 
-        });
+  app.put("/api/worlds/:worldId/lore/:id", async (req, res) => {
+    try {
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const updates = loreEntryUpdateSchema.parse(req.body);
+
+      console.log("[LORE] Updating entry");
+      const entry = await storage.updateLoreEntry(owner, worldId, id, updates);
+
+      if (!entry) {
+        return res.status(404).json({ ok: false, error: "Lore entry not found" });
       }
-      
-      console.log("[WORLDS] World deleted successfully");
-      res.json(data);
+
+      console.log("[LORE] Entry updated successfully");
+      res.json({ ok: true, entry });
     } catch (error) {
-      console.error("Error deleting world:", error);
-      res.status(500).json({ error: "Failed to delete world" });
+      console.error("Error updating lore entry:", error);
+      sendError(res, error, "Failed to update lore entry");
     }
   });
 
-  // Get world summaries endpoint
-  app.get("/api/worlds/:worldId/summaries", async (req, res) => {
+  app.delete("/api/worlds/:worldId/lore/:id", async (req, res) => {
     try {
-      const { worldId } = req.params;
-      const { email } = req.query;
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+
+      console.log("[LORE] Deleting entry");
+      const deleted = await storage.deleteLoreEntry(owner, worldId, id);
 
-      if (!email || typeof email !== 'string') {
-        return res.status(400).json({ error: "Email is required" });
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Lore entry not found" });
       }
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      console.log("[LORE] Entry deleted successfully");
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error deleting lore entry:", error);
+      sendError(res, error, "Failed to delete lore entry");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Memories of a world's own chat or of one of its threads
+  app.get(["/api/worlds/:worldId/memories", "/api/worlds/:worldId/threads/:threadId/memories"], async (req, res) => {
+    try {
+      const { worldId, threadId = null } = req.params as { worldId: string; threadId?: string };
+      const { owner } = await worldAccess(req, worldId, "viewer");
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      console.log(`[WORLD SUMMARIES] Fetching summaries for world ${worldId}`);
+      console.log("[MEMORY] Fetching memories for chat");
+      const memories = await storage.getMemories(owner, worldId, threadId);
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: "getworldsummaries",
-          email: email,
-          worldid: worldId
-        })
-      });
+      console.log(`[MEMORY] Retrieved ${memories.length} memories`);
+      res.json({ ok: true, memories: memories.map(publicMemory) });
+    } catch (error) {
+      console.error("Error fetching memories:", error);
+      sendError(res, error, "Failed to fetch memories");
+    }
+  });
 
-      console.log("[WORLD SUMMARIES] Azure Function responded with status:", response.status);
+  // Pin, unpin or rewrite a memory. A rewritten memory is embedded again
+  // and no longer follows its exchange.
+  app.put("/api/worlds/:worldId/memories/:id", async (req, res) => {
+    try {
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const updates = memoryUpdateSchema.parse(req.body);
+
+      console.log("[MEMORY] Updating memory");
+      const changes = updates.text === undefined
+        ? updates
+        : { ...updates, embedding: await embedOne(updates.text), embeddingModel: embedder.id, exchangeId: null };
+      const memory = await storage.updateMemory(owner, worldId, id, changes);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLD SUMMARIES] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
+      if (!memory) {
+        return res.status(404).json({ ok: false, error: "Memory not found" });
       }
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLD SUMMARIES] Empty response from Azure Function');
-        return res.json({ ok: true, summaries: [] });
+      console.log("[MEMORY] Memory updated successfully");
+      res.json({ ok: true, memory: publicMemory(memory) });
+    } catch (error) {
+      console.error("Error updating memory:", error);
+      sendError(res, error, "Failed to update memory");
+    }
+  });
+
+  // Forget a memory. The exchange stays in the chat history.
+  app.delete("/api/worlds/:worldId/memories/:id", async (req, res) => {
+    try {
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+
+      console.log("[MEMORY] Forgetting memory");
+      const deleted = await storage.deleteMemory(owner, worldId, id);
+
+      if (!deleted) {
+        return res.status(404).json({ ok: false, error: "Memory not found" });
       }
 
-      const data = JSON.parse(text);
-      
-      console.log("[WORLD SUMMARIES] Full Azure response:", JSON.stringify(data, null, 2));
-      
-      // Azure Function returns 'slices' array
-      const rawSlices = data.slices || [];
-      
-      console.log("[WORLD SUMMARIES] Extracted slices array:", JSON.stringify(rawSlices, null, 2));
-      
-      // Transform to camelCase for frontend
-      const summaries = rawSlices.map((slice: any) => ({
-        fromUtc: slice.fromUtc,
-        toUtc: slice.toUtc,
-        createdUtc: slice.createdUtc,
-        summary: slice.summary,
-      }));
-      
-      console.log(`[WORLD SUMMARIES] Retrieved and transformed ${summaries.length} summaries to camelCase`);
-      
-      res.json({ ok: true, summaries });
+      console.log("[MEMORY] Memory forgotten successfully");
+      res.json({ ok: true });
     } catch (error) {
-      console.error("Error fetching world summaries:", error);
-      res.status(500).json({ error: "Failed to fetch world summaries" });
+      console.error("Error forgetting memory:", error);
+      sendError(res, error, "Failed to forget memory");
     }
   });
 
-  // Create world summary endpoint
-  app.post("/api/worlds/:worldId/summaries", async (req, res) => {
+  // Get world summaries endpoint
+  app.get("/api/worlds/:worldId/summaries", async (req, res) => {
     try {
       const { worldId } = req.params;
-      const { email } = req.body;
+      const { owner } = await worldAccess(req, worldId, "viewer");
 
-      if (!email) {
-        return res.status(400).json({ error: "Email is required" });
-      }
+      console.log(`[WORLD SUMMARIES] Fetching summaries for world ${worldId}`);
+      const summaries = await storage.getSummaries(owner, worldId);
 
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+      console.log(`[WORLD SUMMARIES] Retrieved ${summaries.length} summaries`);
+      res.json({ ok: true, summaries });
+    } catch (error) {
+      console.error("Error fetching world summaries:", error);
+      sendError(res, error, "Failed to fetch world summaries");
+    }
+  });
 
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Create world summary endpoint. Summarizes the exchanges since the last
+  // summary; `created` is false when there was nothing new.
+  app.post("/api/worlds/:worldId/summaries", async (req, res) => {
+    try {
+      const { worldId } = req.params;
+      const { owner, world } = await worldAccess(req, worldId, "editor");
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
       console.log(`[WORLD SUMMARIES] Creating summary for world ${worldId}`);
+      const created = await storage.createSummary(owner, worldId, createSummarizer(owner, world));
 
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify({
-          action: "createworldsummary",
-          email: email,
-          worldid: worldId
-        })
-      });
+      console.log(`[WORLD SUMMARIES] ${created ? "Summary created successfully" : "Nothing new to summarize"}`);
+      res.json({ ok: true, created });
+    } catch (error) {
+      console.error("Error creating world summary:", error);
+      sendError(res, error, "Failed to create world summary");
+    }
+  });
 
-      console.log("[WORLD SUMMARIES] Azure Function responded with status:", response.status);
+  // Edit a summary. The text is stored as a new version covering the same
+  // exchanges, so older versions stay available to restore.
+  app.put("/api/worlds/:worldId/summaries/:id", async (req, res) => {
+    try {
+      const { worldId, id } = req.params;
+      const { owner } = await worldAccess(req, worldId, "editor");
+      const { summary: text } = summaryEditSchema.parse(req.body);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[WORLD SUMMARIES] Azure Function error response");
-        throw new Error(`Azure Function error: ${response.status}`);
-      }
+      console.log(`[WORLD SUMMARIES] Revising summary for world ${worldId}`);
+      const summary = await storage.reviseSummary(owner, worldId, id, text);
 
-      const text = await response.text();
-      if (!text) {
-        console.log('[WORLD SUMMARIES] Empty response from Azure Function');
-        return res.json({ ok: true });
+      if (!summary) {
+        return res.status(404).json({ ok: false, error: "Summary not found" });
       }
 
-      const data = JSON.parse(text);
-      console.log("[WORLD SUMMARIES] Azure response data:", JSON.stringify(data, null, 2));
-      console.log("[WORLD SUMMARIES] Summary created successfully");
-      res.json({ ok: true, ...data });
+      console.log("[WORLD SUMMARIES] Summary revised successfully");
+      res.json({ ok: true, summary });
     } catch (error) {
-      console.error("Error creating world summary:", error);
-      res.status(500).json({ error: "Failed to create world summary" });
+      console.error("Error revising world summary:", error);
+      sendError(res, error, "Failed to revise world summary");
     }
   });
 
-  // Chat endpoint - proxies to Azure Function (avoids CORS)
+  // Chat endpoint - proxies to the LLM provider (avoids CORS)
+  // In world chats `parentId` is the exchange the message follows (the end
+  // of the branch the user is on); without it, the newest exchange. One that
+  // isn't in the chat is a 404.
   app.post("/api/chat", async (req, res) => {
-    try {
-      const { message, userId, name, history, worldSettings } = req.body;
+    const { message } = req.body;
+
+    if (!message) {
+      return res.status(400).json({ error: "Message is required" });
+    }
+    const parsedParent = parentIdSchema.safeParse(req.body.parentId);
+    if (!parsedParent.success) {
+      return sendError(res, parsedParent.error, "Invalid request");
+    }
+    const parentId = parsedParent.data;
 
-      if (!message) {
-        return res.status(400).json({ error: "Message is required" });
+    // A parent that isn't in the chat would graft the turn onto another
+    // branch. Azure's chats are flat, so there it isn't used.
+    if (parentId && storage.branching) {
+      try {
+        const worldId = worldChatSettingsSchema.nullish().parse(req.body.worldSettings)?.worldId;
+        if (worldId) {
+          const { owner } = await worldAccess(req, worldId, "player");
+          const threadId = threadIdSchema.parse(req.body.threadId) ?? null;
+          if (!(await branchFrom(owner, worldId, threadId, parentId, parentId))) {
+            return res.status(404).json({ ok: false, error: "Message not found" });
+          }
+        }
+      } catch (error) {
+        console.error("[CHAT] Error checking the parent exchange:", error);
+        return sendError(res, error, "Failed to process message");
       }
+    }
 
-      // Use dedicated chat endpoint (separate from auth endpoint for security)
-      const azureFunctionUrl = process.env.AZURE_FUNCTION_URL || 
-        "https://functionapp120251021090023.azurewebsites.net/api/echo";
-      
-      const azureFunctionKey = process.env.AZURE_FUNCTION_KEY;
+    await answerChat(req, res, message, (data, context) => recordReply(context, { input: message, parentId }, data));
+  });
 
-      // SECURITY: Only include auth code in URL, send data in encrypted POST body
-      const params = new URLSearchParams({
-        ...(azureFunctionKey && { code: azureFunctionKey })
-      });
+  // Resend a user message as an alternative to an exchange of a world chat.
+  // Regenerate sends the same text, edit and resend sends new text; either
+  // way the new exchange follows the parent of the one it replaces and
+  // becomes its sibling. Azure can't branch, so there the exchanges in
+  // `replaceIds` (the replaced one and every later one) are deleted instead,
+  // once the new one is stored, which takes an editor.
+  app.post("/api/chat/resend", async (req, res) => {
+    const parsed = resendRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, parsed.error, "Invalid request");
+    }
+    const { message, replaceIds, worldSettings: { worldId } } = parsed.data;
 
-      const fullUrl = `${azureFunctionUrl}?${params.toString()}`;
-      
-      // SECURITY: Email, message, history, and world settings sent in encrypted POST body (not logged for privacy)
-      const logMsg = worldSettings 
-        ? "[CHAT] Calling Azure Function with world settings (SECURE - data in encrypted POST body)"
-        : "[CHAT] Calling Azure Function (SECURE - data in encrypted POST body)";
-      console.log(logMsg);
-
-      // Prepare request body with world settings if provided
-      const requestBody: any = {
-        email: name || 'user@example.com',
-        text: message,
-        history: history || []
-      };
-
-      // Add world-specific settings as per-request overrides if provided
-      if (worldSettings) {
-        requestBody.action = 'addworldchat';
-        requestBody.worldId = worldSettings.worldId;
-        requestBody.stream = 'false';  // Force non-streaming mode for Replit compatibility
-        requestBody.model = worldSettings.model;
-        requestBody.temperature = worldSettings.temperature;
-        requestBody.maxTokens = worldSettings.maxTokens;
-        requestBody.responseStyle = worldSettings.responseStyle;
-        requestBody.conversationStyle = worldSettings.conversationStyle;
-        requestBody.customPersonality = worldSettings.customPersonality;
-        // Only include non-empty strings for optional fields
-        requestBody.characters = worldSettings.characters || undefined;
-        requestBody.events = worldSettings.events || undefined;
-        requestBody.scenario = worldSettings.scenario || undefined;
-        requestBody.places = worldSettings.places || undefined;
-        requestBody.additionalSettings = worldSettings.additionalSettings || undefined;
-        
-        console.log("[CHAT] 🔍 DEBUG: worldSettings received:", worldSettings ? "YES" : "NO");
-        console.log("[CHAT] 🔍 DEBUG: requestBody.action =", requestBody.action);
-        console.log("[CHAT] 🔍 DEBUG: Full requestBody keys:", Object.keys(requestBody));
-        console.log("[CHAT] Sending world chat with worldId:", requestBody.worldId, "model:", requestBody.model);
-      } else {
-        console.log("[CHAT] ⚠️  NO worldSettings - sending to GLOBAL chat");
-      }
+    let parentId: string | null;
+    try {
+      const { owner } = await worldAccess(req, worldId, storage.branching ? "player" : "editor");
+      const threadId = threadIdSchema.parse(req.body.threadId) ?? null;
+      // Every replaced exchange is on the caller's branch, below the first one
+      const replaced = await branchFrom(owner, worldId, threadId, replaceIds[replaceIds.length - 1], replaceIds[0]);
+      if (!replaced || !replaceIds.every((id) => replaced.some((exchange) => exchange.id === id))) {
+        return res.status(404).json({ ok: false, error: "Message not found" });
+      }
+      parentId = replaced[0].parentId;
+    } catch (error) {
+      console.error("[CHAT] Error checking the exchanges to replace:", error);
+      return sendError(res, error, "Failed to resend message");
+    }
 
-      // SECURE: Send email, message, conversation history, and settings in encrypted POST body
-      const response = await fetch(fullUrl, {
-        method: "POST",
-        headers: {
-          'Content-Type': 'application/json',
-          ...(azureFunctionKey && { "x-functions-key": azureFunctionKey }),
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      console.log("[CHAT] Azure Function responded with status:", response.status);
-      console.log("[CHAT] Response Content-Type:", response.headers.get('content-type'));
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("[CHAT] Azure Function error response:", errorText);
-        throw new Error(`Azure Function error: ${response.status} - ${errorText}`);
-      }
+    console.log(`[CHAT] Resending a message as an alternative to ${replaceIds.length} exchange(s)`);
+    await answerChat(req, res, message, async (data, context) => {
+      const result = await recordReply(context, { input: message, parentId }, data);
+      if (!replyText(data) || result.persisted === false || result.exchangeId) return result;
 
-      // Check if response is streaming (SSE) or regular JSON
-      const contentType = response.headers.get('content-type') || '';
-      
-      if (contentType.includes('text/event-stream')) {
-        // Handle streaming response
-        console.log('[CHAT] Detected streaming response, reading full stream...');
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let fullText = '';
-        
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            fullText += decoder.decode(value, { stream: true });
-          }
-        }
-        
-        console.log('[CHAT] Full stream length:', fullText.length);
-        console.log('[CHAT] First 200 chars of stream:', fullText.substring(0, 200));
-        
-        // Try to extract JSON from SSE format (data: {...})
-        const lines = fullText.split('\n');
-        let jsonData = null;
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              jsonData = JSON.parse(line.substring(6));
-              if (jsonData.ok !== undefined || jsonData.ai || jsonData.reply) {
-                break; // Found the main response
-              }
-            } catch (e) {
-              // Not valid JSON, continue
-            }
-          }
-        }
-        
-        if (!jsonData) {
-          console.error('[CHAT] Failed to extract JSON from stream');
-          throw new Error('Could not parse streaming response from Azure Function');
-        }
-        
-        const data = jsonData;
-        // SECURITY: Only log success/failure, NOT message content or AI response
-        if (data.ok) {
-          console.log('[CHAT] Response received successfully from stream');
-        } else {
-          console.error('[CHAT] Azure Function returned error in stream:', data.error || data.message || 'No error message provided');
-        }
-        res.json(data);
-        return;
+      try {
+        await Promise.all(replaceIds.map((id) => storage.deleteExchange(context.owner, worldId, id)));
+      } catch (error) {
+        console.error("[CHAT] Failed to remove replaced exchanges:", error);
       }
+      return result;
+    });
+  });
+
+  // Extend a reply that was cut short (e.g. by maxTokens). The client sends
+  // the history up to and including that reply, which must be in the chat
+  // it's on; the continuation is appended to the stored exchange and
+  // returned on its own for the client to append.
+  app.post("/api/chat/continue", async (req, res) => {
+    const parsed = continueRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, parsed.error, "Invalid request");
+    }
+    const { messageId, worldSettings: { worldId } } = parsed.data;
+    // Without editing the stored reply the continuation would be kept as an
+    // exchange of its own, with the instruction as something the user said
+    if (!storage.editsReplies) {
+      return res.status(501).json({ ok: false, error: "Continuing replies needs STORAGE_BACKEND=postgres or memory" });
+    }
 
-      // Regular JSON response
-      const text = await response.text();
-      
-      console.log('[CHAT] Response text length:', text.length);
-      console.log('[CHAT] First 500 chars of response:', text.substring(0, 500));
-      
-      if (!text) {
-        console.log('[CHAT] Empty response from Azure Function');
-        throw new Error('Azure Function returned empty response');
+    try {
+      const { owner } = await worldAccess(req, worldId, "player");
+      const threadId = threadIdSchema.parse(req.body.threadId) ?? null;
+      if (!(await branchFrom(owner, worldId, threadId, messageId, messageId))) {
+        return res.status(404).json({ ok: false, error: "Message not found" });
       }
+    } catch (error) {
+      console.error("[CHAT] Error checking the reply to continue:", error);
+      return sendError(res, error, "Failed to continue reply");
+    }
 
-      const data = JSON.parse(text);
-      // SECURITY: Only log success/failure, NOT message content or AI response
-      if (data.ok) {
-        console.log('[CHAT] Response received successfully');
-      } else {
-        console.error('[CHAT] Azure Function returned error response:');
-        console.error('[CHAT] Error message:', data.error || data.message || 'No error message provided');
-        console.error('[CHAT] Full response keys:', Object.keys(data));
-        console.error('[CHAT] Full response (sanitized):', JSON.stringify(data, null, 2));
+    console.log("[CHAT] Continuing a reply");
+    await answerChat(req, res, CONTINUE_PROMPT, async (data, context) => {
+      const continuation = replyText(data);
+      if (!continuation) return data;
+
+      try {
+        if (await storage.appendToReply(context.owner, worldId, messageId, continuation)) {
+          extendMemoryInBackground(context.owner, worldId, context.threadId, messageId, continuation);
+          return { ...data, persisted: true };
+        }
+      } catch (error) {
+        console.error("[CHAT] Failed to extend reply:", error);
       }
-      res.json(data);
+      return { ...data, persisted: false };
+    }, false);
+  });
+
+  // Models offered by every configured LLM provider, grouped by provider
+  app.get("/api/models", async (_req, res) => {
+    try {
+      res.json(await getModelCatalog());
     } catch (error) {
-      console.error("Error calling Azure Function:", error);
-      res.status(500).json({ error: "Failed to process message" });
+      console.error("[MODELS] Error building model catalog:", error);
+      sendError(res, error, "Failed to load models");
     }
   });
 
   const httpServer = createServer(app);
+  worldRooms.attach(httpServer, sessionMiddleware);
 
   return httpServer;
 }
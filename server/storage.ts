@@ -1,25 +1,382 @@
-import { type User, type InsertUser, type World, type InsertWorld } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type World,
+  type InsertWorld,
+  type UserSettings,
+  type ChatThread,
+  type InsertChatThread,
+  type LoreEntry,
+  type InsertLoreEntry,
+  type SummarySource,
+  type WorldSummary,
+  type Memory,
+  type MemoryUpdate,
+  type WorldTemplate,
+  type InsertWorldTemplate,
+  type WorldRevision,
+  type WorldShare,
+  type InsertWorldShare,
+  type SharedWorld,
+} from "@shared/schema";
+import { matchesTerms } from "@shared/search";
 import { randomUUID } from "crypto";
+import { AzureStorage } from "./azureStorage";
+import { DbStorage } from "./dbStorage";
 
-// modify the interface with any CRUD methods
-// you might need
+// Storage for everything the API routes read and write on behalf of a
+// signed-in user. Every method takes the owner's email; a row owned by
+// someone else behaves as if it didn't exist.
+//
+// STORAGE_BACKEND picks the implementation:
+//   azure    (default) Azure Table Storage through the Azure Function
+//   postgres Drizzle tables in DATABASE_URL (see DbStorage)
+//   memory   in-process maps, lost on restart
 
-export interface IStorage {
+// A world as created; forks also record where they came from
+export type NewWorld = InsertWorld & { forkedFromId?: string | null };
+
+export type NewRevision = Omit<WorldRevision, "id" | "createdAt">;
+
+export type ChatExchange = {
+  id: string;
+  worldId: string | null; // null for the global chat
+  threadId: string | null; // null for the world's own chat
+  parentId: string | null; // the exchange this one follows, null for the first
+  speaker: string | null; // who sent the input in a world chat; null in the global chat and older chats
+  input: string;
+  aiReply: string;
+  createdAt: Date;
+};
+
+export type ExchangePage = {
+  items: ChatExchange[]; // oldest first
+  continuationToken: string | null; // pass back to get the previous (older) page
+};
+
+// World chats are trees: regenerating or editing an exchange adds a sibling
+// of it. An exchange on the selected branch carries the ids of its siblings
+// (itself included, oldest first) for "2/3" navigation.
+export type BranchExchange = ChatExchange & { siblingIds: string[] };
+
+export type BranchPage = {
+  items: BranchExchange[]; // root side first
+  continuationToken: string | null; // pass back to get the part of the branch above
+};
+
+export type BranchQuery = {
+  // The world's thread; null or omitted for the world's own chat
+  threadId?: string | null;
+  // The branch through this exchange; by default the one ending with the
+  // newest exchange
+  throughId?: string | null;
+  // Return the branch from this exchange down, all of it. Used to switch
+  // to a sibling without reloading the part above it.
+  fromId?: string | null;
+  take: number;
+  continuationToken?: string | null;
+};
+
+// Exchanges whose input or reply (or only the one `role` picks) contains
+// every term (see shared/search.ts)
+export type ExchangeSearch = {
+  terms: string[];
+  // One world's chats, or null for the global chat; all of the owner's
+  // chats when omitted
+  worldId?: string | null;
+  role?: "user" | "assistant";
+  from?: Date;
+  to?: Date;
+  take: number;
+  continuationToken?: string | null;
+};
+
+export type SearchPage = {
+  items: ChatExchange[]; // newest first
+  continuationToken: string | null; // pass back to get older matches
+};
+
+export type NewExchange = {
+  worldId: string | null;
+  threadId?: string | null;
+  parentId?: string | null;
+  speaker?: string | null;
+  input: string;
+  aiReply: string;
+  createdAt?: Date; // now, unless an import keeps the original time
+};
+
+export type StoredSummary = WorldSummary;
+
+// Folds exchanges into the previous summary (null for the first) and returns
+// the new one. Supplied by the route so storage doesn't need to know which
+// LLM provider a world uses.
+export type Summarizer = (exchanges: ChatExchange[], previous: string | null) => Promise<string>;
+
+export type SummaryOptions = {
+  source: SummarySource;
+  // Don't summarize until this many exchanges are waiting (automatic runs)
+  minExchanges?: number;
+};
+
+// Exchanges one summary takes in at most; a longer backlog is worked off
+// over several summaries
+export const SUMMARY_BATCH = 50;
+
+// Memories keep their embedding and the embedder that made it; the API
+// strips both before answering
+export type StoredMemory = Memory & { embedding: number[]; embeddingModel: string };
+
+export type NewMemory = Omit<StoredMemory, "id" | "pinned" | "createdAt" | "updatedAt"> & { pinned?: boolean };
+
+export type MemoryChanges = MemoryUpdate & {
+  embedding?: number[];
+  embeddingModel?: string;
+  exchangeId?: null; // detach an edited memory from its exchange
+};
+
+export interface IWorldStorage {
+  // Worlds
+  getWorld(owner: string, id: string): Promise<World | undefined>;
+  getWorldsByUser(owner: string, userId?: string): Promise<World[]>;
+  createWorld(owner: string, world: NewWorld): Promise<World>;
+  updateWorld(owner: string, id: string, updates: Partial<InsertWorld>): Promise<World | undefined>;
+  deleteWorld(owner: string, id: string): Promise<boolean>;
+
+  // Revisions of a world's settings, newest first. Azure has no table for
+  // them, so there they last as long as the server process.
+  getRevisions(owner: string, worldId: string): Promise<WorldRevision[]>;
+  // Returns undefined when the world doesn't exist
+  addRevision(owner: string, revision: NewRevision): Promise<WorldRevision | undefined>;
+
+  // Accounts a world is shared with, oldest first. Share emails are
+  // lowercase. Azure can't store shares: it lists none and refuses to share.
+  getShares(owner: string, worldId: string): Promise<WorldShare[]>;
+  // Sharing with an email that already has a share changes its role.
+  // Returns undefined when the world doesn't exist.
+  shareWorld(owner: string, worldId: string, share: InsertWorldShare): Promise<WorldShare | undefined>;
+  unshareWorld(owner: string, worldId: string, email: string): Promise<boolean>;
+  // Worlds shared with `email`, whoever owns them. Unlike every other
+  // method, these are keyed by the account the worlds are shared with.
+  getSharedWorlds(email: string): Promise<SharedWorld[]>;
+  getSharedWorld(email: string, worldId: string): Promise<SharedWorld | undefined>;
+
+  // Threads of a world, oldest first and archived ones included. Azure can't
+  // store threads: it lists none and refuses to create them.
+  getThreads(owner: string, worldId: string): Promise<ChatThread[]>;
+  getThread(owner: string, worldId: string, id: string): Promise<ChatThread | undefined>;
+  // Returns undefined when the world doesn't exist
+  createThread(owner: string, worldId: string, thread: InsertChatThread): Promise<ChatThread | undefined>;
+  updateThread(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertChatThread>,
+  ): Promise<ChatThread | undefined>;
+  // Its exchanges go with it
+  deleteThread(owner: string, worldId: string, id: string): Promise<boolean>;
+
+  // Lorebook entries of a world, oldest first. Azure has no lorebooks: it
+  // lists no entries and refuses to create them.
+  getLoreEntries(owner: string, worldId: string): Promise<LoreEntry[]>;
+  // Returns undefined when the world doesn't exist
+  createLoreEntry(owner: string, worldId: string, entry: InsertLoreEntry): Promise<LoreEntry | undefined>;
+  updateLoreEntry(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertLoreEntry>,
+  ): Promise<LoreEntry | undefined>;
+  deleteLoreEntry(owner: string, worldId: string, id: string): Promise<boolean>;
+
+  // Settings
+  getSettings(owner: string): Promise<Partial<UserSettings> | null>;
+  saveSettings(owner: string, settings: Partial<UserSettings>): Promise<void>;
+
+  // World templates the user saved, newest first. Azure has no table for
+  // them: it lists none and refuses to save them.
+  getTemplates(owner: string): Promise<WorldTemplate[]>;
+  createTemplate(owner: string, template: InsertWorldTemplate): Promise<WorldTemplate>;
+  deleteTemplate(owner: string, id: string): Promise<boolean>;
+
+  // Chat history. worldId null is the global chat.
+  getExchanges(
+    owner: string,
+    worldId: string | null,
+    options: { take: number; continuationToken?: string | null },
+  ): Promise<ExchangePage>;
+  // One branch of a world chat (the world's own or query.threadId). Azure
+  // keeps a flat list, so there every exchange is on the one branch and
+  // query.throughId/fromId are ignored.
+  getBranch(owner: string, worldId: string, query: BranchQuery): Promise<BranchPage>;
+  // Whether world chats are trees that keep an exchange's alternatives.
+  // Azure's are flat, so resending there deletes the exchanges it replaces.
+  readonly branching: boolean;
+  // Returns null when the backend doesn't record exchanges itself (Azure
+  // stores them as part of generating the reply), or when parentId isn't in
+  // the exchange's chat. Without a parentId the exchange follows the newest
+  // one of its chat.
+  recordExchange(owner: string, exchange: NewExchange): Promise<ChatExchange | null>;
+  // The exchange's replies move up to its parent, so its branch stays whole
+  deleteExchange(owner: string, worldId: string, id: string): Promise<boolean>;
+  // Extend a stored reply (the "continue" action). Returns false when the
+  // exchange doesn't exist or the backend can't edit stored replies (Azure).
+  appendToReply(owner: string, worldId: string, id: string, text: string): Promise<boolean>;
+  // Whether appendToReply can edit stored replies, i.e. the continue action
+  // is offered
+  readonly editsReplies: boolean;
+  // Matching exchanges, newest first. Azure has no search action, so there the
+  // chats are read and filtered on the server.
+  searchExchanges(owner: string, search: ExchangeSearch): Promise<SearchPage>;
+
+  // Summaries, oldest first. They cover the current branch of the world's
+  // own chat; threads aren't summarized.
+  getSummaries(owner: string, worldId: string): Promise<StoredSummary[]>;
+  // Summarize the exchanges since the last summary. Returns false when there
+  // was nothing new to summarize (or fewer than options.minExchanges).
+  createSummary(owner: string, worldId: string, summarize: Summarizer, options?: SummaryOptions): Promise<boolean>;
+  // Store `text` as a new version in place of summary `id`, covering the same
+  // exchanges. Azure summaries can't be edited.
+  reviseSummary(owner: string, worldId: string, id: string, text: string): Promise<StoredSummary | undefined>;
+  // Store a summary as given (imports). Returns undefined when the world
+  // doesn't exist or the backend can't (Azure).
+  addSummary(owner: string, worldId: string, summary: Omit<StoredSummary, "id">): Promise<StoredSummary | undefined>;
+
+  // Memories of one chat of a world (threadId null for the world's own),
+  // oldest first. A memory goes with its exchange unless it was detached.
+  // Azure can't store memories: it lists none and doesn't keep new ones.
+  getMemories(owner: string, worldId: string, threadId: string | null): Promise<StoredMemory[]>;
+  // Returns undefined when the world or thread doesn't exist
+  createMemory(owner: string, memory: NewMemory): Promise<StoredMemory | undefined>;
+  updateMemory(owner: string, worldId: string, id: string, changes: MemoryChanges): Promise<StoredMemory | undefined>;
+  deleteMemory(owner: string, worldId: string, id: string): Promise<boolean>;
+}
+
+// Accounts live in the Azure auth function; only the local backends keep users
+export interface IStorage extends IWorldStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  // World operations
-  getWorld(id: string): Promise<World | undefined>;
-  getWorldsByUser(userId: string): Promise<World[]>;
-  createWorld(world: InsertWorld): Promise<World>;
-  updateWorld(id: string, updates: Partial<World>): Promise<World | undefined>;
-  deleteWorld(id: string): Promise<boolean>;
 }
 
+// Continuation tokens for the local backends point just before the oldest
+// exchange of the previous page
+export function encodeCursor(exchange: ChatExchange): string {
+  return Buffer.from(`${exchange.createdAt.toISOString()}|${exchange.id}`).toString("base64url");
+}
+
+export function decodeCursor(token?: string | null): { createdAt: Date; id: string } | null {
+  if (!token) return null;
+  const [createdAt, id] = Buffer.from(token, "base64url").toString().split("|");
+  const date = new Date(createdAt);
+  if (!id || Number.isNaN(date.getTime())) return null;
+  return { createdAt: date, id };
+}
+
+// Exchanges are ordered by time, then id for ones created in the same millisecond
+export function compareExchanges(a: { createdAt: Date; id: string }, b: { createdAt: Date; id: string }) {
+  return a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+type TreeNode = { id: string; parentId: string | null; createdAt: Date };
+
+function childrenByParent<T extends TreeNode>(nodes: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>();
+  for (const node of [...nodes].sort(compareExchanges)) {
+    children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+  }
+  return children;
+}
+
+// The branch through `throughId` (or the newest exchange), root first. Below
+// it the branch follows the most recent activity: a reply is always newer
+// than what it follows, so the newest descendant is the end of the branch.
+function selectBranch<T extends TreeNode>(nodes: T[], throughId?: string | null): T[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const children = childrenByParent(nodes);
+
+  const start = throughId ? byId.get(throughId) : undefined;
+  let candidates = nodes;
+  if (start) {
+    candidates = [];
+    for (const queue = [start]; queue.length > 0;) {
+      const node = queue.pop()!;
+      candidates.push(node);
+      queue.push(...(children.get(node.id) ?? []));
+    }
+  }
+  let tip = candidates[0];
+  for (const node of candidates) {
+    if (compareExchanges(node, tip) > 0) tip = node;
+  }
+
+  const branch: T[] = [];
+  const seen = new Set<string>();
+  let node: T | undefined = tip;
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    branch.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return branch;
+}
+
+// Select and page a branch for the local backends. Continuation tokens are
+// the id of the first exchange of the previous page.
+export function branchPage<T extends TreeNode>(
+  nodes: T[],
+  { throughId, fromId, take, continuationToken }: BranchQuery,
+): { items: (T & { siblingIds: string[] })[]; continuationToken: string | null } {
+  const branch = selectBranch(nodes, fromId ?? throughId);
+  let start: number;
+  let end: number;
+  if (fromId) {
+    start = branch.findIndex((node) => node.id === fromId);
+    end = start < 0 ? 0 : branch.length;
+  } else {
+    end = continuationToken ? branch.findIndex((node) => node.id === continuationToken) : branch.length;
+    start = Math.max(0, end - take);
+  }
+  if (start < 0 || end <= 0) return { items: [], continuationToken: null };
+
+  const children = childrenByParent(nodes);
+  const items = branch.slice(start, end).map((node) => ({
+    ...node,
+    siblingIds: (children.get(node.parentId) ?? [node]).map((sibling) => sibling.id),
+  }));
+  return { items, continuationToken: !fromId && start > 0 ? branch[start].id : null };
+}
+
+// The exchanges a new summary takes in: those on the current branch of the
+// world's own chat that came after the last summary, oldest first
+export function pendingForSummary(branch: ChatExchange[], last: StoredSummary | undefined): ChatExchange[] {
+  const since = last?.toUtc ? new Date(last.toUtc).getTime() : 0;
+  return branch.filter((exchange) => exchange.createdAt.getTime() > since).slice(0, SUMMARY_BATCH);
+}
+
+type MemWorld = World & { ownerEmail: string };
+type MemThread = ChatThread & { ownerEmail: string };
+type MemLoreEntry = LoreEntry & { ownerEmail: string };
+type MemTemplate = WorldTemplate & { ownerEmail: string };
+type MemRevision = WorldRevision & { ownerEmail: string };
+type MemShare = WorldShare & { ownerEmail: string };
+type MemSummary = StoredSummary & { ownerEmail: string; worldId: string };
+type MemMemory = StoredMemory & { ownerEmail: string };
+
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
-  private worlds: Map<string, World>;
+  private worlds: Map<string, MemWorld>;
+  private threads: MemThread[] = [];
+  private loreEntries: MemLoreEntry[] = [];
+  private settings = new Map<string, Partial<UserSettings>>();
+  private templates: MemTemplate[] = [];
+  private revisions: MemRevision[] = [];
+  private shares: MemShare[] = [];
+  private exchanges: (ChatExchange & { ownerEmail: string })[] = [];
+  private summaries: MemSummary[] = [];
+  private memories: MemMemory[] = [];
+  readonly branching = true;
+  readonly editsReplies = true;
 
   constructor() {
     this.users = new Map();
@@ -43,39 +400,410 @@ export class MemStorage implements IStorage {
     return user;
   }
 
-  async getWorld(id: string): Promise<World | undefined> {
-    return this.worlds.get(id);
+  async getWorld(owner: string, id: string): Promise<World | undefined> {
+    const world = this.worlds.get(id);
+    return world?.ownerEmail === owner ? stripOwner(world) : undefined;
   }
 
-  async getWorldsByUser(userId: string): Promise<World[]> {
-    return Array.from(this.worlds.values()).filter(
-      (world) => world.userId === userId,
-    );
+  async getWorldsByUser(owner: string): Promise<World[]> {
+    return Array.from(this.worlds.values())
+      .filter((world) => world.ownerEmail === owner)
+      .map(stripOwner);
   }
 
-  async createWorld(insertWorld: InsertWorld): Promise<World> {
+  async createWorld(owner: string, { forkedFromId = null, ...insertWorld }: NewWorld): Promise<World> {
     const id = randomUUID();
-    const world: World = { 
-      ...insertWorld, 
+    const world: MemWorld = {
+      ...insertWorld,
+      forkedFromId,
       id,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      ownerEmail: owner,
     };
     this.worlds.set(id, world);
-    return world;
+    return stripOwner(world);
   }
 
-  async updateWorld(id: string, updates: Partial<World>): Promise<World | undefined> {
+  async updateWorld(owner: string, id: string, updates: Partial<InsertWorld>): Promise<World | undefined> {
     const world = this.worlds.get(id);
-    if (!world) return undefined;
-    
+    if (!world || world.ownerEmail !== owner) return undefined;
+
     const updatedWorld = { ...world, ...updates };
     this.worlds.set(id, updatedWorld);
-    return updatedWorld;
+    return stripOwner(updatedWorld);
   }
 
-  async deleteWorld(id: string): Promise<boolean> {
+  async deleteWorld(owner: string, id: string): Promise<boolean> {
+    if (this.worlds.get(id)?.ownerEmail !== owner) return false;
+    this.exchanges = this.exchanges.filter((exchange) => exchange.worldId !== id);
+    this.threads = this.threads.filter((thread) => thread.worldId !== id);
+    this.loreEntries = this.loreEntries.filter((entry) => entry.worldId !== id);
+    this.summaries = this.summaries.filter((summary) => summary.worldId !== id);
+    this.memories = this.memories.filter((memory) => memory.worldId !== id);
+    this.revisions = this.revisions.filter((revision) => revision.worldId !== id);
+    this.shares = this.shares.filter((share) => share.worldId !== id);
+    for (const world of Array.from(this.worlds.values())) {
+      if (world.forkedFromId === id) world.forkedFromId = null;
+    }
     return this.worlds.delete(id);
   }
+
+  async getRevisions(owner: string, worldId: string): Promise<WorldRevision[]> {
+    return this.revisions
+      .filter((revision) => revision.ownerEmail === owner && revision.worldId === worldId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(({ ownerEmail, ...revision }) => revision);
+  }
+
+  async addRevision(owner: string, newRevision: NewRevision): Promise<WorldRevision | undefined> {
+    if (this.worlds.get(newRevision.worldId)?.ownerEmail !== owner) return undefined;
+    const revision: MemRevision = { ...newRevision, id: randomUUID(), createdAt: Date.now(), ownerEmail: owner };
+    this.revisions.push(revision);
+    const { ownerEmail, ...result } = revision;
+    return result;
+  }
+
+  async getShares(owner: string, worldId: string): Promise<WorldShare[]> {
+    return this.shares
+      .filter((share) => share.ownerEmail === owner && share.worldId === worldId)
+      .map(({ ownerEmail, ...share }) => share);
+  }
+
+  async shareWorld(owner: string, worldId: string, { email, role }: InsertWorldShare): Promise<WorldShare | undefined> {
+    if (this.worlds.get(worldId)?.ownerEmail !== owner) return undefined;
+    let share = this.shares.find((other) => other.worldId === worldId && other.email === email);
+    if (share) {
+      share.role = role;
+    } else {
+      share = { id: randomUUID(), worldId, email, role, createdAt: Date.now(), ownerEmail: owner };
+      this.shares.push(share);
+    }
+    const { ownerEmail, ...result } = share;
+    return result;
+  }
+
+  async unshareWorld(owner: string, worldId: string, email: string): Promise<boolean> {
+    const share = this.shares.find((other) => other.ownerEmail === owner && other.worldId === worldId && other.email === email);
+    if (!share) return false;
+    this.shares = this.shares.filter((other) => other !== share);
+    return true;
+  }
+
+  async getSharedWorlds(email: string): Promise<SharedWorld[]> {
+    return this.shares
+      .filter((share) => share.email === email && this.worlds.has(share.worldId))
+      .map((share) => ({ ...stripOwner(this.worlds.get(share.worldId)!), ownerEmail: share.ownerEmail, role: share.role }));
+  }
+
+  async getSharedWorld(email: string, worldId: string): Promise<SharedWorld | undefined> {
+    return (await this.getSharedWorlds(email)).find((world) => world.id === worldId);
+  }
+
+  private findThread(owner: string, worldId: string, id: string): MemThread | undefined {
+    return this.threads.find((thread) => thread.id === id && thread.worldId === worldId && thread.ownerEmail === owner);
+  }
+
+  async getThreads(owner: string, worldId: string): Promise<ChatThread[]> {
+    return this.threads
+      .filter((thread) => thread.ownerEmail === owner && thread.worldId === worldId)
+      .map(({ ownerEmail, ...thread }) => thread);
+  }
+
+  async getThread(owner: string, worldId: string, id: string): Promise<ChatThread | undefined> {
+    const thread = this.findThread(owner, worldId, id);
+    if (!thread) return undefined;
+    const { ownerEmail, ...result } = thread;
+    return result;
+  }
+
+  async createThread(owner: string, worldId: string, insertThread: InsertChatThread): Promise<ChatThread | undefined> {
+    if (this.worlds.get(worldId)?.ownerEmail !== owner) return undefined;
+    const now = Date.now();
+    const thread: MemThread = { ...insertThread, id: randomUUID(), worldId, createdAt: now, updatedAt: now, ownerEmail: owner };
+    this.threads.push(thread);
+    const { ownerEmail, ...result } = thread;
+    return result;
+  }
+
+  async updateThread(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertChatThread>,
+  ): Promise<ChatThread | undefined> {
+    const thread = this.findThread(owner, worldId, id);
+    if (!thread) return undefined;
+    Object.assign(thread, updates, { updatedAt: Date.now() });
+    return this.getThread(owner, worldId, id);
+  }
+
+  async deleteThread(owner: string, worldId: string, id: string): Promise<boolean> {
+    const thread = this.findThread(owner, worldId, id);
+    if (!thread) return false;
+    this.threads = this.threads.filter((other) => other !== thread);
+    this.exchanges = this.exchanges.filter((exchange) => exchange.threadId !== id);
+    this.memories = this.memories.filter((memory) => memory.threadId !== id);
+    return true;
+  }
+
+  private findLoreEntry(owner: string, worldId: string, id: string): MemLoreEntry | undefined {
+    return this.loreEntries.find((entry) => entry.id === id && entry.worldId === worldId && entry.ownerEmail === owner);
+  }
+
+  async getLoreEntries(owner: string, worldId: string): Promise<LoreEntry[]> {
+    return this.loreEntries
+      .filter((entry) => entry.ownerEmail === owner && entry.worldId === worldId)
+      .map(({ ownerEmail, ...entry }) => entry);
+  }
+
+  async createLoreEntry(owner: string, worldId: string, insertEntry: InsertLoreEntry): Promise<LoreEntry | undefined> {
+    if (this.worlds.get(worldId)?.ownerEmail !== owner) return undefined;
+    const now = Date.now();
+    const entry: MemLoreEntry = { ...insertEntry, id: randomUUID(), worldId, createdAt: now, updatedAt: now, ownerEmail: owner };
+    this.loreEntries.push(entry);
+    const { ownerEmail, ...result } = entry;
+    return result;
+  }
+
+  async updateLoreEntry(
+    owner: string,
+    worldId: string,
+    id: string,
+    updates: Partial<InsertLoreEntry>,
+  ): Promise<LoreEntry | undefined> {
+    const entry = this.findLoreEntry(owner, worldId, id);
+    if (!entry) return undefined;
+    Object.assign(entry, updates, { updatedAt: Date.now() });
+    const { ownerEmail, ...result } = entry;
+    return result;
+  }
+
+  async deleteLoreEntry(owner: string, worldId: string, id: string): Promise<boolean> {
+    const entry = this.findLoreEntry(owner, worldId, id);
+    if (!entry) return false;
+    this.loreEntries = this.loreEntries.filter((other) => other !== entry);
+    return true;
+  }
+
+  async getSettings(owner: string): Promise<Partial<UserSettings> | null> {
+    return this.settings.get(owner) ?? null;
+  }
+
+  async saveSettings(owner: string, settings: Partial<UserSettings>): Promise<void> {
+    this.settings.set(owner, { ...this.settings.get(owner), ...settings, email: owner });
+  }
+
+  private findTemplate(owner: string, id: string): MemTemplate | undefined {
+    return this.templates.find((template) => template.id === id && template.ownerEmail === owner);
+  }
+
+  async getTemplates(owner: string): Promise<WorldTemplate[]> {
+    return this.templates
+      .filter((template) => template.ownerEmail === owner)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(({ ownerEmail, ...template }) => template);
+  }
+
+  async createTemplate(owner: string, insertTemplate: InsertWorldTemplate): Promise<WorldTemplate> {
+    const now = Date.now();
+    const template: MemTemplate = { ...insertTemplate, id: randomUUID(), createdAt: now, updatedAt: now, ownerEmail: owner };
+    this.templates.push(template);
+    const { ownerEmail, ...result } = template;
+    return result;
+  }
+
+  async deleteTemplate(owner: string, id: string): Promise<boolean> {
+    const template = this.findTemplate(owner, id);
+    if (!template) return false;
+    this.templates = this.templates.filter((other) => other !== template);
+    return true;
+  }
+
+  async getExchanges(
+    owner: string,
+    worldId: string | null,
+    { take, continuationToken }: { take: number; continuationToken?: string | null },
+  ): Promise<ExchangePage> {
+    const cursor = decodeCursor(continuationToken);
+    const matching = this.exchanges
+      .filter((exchange) => exchange.ownerEmail === owner && exchange.worldId === worldId)
+      .filter((exchange) => !cursor || compareExchanges(exchange, cursor) < 0)
+      .sort(compareExchanges);
+    // The page is the newest `take` before the cursor
+    const items = matching.slice(-take).map(({ ownerEmail, ...exchange }) => exchange);
+    const hasMore = matching.length > take;
+    return { items, continuationToken: hasMore && items.length > 0 ? encodeCursor(items[0]) : null };
+  }
+
+  async getBranch(owner: string, worldId: string, query: BranchQuery): Promise<BranchPage> {
+    const threadId = query.threadId ?? null;
+    const nodes = this.exchanges
+      .filter((exchange) => exchange.ownerEmail === owner && exchange.worldId === worldId && exchange.threadId === threadId)
+      .map(({ ownerEmail, ...exchange }) => exchange);
+    return branchPage(nodes, query);
+  }
+
+  async recordExchange(
+    owner: string,
+    { parentId, threadId = null, speaker = null, ...exchange }: NewExchange,
+  ): Promise<ChatExchange | null> {
+    if (exchange.worldId && this.worlds.get(exchange.worldId)?.ownerEmail !== owner) return null;
+    if (threadId && !(exchange.worldId && this.findThread(owner, exchange.worldId, threadId))) return null;
+
+    const chat = this.exchanges
+      .filter((other) => other.ownerEmail === owner && other.worldId === exchange.worldId && other.threadId === threadId)
+      .sort(compareExchanges);
+    let parent: string | null = null;
+    if (exchange.worldId && parentId !== null) {
+      if (parentId === undefined) parent = chat.at(-1)?.id ?? null;
+      else if (chat.some((other) => other.id === parentId)) parent = parentId;
+      else return null;
+    }
+
+    const stored = { ...exchange, threadId, speaker, parentId: parent, id: randomUUID(), createdAt: exchange.createdAt ?? new Date(), ownerEmail: owner };
+    this.exchanges.push(stored);
+    const { ownerEmail, ...result } = stored;
+    return result;
+  }
+
+  async deleteExchange(owner: string, worldId: string, id: string): Promise<boolean> {
+    const target = this.exchanges.find(
+      (exchange) => exchange.id === id && exchange.worldId === worldId && exchange.ownerEmail === owner,
+    );
+    if (!target) return false;
+    for (const exchange of this.exchanges) {
+      if (exchange.parentId === id) exchange.parentId = target.parentId;
+    }
+    this.exchanges = this.exchanges.filter((exchange) => exchange !== target);
+    this.memories = this.memories.filter((memory) => memory.exchangeId !== id);
+    return true;
+  }
+
+  async appendToReply(owner: string, worldId: string, id: string, text: string): Promise<boolean> {
+    const exchange = this.exchanges.find(
+      (exchange) => exchange.id === id && exchange.worldId === worldId && exchange.ownerEmail === owner,
+    );
+    if (!exchange) return false;
+    exchange.aiReply += text;
+    return true;
+  }
+
+  async searchExchanges(owner: string, { terms, worldId, role, from, to, take, continuationToken }: ExchangeSearch): Promise<SearchPage> {
+    const cursor = decodeCursor(continuationToken);
+    const matching = this.exchanges
+      .filter((exchange) => exchange.ownerEmail === owner && (worldId === undefined || exchange.worldId === worldId))
+      .filter((exchange) => (!from || exchange.createdAt >= from) && (!to || exchange.createdAt <= to))
+      .filter((exchange) => !cursor || compareExchanges(exchange, cursor) < 0)
+      .filter((exchange) =>
+        (role !== "assistant" && matchesTerms(exchange.input, terms)) ||
+        (role !== "user" && matchesTerms(exchange.aiReply, terms)),
+      )
+      .sort((a, b) => compareExchanges(b, a));
+    const items = matching.slice(0, take).map(({ ownerEmail, ...exchange }) => exchange);
+    const hasMore = matching.length > take;
+    return { items, continuationToken: hasMore ? encodeCursor(items[items.length - 1]) : null };
+  }
+
+  async getSummaries(owner: string, worldId: string): Promise<StoredSummary[]> {
+    return this.summaries
+      .filter((summary) => summary.ownerEmail === owner && summary.worldId === worldId)
+      .map(({ ownerEmail, worldId, ...summary }) => summary);
+  }
+
+  async createSummary(
+    owner: string,
+    worldId: string,
+    summarize: Summarizer,
+    { source, minExchanges = 1 }: SummaryOptions = { source: "manual" },
+  ): Promise<boolean> {
+    if (this.worlds.get(worldId)?.ownerEmail !== owner) return false;
+    const last = (await this.getSummaries(owner, worldId)).at(-1);
+    const { items } = await this.getBranch(owner, worldId, { take: Number.MAX_SAFE_INTEGER });
+    const pending = pendingForSummary(items, last);
+    if (pending.length === 0 || pending.length < minExchanges) return false;
+
+    const summary = await summarize(pending, last?.summary ?? null);
+    this.summaries.push({
+      ownerEmail: owner,
+      worldId,
+      id: randomUUID(),
+      fromUtc: pending[0].createdAt.toISOString(),
+      toUtc: pending[pending.length - 1].createdAt.toISOString(),
+      createdUtc: new Date().toISOString(),
+      summary,
+      source,
+    });
+    return true;
+  }
+
+  async reviseSummary(owner: string, worldId: string, id: string, text: string): Promise<StoredSummary | undefined> {
+    const original = this.summaries.find((summary) => summary.id === id && summary.worldId === worldId && summary.ownerEmail === owner);
+    if (!original) return undefined;
+    const revision: MemSummary = { ...original, id: randomUUID(), createdUtc: new Date().toISOString(), summary: text, source: "edited" };
+    this.summaries.push(revision);
+    return (await this.getSummaries(owner, worldId)).at(-1);
+  }
+
+  async addSummary(owner: string, worldId: string, summary: Omit<StoredSummary, "id">): Promise<StoredSummary | undefined> {
+    if (this.worlds.get(worldId)?.ownerEmail !== owner) return undefined;
+    this.summaries.push({ ...summary, createdUtc: summary.createdUtc ?? new Date().toISOString(), id: randomUUID(), ownerEmail: owner, worldId });
+    return (await this.getSummaries(owner, worldId)).at(-1);
+  }
+
+  private findMemory(owner: string, worldId: string, id: string): MemMemory | undefined {
+    return this.memories.find((memory) => memory.id === id && memory.worldId === worldId && memory.ownerEmail === owner);
+  }
+
+  async getMemories(owner: string, worldId: string, threadId: string | null): Promise<StoredMemory[]> {
+    return this.memories
+      .filter((memory) => memory.ownerEmail === owner && memory.worldId === worldId && memory.threadId === threadId)
+      .map(({ ownerEmail, ...memory }) => memory);
+  }
+
+  async createMemory(owner: string, { pinned = false, ...newMemory }: NewMemory): Promise<StoredMemory | undefined> {
+    if (this.worlds.get(newMemory.worldId)?.ownerEmail !== owner) return undefined;
+    if (newMemory.threadId && !this.findThread(owner, newMemory.worldId, newMemory.threadId)) return undefined;
+    const now = Date.now();
+    const memory: MemMemory = { ...newMemory, pinned, id: randomUUID(), createdAt: now, updatedAt: now, ownerEmail: owner };
+    this.memories.push(memory);
+    const { ownerEmail, ...result } = memory;
+    return result;
+  }
+
+  async updateMemory(owner: string, worldId: string, id: string, changes: MemoryChanges): Promise<StoredMemory | undefined> {
+    const memory = this.findMemory(owner, worldId, id);
+    if (!memory) return undefined;
+    Object.assign(memory, changes, { updatedAt: Date.now() });
+    const { ownerEmail, ...result } = memory;
+    return result;
+  }
+
+  async deleteMemory(owner: string, worldId: string, id: string): Promise<boolean> {
+    const memory = this.findMemory(owner, worldId, id);
+    if (!memory) return false;
+    this.memories = this.memories.filter((other) => other !== memory);
+    return true;
+  }
+}
+
+function stripOwner({ ownerEmail, ...world }: MemWorld): World {
+  return world;
+}
+
+function createStorage(): IWorldStorage {
+  const backend = process.env.STORAGE_BACKEND || "azure";
+  switch (backend) {
+    case "postgres":
+      console.log("[STORAGE] Using Postgres");
+      return DbStorage.fromEnv();
+    case "memory":
+      console.log("[STORAGE] Using in-memory storage (data is lost on restart)");
+      return new MemStorage();
+    case "azure":
+      return new AzureStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected azure, postgres or memory)`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IWorldStorage = createStorage();
@@ -0,0 +1,69 @@
+import type { Response } from "express";
+import type { World, WorldShare } from "@shared/schema";
+import { formatServerSentEvent } from "@shared/sse";
+import type { SyncEvent } from "@shared/sync";
+import { storage } from "./storage";
+import { shareEmail } from "./worldAccess";
+
+// The sync streams of signed-in users (see shared/sync.ts), by email. Routes
+// publish what changed for a user; every tab and device they have open gets
+// it.
+
+// A comment line this often keeps proxies from closing an idle stream
+const KEEPALIVE_MS = 25000;
+
+class UserSync {
+  // Emails are compared the way shares store them, since shared worlds are
+  // published to the share's email
+  private streams = new Map<string, Set<Response>>();
+
+  // Stream the user's events to `res` until the browser goes away
+  subscribe(email: string, res: Response) {
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const key = shareEmail(email);
+    const streams = this.streams.get(key) ?? new Set<Response>();
+    this.streams.set(key, streams.add(res));
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_MS);
+
+    res.on("close", () => {
+      clearInterval(keepalive);
+      streams.delete(res);
+      if (streams.size === 0 && this.streams.get(key) === streams) this.streams.delete(key);
+    });
+  }
+
+  publish(email: string, event: SyncEvent) {
+    this.streams.get(shareEmail(email))?.forEach((res) => res.write(formatServerSentEvent(event.type, event)));
+  }
+
+  // A world was created or changed: to its owner, and to everyone it is
+  // shared with, as they see it. Runs after the route answers; a failure to
+  // look the shares up is only logged.
+  publishWorld(owner: string, world: World) {
+    this.publish(owner, { type: "world", world });
+    storage
+      .getShares(owner, world.id)
+      .then((shares) => {
+        for (const share of shares) {
+          this.publish(share.email, { type: "world", world: { ...world, ownerEmail: owner, role: share.role } });
+        }
+      })
+      .catch((error) => console.error("[SYNC] Failed to publish a shared world:", error));
+  }
+
+  // Shares go with a deleted world, so the route reads them first
+  publishWorldDeleted(owner: string, worldId: string, shares: WorldShare[]) {
+    for (const email of [owner, ...shares.map((share) => share.email)]) {
+      this.publish(email, { type: "worldDeleted", worldId });
+    }
+  }
+}
+
+export const userSync = new UserSync();
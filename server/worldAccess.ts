@@ -0,0 +1,58 @@
+import type { Request } from "express";
+import type { World } from "@shared/schema";
+import { allows, type WorldAccessLevel } from "@shared/worldRoles";
+import { getSessionUser } from "./auth";
+import { storage } from "./storage";
+
+// Who may do what in a world. World routes look the world up through here
+// rather than by the session's email, so worlds shared with the user work
+// too; `owner` is the email the world's rows are stored under and what the
+// storage calls take.
+
+export type WorldAccess = {
+  email: string; // the signed-in user
+  owner: string;
+  role: WorldAccessLevel;
+  world: World;
+};
+
+// A world the user can't see (404) or may not do this in (403)
+export class WorldAccessError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "WorldAccessError";
+  }
+}
+
+// Shares are stored under lowercase emails; session emails keep the case
+// they were typed in
+export function shareEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// The signed-in user's access to a world, if it allows at least `needed`.
+// Throws WorldAccessError otherwise.
+export async function worldAccess(req: Request, worldId: string, needed: WorldAccessLevel): Promise<WorldAccess> {
+  const { email } = getSessionUser(req);
+  let access: WorldAccess | undefined;
+
+  const owned = await storage.getWorld(email, worldId);
+  if (owned) {
+    access = { email, owner: email, role: "owner", world: owned };
+  } else {
+    const shared = await storage.getSharedWorld(shareEmail(email), worldId);
+    if (shared) {
+      const { ownerEmail, role, ...world } = shared;
+      access = { email, owner: ownerEmail, role, world };
+    }
+  }
+
+  if (!access) throw new WorldAccessError("World not found", 404);
+  if (!allows(access.role, needed)) {
+    throw new WorldAccessError(`Your role in this world (${access.role}) doesn't allow this`, 403);
+  }
+  return access;
+}
@@ -0,0 +1,213 @@
+import {
+  WORLD_BUNDLE_FORMAT,
+  WORLD_BUNDLE_VERSION,
+  type World,
+  type WorldBundle,
+} from "@shared/schema";
+import { AzureFunctionError } from "./azure";
+import { storage, type ChatExchange } from "./storage";
+
+// World export and import (see worldBundleSchema). Import creates a new
+// world owned by the caller; parts the storage backend can't hold (Azure
+// has no lorebooks, threads or imported history) are left out and reported.
+// A fork is a world exported and imported straight back.
+
+export type ExportOptions = { history: boolean; summaries: boolean };
+
+export type BundlePart = "lore" | "threads" | "history" | "summaries";
+
+export type ForkOptions = {
+  name: string;
+  history: boolean; // copy the chats, threads and summaries
+  // Copy only the branch ending with this exchange of the world's own chat
+  // (or of threadId), as the fork's own chat
+  throughId?: string | null;
+  threadId?: string | null;
+};
+
+export type ImportResult = {
+  world: World;
+  skipped: BundlePart[]; // parts of the file the backend couldn't store
+};
+
+// Azure pages world history; fetch it all
+const EXPORT_PAGE_SIZE = 500;
+
+async function allExchanges(owner: string, worldId: string): Promise<ChatExchange[]> {
+  const exchanges: ChatExchange[] = [];
+  let continuationToken: string | null = null;
+  do {
+    const page = await storage.getExchanges(owner, worldId, { take: EXPORT_PAGE_SIZE, continuationToken });
+    exchanges.unshift(...page.items);
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+  return exchanges;
+}
+
+// Returns undefined when the world doesn't exist
+export async function exportWorld(owner: string, worldId: string, options: ExportOptions): Promise<WorldBundle | undefined> {
+  const found = await storage.getWorld(owner, worldId);
+  if (!found) return undefined;
+  const { id, userId, forkedFromId, createdAt, ...world } = found;
+
+  const bundle: WorldBundle = {
+    format: WORLD_BUNDLE_FORMAT,
+    version: WORLD_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    world,
+    lore: (await storage.getLoreEntries(owner, worldId)).map(({ id, worldId, createdAt, updatedAt, ...entry }) => entry),
+    threads: [],
+  };
+  if (options.history) {
+    bundle.threads = (await storage.getThreads(owner, worldId)).map(({ id, title, archived }) => ({ id, title, archived }));
+    const exchanges = await allExchanges(owner, worldId);
+    // Azure keeps a world chat flat: no parent links, yet every exchange is
+    // on its one branch. Link each to the one before so it imports the same.
+    const main = exchanges.filter((exchange) => !exchange.threadId);
+    if (main.length > 1 && main.every((exchange) => !exchange.parentId)) {
+      const { items } = await storage.getBranch(owner, worldId, { take: main.length });
+      if (items.length === main.length) {
+        main.forEach((exchange, index) => {
+          if (index > 0) exchange.parentId = main[index - 1].id;
+        });
+      }
+    }
+    bundle.history = exchanges.map((exchange) => ({
+      id: exchange.id,
+      threadId: exchange.threadId,
+      parentId: exchange.parentId,
+      speaker: exchange.speaker,
+      input: exchange.input,
+      aiReply: exchange.aiReply,
+      createdAt: exchange.createdAt.toISOString(),
+    }));
+  }
+  if (options.summaries) {
+    bundle.summaries = (await storage.getSummaries(owner, worldId))
+      .filter((summary) => summary.summary)
+      .map(({ id, summary, ...rest }) => ({ ...rest, summary: summary! }));
+  }
+  return bundle;
+}
+
+// Azure answers 501 for what it can't store
+function isUnsupported(error: unknown): boolean {
+  return error instanceof AzureFunctionError && error.status === 501;
+}
+
+// Create a world from a validated bundle. If storing fails part way the new
+// world is deleted again, so a failed import leaves nothing behind.
+export async function importWorld(
+  owner: string,
+  userId: string,
+  bundle: WorldBundle,
+  forkedFromId: string | null = null,
+): Promise<ImportResult> {
+  const world = await storage.createWorld(owner, { ...bundle.world, userId, forkedFromId });
+  const skipped = new Set<BundlePart>();
+  try {
+    for (const entry of bundle.lore) {
+      try {
+        await storage.createLoreEntry(owner, world.id, entry);
+      } catch (error) {
+        if (!isUnsupported(error)) throw error;
+        skipped.add("lore");
+        break;
+      }
+    }
+
+    const threadIds = new Map<string, string>();
+    for (const { id, ...thread } of bundle.threads) {
+      try {
+        const created = await storage.createThread(owner, world.id, thread);
+        if (created) threadIds.set(id, created.id);
+      } catch (error) {
+        if (!isUnsupported(error)) throw error;
+        skipped.add("threads");
+        break;
+      }
+    }
+
+    // Oldest first, so every exchange's parent is stored before it
+    const exchangeIds = new Map<string, string>();
+    const history = [...(bundle.history ?? [])].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    for (const exchange of history) {
+      if (exchange.threadId && !threadIds.has(exchange.threadId)) continue;
+      const recorded = await storage.recordExchange(owner, {
+        worldId: world.id,
+        threadId: exchange.threadId ? threadIds.get(exchange.threadId) : null,
+        parentId: exchange.parentId ? (exchangeIds.get(exchange.parentId) ?? null) : null,
+        speaker: exchange.speaker,
+        input: exchange.input,
+        aiReply: exchange.aiReply,
+        createdAt: new Date(exchange.createdAt),
+      });
+      if (!recorded) {
+        skipped.add("history");
+        break;
+      }
+      exchangeIds.set(exchange.id, recorded.id);
+    }
+
+    for (const summary of bundle.summaries ?? []) {
+      if (!(await storage.addSummary(owner, world.id, summary))) {
+        skipped.add("summaries");
+        break;
+      }
+    }
+  } catch (error) {
+    await storage.deleteWorld(owner, world.id).catch(() => {});
+    throw error;
+  }
+  return { world, skipped: Array.from(skipped) };
+}
+
+// The branch of a chat that ends with `throughId`, root first; undefined when
+// that exchange isn't in the chat
+async function branchThrough(
+  owner: string,
+  worldId: string,
+  threadId: string | null,
+  throughId: string,
+): Promise<ChatExchange[] | undefined> {
+  const branch: ChatExchange[] = [];
+  let continuationToken: string | null = null;
+  do {
+    const page = await storage.getBranch(owner, worldId, { threadId, throughId, take: EXPORT_PAGE_SIZE, continuationToken });
+    branch.unshift(...page.items);
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+  // Azure ignores throughId and returns its whole chat
+  const end = branch.findIndex((exchange) => exchange.id === throughId);
+  return end < 0 ? undefined : branch.slice(0, end + 1);
+}
+
+// Copy a world under a new name. Returns undefined when the world (or the
+// exchange to fork at) doesn't exist.
+export async function forkWorld(
+  owner: string,
+  userId: string,
+  worldId: string,
+  options: ForkOptions,
+): Promise<ImportResult | undefined> {
+  const wholeHistory = options.history && !options.throughId;
+  const bundle = await exportWorld(owner, worldId, { history: wholeHistory, summaries: wholeHistory });
+  if (!bundle) return undefined;
+  bundle.world.name = options.name;
+
+  if (options.throughId) {
+    const branch = await branchThrough(owner, worldId, options.threadId ?? null, options.throughId);
+    if (!branch) return undefined;
+    // A branch is a straight line, however the backend links it
+    bundle.history = branch.map((exchange, index) => ({
+      id: exchange.id,
+      threadId: null,
+      parentId: index > 0 ? branch[index - 1].id : null,
+      speaker: exchange.speaker,
+      input: exchange.input,
+      aiReply: exchange.aiReply,
+      createdAt: exchange.createdAt.toISOString(),
+    }));
+  }
+  return importWorld(owner, userId, bundle, worldId);
+}
@@ -0,0 +1,90 @@
+import {
+  REVISION_FIELDS,
+  type InsertWorld,
+  type RevisionField,
+  type World,
+  type WorldChanges,
+  type WorldRevision,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// World updates and their revisions (see worldRevisionSchema). Routes update
+// worlds through here so every change is recorded with its author.
+
+export type RevisedWorld = {
+  world: World;
+  revision: WorldRevision | null; // null when the update changed nothing
+};
+
+// Character sheets are lists, so values compare by their JSON
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The fields `updates` changes, with their old and new values
+export function diffWorld(world: World, updates: Partial<InsertWorld>): WorldChanges {
+  const changes: WorldChanges = {};
+  for (const field of REVISION_FIELDS) {
+    if (updates[field] === undefined || sameValue(world[field], updates[field])) continue;
+    changes[field] = { from: world[field], to: updates[field] };
+  }
+  return changes;
+}
+
+// Update a world and record what changed. `rolledBackId` marks the update as
+// the rollback of that revision. Returns undefined when the world doesn't
+// exist.
+export async function updateWorldWithRevision(
+  owner: string,
+  author: string,
+  worldId: string,
+  updates: Partial<InsertWorld>,
+  rolledBackId: string | null = null,
+): Promise<RevisedWorld | undefined> {
+  const current = await storage.getWorld(owner, worldId);
+  if (!current) return undefined;
+  const world = await storage.updateWorld(owner, worldId, updates);
+  if (!world) return undefined;
+
+  const changes = diffWorld(current, updates);
+  if (Object.keys(changes).length === 0) return { world, revision: null };
+  const revision = await storage.addRevision(owner, {
+    worldId,
+    author,
+    source: rolledBackId ? "rollback" : "edit",
+    rolledBackId,
+    changes,
+  });
+  return { world, revision: revision ?? null };
+}
+
+// The values the world had before revision `revisionId`: the changes from
+// that revision on, undone newest first. `revisions` are newest first.
+// Returns undefined when the revision isn't in the list.
+export function valuesBefore(revisions: WorldRevision[], revisionId: string): Partial<InsertWorld> | undefined {
+  const index = revisions.findIndex((revision) => revision.id === revisionId);
+  if (index < 0) return undefined;
+  const values: Partial<Record<RevisionField, unknown>> = {};
+  for (const revision of revisions.slice(0, index + 1)) {
+    for (const [field, change] of Object.entries(revision.changes)) {
+      values[field as RevisionField] = change!.from;
+    }
+  }
+  return values as Partial<InsertWorld>;
+}
+
+// Fields whose stored value isn't what the latest revision touching them
+// wrote. Azure's editworld sometimes answers OK without saving; this is how
+// that shows up.
+export function driftedFields(world: World, revisions: WorldRevision[]): RevisionField[] {
+  const checked = new Set<string>();
+  const drifted: RevisionField[] = [];
+  for (const revision of revisions) {
+    for (const [field, change] of Object.entries(revision.changes)) {
+      if (checked.has(field)) continue;
+      checked.add(field);
+      if (!sameValue(world[field as RevisionField], change!.to)) drifted.push(field as RevisionField);
+    }
+  }
+  return drifted;
+}
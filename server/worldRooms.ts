@@ -0,0 +1,163 @@
+import { createHmac, randomBytes } from "crypto";
+import { STATUS_CODES, type IncomingMessage, type Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { allows } from "@shared/worldRoles";
+import {
+  ROOM_CLOSE_CODES,
+  WORLD_ROOM_PATH,
+  worldRoomMessageSchema,
+  type RoomMember,
+  type WorldRoomEvent,
+} from "@shared/worldRoom";
+import { shareEmail, worldAccess, WorldAccessError } from "./worldAccess";
+
+// Live rooms of worlds (see shared/worldRoom.ts). A browser joins the room of
+// a world it has open by upgrading WORLD_ROOM_PATH/<worldId> with its session
+// cookie; the routes announce what happens in the world through `worldRooms`.
+// Viewers watch; players and up may also send typing indicators.
+
+// A connection that doesn't answer a ping by the next one is dropped
+const PING_INTERVAL_MS = 30000;
+
+// Keys the member ids, so they can't be traced back to an email
+const MEMBER_ID_KEY = randomBytes(32);
+
+type RoomClient = {
+  socket: WebSocket;
+  email: string;
+  member: RoomMember;
+  alive: boolean;
+};
+
+// The id a person has in every room, instead of their email
+export function roomMemberId(email: string): string {
+  return createHmac("sha256", MEMBER_ID_KEY).update(shareEmail(email)).digest("base64url").slice(0, 16);
+}
+
+// The world of a room URL; undefined for other URLs
+function roomWorldId(url = ""): string | undefined {
+  const { pathname } = new URL(url, "http://localhost");
+  if (!pathname.startsWith(`${WORLD_ROOM_PATH}/`)) return undefined;
+  try {
+    return decodeURIComponent(pathname.slice(WORLD_ROOM_PATH.length + 1));
+  } catch {
+    return "";
+  }
+}
+
+function refuse(socket: Duplex, status: number) {
+  socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+}
+
+class WorldRooms {
+  private rooms = new Map<string, Set<RoomClient>>();
+  private server = new WebSocketServer({ noServer: true });
+
+  // Take the WebSocket upgrades to WORLD_ROOM_PATH. Others (Vite's HMR in
+  // development) are left to their own listeners.
+  attach(httpServer: Server, sessionMiddleware: RequestHandler) {
+    httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const worldId = roomWorldId(req.url);
+      if (worldId === undefined) return;
+      this.admit(req, sessionMiddleware, worldId)
+        .then((member) => this.server.handleUpgrade(req, socket, head, (ws) => this.join(worldId, member, ws)))
+        .catch((error) => {
+          if (!(error instanceof WorldAccessError)) console.error("[ROOMS] Failed to admit a connection:", error);
+          refuse(socket, error instanceof WorldAccessError ? error.status : 500);
+        });
+    });
+
+    const timer = setInterval(() => this.ping(), PING_INTERVAL_MS);
+    httpServer.on("close", () => clearInterval(timer));
+  }
+
+  // Send an event to everyone in a world's room, but `except`
+  broadcast(worldId: string, event: WorldRoomEvent, except?: WebSocket) {
+    const room = this.rooms.get(worldId);
+    if (!room) return;
+    const data = JSON.stringify(event);
+    room.forEach(({ socket }) => {
+      if (socket !== except && socket.readyState === WebSocket.OPEN) socket.send(data);
+    });
+  }
+
+  // Disconnect everyone from a deleted world's room, or one person whose
+  // access to it changed (their client reconnects with the new role, if any)
+  close(worldId: string, email?: string) {
+    const code = email ? ROOM_CLOSE_CODES.accessChanged : ROOM_CLOSE_CODES.worldDeleted;
+    this.rooms.get(worldId)?.forEach((client) => {
+      if (!email || shareEmail(client.email) === shareEmail(email)) client.socket.close(code);
+    });
+  }
+
+  // The session user, if they may watch the world. The session middleware
+  // runs on the upgrade request as it would on a route.
+  private async admit(req: IncomingMessage, sessionMiddleware: RequestHandler, worldId: string) {
+    const request = req as Request;
+    await new Promise<void>((resolve, reject) => {
+      sessionMiddleware(request, {} as Response, (error?: unknown) => (error ? reject(error) : resolve()));
+    });
+    const user = request.session?.user;
+    if (!user) throw new WorldAccessError("Not signed in", 401);
+    const { role } = await worldAccess(request, worldId, "viewer");
+    const member: RoomMember = { id: roomMemberId(user.email), name: user.name || user.email.split("@")[0], role };
+    return { email: user.email, member };
+  }
+
+  private join(worldId: string, { email, member }: { email: string; member: RoomMember }, socket: WebSocket) {
+    const client: RoomClient = { socket, email, member, alive: true };
+    const room = this.rooms.get(worldId) ?? new Set<RoomClient>();
+    this.rooms.set(worldId, room.add(client));
+
+    socket.on("pong", () => {
+      client.alive = true;
+    });
+    socket.on("message", (data) => this.receive(worldId, client, data.toString()));
+    socket.on("error", (error) => console.error("[ROOMS] Connection error:", error));
+    socket.on("close", () => {
+      room.delete(client);
+      if (room.size > 0) return this.sendPresence(worldId);
+      if (this.rooms.get(worldId) === room) this.rooms.delete(worldId);
+    });
+
+    console.log(`[ROOMS] Connection joined a room (${room.size} connected)`);
+    socket.send(JSON.stringify({ type: "welcome", id: member.id } satisfies WorldRoomEvent));
+    this.sendPresence(worldId);
+  }
+
+  // Typing indicators are the only thing clients send. Anything else is
+  // ignored.
+  private receive(worldId: string, client: RoomClient, data: string) {
+    let parsed;
+    try {
+      parsed = worldRoomMessageSchema.safeParse(JSON.parse(data));
+    } catch {
+      return;
+    }
+    if (!parsed.success || !allows(client.member.role, "player")) return;
+    const { id, name } = client.member;
+    const { threadId, typing } = parsed.data;
+    this.broadcast(worldId, { type: "typing", id, name, threadId, typing }, client.socket);
+  }
+
+  // Everyone in the room, once however many tabs they have open
+  private sendPresence(worldId: string) {
+    const members = new Map<string, RoomMember>();
+    this.rooms.get(worldId)?.forEach(({ member }) => members.set(member.id, member));
+    this.broadcast(worldId, { type: "presence", members: Array.from(members.values()) });
+  }
+
+  private ping() {
+    this.rooms.forEach((room) =>
+      room.forEach((client) => {
+        if (!client.alive) return client.socket.terminate();
+        client.alive = false;
+        client.socket.ping();
+      }),
+    );
+  }
+}
+
+export const worldRooms = new WorldRooms();
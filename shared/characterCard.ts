@@ -0,0 +1,382 @@
+import type { z } from "zod";
+import type { Character, LoreEntry, World, worldBundleSchema } from "./schema";
+
+// Community character cards (TavernAI / SillyTavern "Character Card V2",
+// https://github.com/malfoyslastname/character-card-spec-v2). A card is one
+// character as JSON, or a PNG image carrying that JSON base64-encoded in a
+// tEXt chunk named "chara" (V3 cards add a "ccv3" chunk of the same shape).
+// Cards map onto worlds both ways; this runs in the browser, which reads
+// and writes the files.
+
+export type CardBookEntry = {
+  keys?: string[];
+  content?: string;
+  enabled?: boolean;
+  insertion_order?: number;
+  name?: string;
+  comment?: string;
+  constant?: boolean;
+  [field: string]: unknown;
+};
+
+export type CharacterCardData = {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  character_book?: { name?: string; entries: CardBookEntry[]; [field: string]: unknown };
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, unknown>;
+};
+
+export type CharacterCardV2 = {
+  spec: "chara_card_v2";
+  spec_version: "2.0";
+  data: CharacterCardData;
+};
+
+type WorldBundleInput = z.input<typeof worldBundleSchema>;
+
+// ---------- PNG chunks ----------
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks that carry a card, preferred first
+const CARD_CHUNKS = ["ccv3", "chara"];
+
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+const latin1 = new TextDecoder("latin1");
+const utf8 = new TextDecoder();
+
+type PngChunk = { type: string; data: Uint8Array; start: number; end: number };
+
+function pngChunks(bytes: Uint8Array): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = PNG_SIGNATURE.length; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length), start: offset, end });
+    if (type === "IEND") break;
+    offset = end;
+  }
+  return chunks;
+}
+
+// Keyword and text of a tEXt chunk, or of an uncompressed iTXt chunk
+function textChunk({ type, data }: PngChunk): [string, string] | null {
+  const separator = data.indexOf(0);
+  if (separator < 0) return null;
+  const keyword = latin1.decode(data.subarray(0, separator));
+  if (type === "tEXt") return [keyword, latin1.decode(data.subarray(separator + 1))];
+  if (type === "iTXt" && data[separator + 1] === 0) {
+    // compression flag and method, then language and translated keyword
+    let start = data.indexOf(0, separator + 3);
+    start = start < 0 ? -1 : data.indexOf(0, start + 1);
+    return start < 0 ? null : [keyword, utf8.decode(data.subarray(start + 1))];
+  }
+  return null;
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text.trim());
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// The card JSON embedded in a PNG, parsed; null when there is none
+export function readCardFromPng(bytes: Uint8Array): unknown {
+  if (!isPng(bytes)) return null;
+  const texts = new Map<string, string>();
+  for (const chunk of pngChunks(bytes)) {
+    const text = chunk.type === "tEXt" || chunk.type === "iTXt" ? textChunk(chunk) : null;
+    if (text) texts.set(text[0].toLowerCase(), text[1]);
+  }
+  for (const keyword of CARD_CHUNKS) {
+    const text = texts.get(keyword);
+    if (!text) continue;
+    try {
+      return JSON.parse(utf8.decode(fromBase64(text)));
+    } catch {
+      // Try the next chunk
+    }
+  }
+  return null;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encodeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+// A copy of the PNG carrying `card` in its "chara" chunk, replacing any card
+// it held
+export function writeCardToPng(bytes: Uint8Array, card: CharacterCardV2): Uint8Array {
+  if (!isPng(bytes)) throw new Error("Not a PNG image");
+  const payload = toBase64(new TextEncoder().encode(JSON.stringify(card)));
+  const text = Uint8Array.from(`chara\0${payload}`, (char) => char.charCodeAt(0));
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of pngChunks(bytes)) {
+    const keyword = chunk.type === "tEXt" || chunk.type === "iTXt" ? textChunk(chunk)?.[0].toLowerCase() : undefined;
+    if (keyword && CARD_CHUNKS.includes(keyword)) continue;
+    if (chunk.type === "IEND") parts.push(encodeChunk("tEXt", text));
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+  }
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// ---------- Cards and worlds ----------
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function texts(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+// The card data of a V2/V3 card or an old V1 card (the fields at the top
+// level); null when `value` isn't a card
+export function parseCharacterCard(value: unknown): CharacterCardData | null {
+  if (!value || typeof value !== "object") return null;
+  const card = value as Record<string, unknown>;
+  const isSpec = card.spec === "chara_card_v2" || card.spec === "chara_card_v3";
+  const data = (isSpec ? card.data : card) as Record<string, unknown> | undefined;
+  if (!data || typeof data !== "object" || !text(data.name).trim()) return null;
+  if (!isSpec && !("first_mes" in data || "description" in data)) return null;
+
+  const book = data.character_book as CharacterCardData["character_book"] | undefined;
+  return {
+    name: text(data.name).trim(),
+    description: text(data.description),
+    personality: text(data.personality),
+    scenario: text(data.scenario),
+    first_mes: text(data.first_mes),
+    mes_example: text(data.mes_example),
+    creator_notes: text(data.creator_notes),
+    system_prompt: text(data.system_prompt),
+    post_history_instructions: text(data.post_history_instructions),
+    alternate_greetings: texts(data.alternate_greetings),
+    character_book: book && Array.isArray(book.entries) ? book : undefined,
+    tags: texts(data.tags),
+    creator: text(data.creator),
+    character_version: text(data.character_version),
+    extensions: (data.extensions as Record<string, unknown>) ?? {},
+  };
+}
+
+// Headings of the card fields a world keeps in `additionalSettings`
+const SECTIONS = {
+  firstMessage: "First message",
+  alternateGreeting: "Alternate greeting",
+  exampleDialogue: "Example dialogue",
+  alwaysOn: "Always-on lore",
+} as const;
+
+const SECTION_HEADING = new RegExp(`^(${Object.values(SECTIONS).join("|")}):$`);
+
+// Cards write {{char}} and {{user}} (or <BOT> and <USER>) for the names,
+// which our prompts don't expand
+function fillNames(value: string, name: string): string {
+  return value.replace(/\{\{char\}\}|<BOT>/gi, name).replace(/\{\{user\}\}|<USER>/gi, "User");
+}
+
+// Limits of the world fields a card fills (see worldSchema and friends)
+const LIMITS = { name: 100, description: 500, field: 10000, loreTitle: 200, loreContent: 50000 };
+
+// A world bundle made from a card, to validate and import like an exported
+// world. `clipped` lists the fields cut to fit the world's limits.
+export function cardToBundle(card: CharacterCardData, avatarUrl = ""): { bundle: WorldBundleInput; clipped: string[] } {
+  const clipped: string[] = [];
+  const clip = (field: string, value: string, max: number) => {
+    if (value.length <= max) return value;
+    clipped.push(field);
+    return value.slice(0, max);
+  };
+  const fill = (value: string) => fillNames(value, card.name).trim();
+
+  const sections: string[] = [];
+  if (card.first_mes.trim()) sections.push(`${SECTIONS.firstMessage}:\n${fill(card.first_mes)}`);
+  for (const greeting of card.alternate_greetings.filter((greeting) => greeting.trim())) {
+    sections.push(`${SECTIONS.alternateGreeting}:\n${fill(greeting)}`);
+  }
+  if (card.mes_example.trim()) sections.push(`${SECTIONS.exampleDialogue}:\n${fill(card.mes_example)}`);
+
+  // Entries without keys (or marked constant) apply to every message, so
+  // they become part of the world's settings instead of the lorebook
+  const lore: NonNullable<WorldBundleInput["lore"]> = [];
+  for (const entry of card.character_book?.entries ?? []) {
+    const keywords = texts(entry.keys).map((key) => key.trim()).filter(Boolean);
+    const content = fill(text(entry.content));
+    if (entry.constant || keywords.length === 0) {
+      if (content && entry.enabled !== false) sections.push(`${SECTIONS.alwaysOn}:\n${content}`);
+      continue;
+    }
+    lore.push({
+      title: clip("lore.title", text(entry.name) || text(entry.comment) || keywords[0], LIMITS.loreTitle),
+      keywords: keywords.slice(0, 50),
+      content: clip("lore.content", content, LIMITS.loreContent),
+      priority: Math.min(1000, Math.max(0, Math.round(Number(entry.insertion_order) || 100))),
+      enabled: entry.enabled !== false,
+    });
+  }
+
+  const character: Partial<Character> = {
+    id: crypto.randomUUID(),
+    name: clip("characters.name", card.name, LIMITS.name),
+    personality: clip(
+      "characters.personality",
+      [fill(card.description), card.personality.trim() && `Personality: ${fill(card.personality)}`].filter(Boolean).join("\n\n"),
+      LIMITS.field,
+    ),
+    avatarUrl,
+  };
+  const instructions = [fill(card.system_prompt), fill(card.post_history_instructions)].filter(Boolean).join("\n\n");
+
+  return {
+    bundle: {
+      format: "world-bundle",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      world: {
+        name: clip("world.name", card.name, LIMITS.name),
+        description: clip("world.description", card.creator_notes.trim(), LIMITS.description),
+        customPersonality: clip("world.customPersonality", instructions, LIMITS.field),
+        characters: [character],
+        scenario: clip("world.scenario", fill(card.scenario), LIMITS.field),
+        additionalSettings: clip("world.additionalSettings", sections.join("\n\n"), LIMITS.field),
+      },
+      lore,
+    },
+    clipped: Array.from(new Set(clipped)),
+  };
+}
+
+// Split `additionalSettings` back into the card sections cardToBundle wrote
+// and whatever else the world keeps there
+function readSections(settings: string): { heading: string; body: string }[] {
+  const sections: { heading: string; lines: string[] }[] = [{ heading: "", lines: [] }];
+  for (const line of settings.split("\n")) {
+    const heading = line.trim().match(SECTION_HEADING)?.[1];
+    if (heading) sections.push({ heading, lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+  return sections
+    .map(({ heading, lines }) => ({ heading, body: lines.join("\n").trim() }))
+    .filter(({ body }) => body);
+}
+
+function sheetText(character: Character): string {
+  const fields: [string, string][] = [
+    ["Role", character.role],
+    ["Appearance", character.appearance],
+    ["Speech style", character.speechStyle],
+    ["Relationships", character.relationships],
+    ["Secrets", character.secrets],
+  ];
+  return [character.personality.trim(), ...fields.filter(([, value]) => value.trim()).map(([label, value]) => `${label}: ${value.trim()}`)]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// A V2 card of a world: its first character names the card, the cast goes
+// into the description, the world's context into the scenario and its
+// lorebook into the character book
+export function worldToCard(world: World, lore: LoreEntry[]): CharacterCardV2 {
+  const [lead] = world.characters;
+  const description = world.characters.length === 1
+    ? sheetText(lead)
+    : world.characters.map((character) => `## ${character.name}\n${sheetText(character)}`).join("\n\n");
+
+  const sections = readSections(world.additionalSettings);
+  const bodies = (heading: string) => sections.filter((section) => section.heading === heading).map(({ body }) => body);
+  const scenario = [
+    world.scenario.trim(),
+    world.places.trim() && `Places:\n${world.places.trim()}`,
+    world.events.trim() && `Events:\n${world.events.trim()}`,
+    ...sections
+      .filter(({ heading }) => heading === "" || heading === SECTIONS.alwaysOn)
+      .map(({ heading, body }) => (heading ? `${heading}:\n${body}` : body)),
+  ].filter(Boolean).join("\n\n");
+
+  return {
+    spec: "chara_card_v2",
+    spec_version: "2.0",
+    data: {
+      name: lead?.name ?? world.name,
+      description,
+      personality: "",
+      scenario,
+      first_mes: bodies(SECTIONS.firstMessage)[0] ?? "",
+      mes_example: bodies(SECTIONS.exampleDialogue).join("\n"),
+      creator_notes: world.description,
+      system_prompt: world.customPersonality,
+      post_history_instructions: "",
+      alternate_greetings: bodies(SECTIONS.alternateGreeting),
+      character_book: lore.length === 0 ? undefined : {
+        name: world.name,
+        entries: lore.map((entry, index) => ({
+          id: index,
+          keys: entry.keywords,
+          content: entry.content,
+          enabled: entry.enabled,
+          insertion_order: entry.priority,
+          name: entry.title,
+          comment: entry.title,
+          constant: false,
+          selective: false,
+          case_sensitive: false,
+          extensions: {},
+        })),
+        extensions: {},
+      },
+      tags: [],
+      creator: "",
+      character_version: "",
+      extensions: {},
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+// Exporting a chat (GET /api/chat/export): the global chat, or a world's own
+// chat or one of its threads, as a file to keep.
+
+export const CHAT_EXPORT_FORMATS = ["markdown", "html", "pdf", "json"] as const;
+
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+const queryFlag = z.enum(["true", "false"]).default("false").transform((value) => value === "true");
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const chatExportQuerySchema = z.object({
+  format: z.enum(CHAT_EXPORT_FORMATS),
+  // The world's chat; the global chat when omitted
+  worldId: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  // The world's settings and story summary before the messages
+  context: queryFlag,
+  timestamps: queryFlag,
+  // Timestamps are written in the user's time zone (the server's by default)
+  timeZone: z.string().max(100).refine(isTimeZone, "Unknown time zone").optional(),
+});
+
+export type ChatExportQuery = z.infer<typeof chatExportQuerySchema>;
+
+// MM/DD/YYYY hh:MM AM, the way the chat shows message times. In the local
+// time zone unless one is given.
+export function formatTimestamp(date: Date, timeZone?: string): string {
+  const parts: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: true,
+  });
+  for (const part of format.formatToParts(date)) parts[part.type] = part.value;
+  return `${parts.month}/${parts.day}/${parts.year} ${parts.hour}:${parts.minute} ${parts.dayPeriod?.toUpperCase()}`;
+}
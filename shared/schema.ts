@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { boolean, index, integer, jsonb, pgTable, real, text, timestamp, uniqueIndex, varchar, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,17 +17,52 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Model ids come from the provider-reported catalog (GET /api/models). A bare
+// id belongs to the deployment's default provider; other providers' models
+// are prefixed, e.g. "openai:gpt-4o-mini" or "local:llama3.1".
+export const modelIdSchema = z.string().min(1).max(200);
+
+export type ModelInfo = {
+  id: string;
+  label: string;
+  description?: string;
+};
+
+export type ProviderCatalog = {
+  id: string;
+  label: string;
+  models: ModelInfo[];
+  error?: string;
+};
+
+export type ModelCatalogResponse = {
+  ok: boolean;
+  defaultProvider: string;
+  providers: ProviderCatalog[];
+};
+
+// How /api/chat spent the model's context window on a reply, in estimated
+// tokens. Returned with every chat response as `contextBudget`.
+export type ContextBudget = {
+  model: string | null;
+  contextWindow: number;
+  reserved: number; // kept free for the reply
+  system: number; // instructions, styles and personality
+  world: number; // scenario, characters, places, events, additional settings
+  lore: number;
+  summary: number;
+  memory: number; // recalled memories
+  history: number;
+  message: number;
+  total: number;
+  historyMessages: number; // sent to the model
+  droppedMessages: number; // oldest ones left out to fit
+  truncated: string[]; // world fields shortened to fit
+};
+
 export const userSettingsSchema = z.object({
   email: z.string().email(),
-  model: z.enum([
-    "gpt-5-nano",
-    "gpt-4o-mini", 
-    "gpt-5-mini",
-    "gpt-5",
-    "gpt-4o",
-    "gpt-4.5",
-    "o1-pro"
-  ]).default("gpt-4o-mini"),
+  model: modelIdSchema.default("gpt-4o-mini"),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().min(100).max(4000).default(2000),
   responseStyle: z.enum(["concise", "balanced", "detailed", "comprehensive", "bullet-points", "step-by-step", "narrative", "dramatic", "immersive", "action-packed"]).default("balanced"),
@@ -37,35 +72,439 @@ export const userSettingsSchema = z.object({
 
 export type UserSettings = z.infer<typeof userSettingsSchema>;
 
+// Character sheets of a world. The server serializes them into the model's
+// context (server/llm/characters.ts); the avatar is only shown in the UI.
+export const characterSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().trim().min(1).max(100),
+  role: z.string().max(200).default(""),
+  appearance: z.string().max(10000).default(""),
+  personality: z.string().max(10000).default(""),
+  speechStyle: z.string().max(10000).default(""),
+  relationships: z.string().max(10000).default(""),
+  secrets: z.string().max(10000).default(""),
+  // An http(s) URL, or an uploaded image as a data URL (resized in the browser)
+  avatarUrl: z
+    .string()
+    .max(100_000)
+    .regex(/^(https?:\/\/|data:image\/(png|jpeg|gif|webp);base64,)/, "Avatar must be an image URL")
+    .or(z.literal(""))
+    .default(""),
+});
+
+export type Character = z.infer<typeof characterSchema>;
+
+// A world's cast used to be one free-text field, and Azure still stores the
+// list as text. Text that isn't a JSON list becomes a single sheet holding
+// it, so nothing is lost.
+function parseCharacters(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (!text) return [];
+  if (text.startsWith("[")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Free text that happens to start with a bracket
+    }
+  }
+  return [{ id: "legacy", name: "Characters", personality: text }];
+}
+
+export const characterListSchema = z.preprocess(parseCharacters, z.array(characterSchema).max(100));
+
 // World schema - separate chat contexts with their own AI settings
 export const worldSchema = z.object({
   id: z.string(),
   userId: z.string(),
   name: z.string().min(1).max(100),
   description: z.string().max(500).default(""),
-  model: z.enum([
-    "gpt-5-nano",
-    "gpt-4o-mini", 
-    "gpt-5-mini",
-    "gpt-5",
-    "gpt-4o",
-    "gpt-4.5",
-    "o1-pro"
-  ]).default("gpt-4o-mini"),
+  model: modelIdSchema.default("gpt-4o-mini"),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().min(100).max(4000).default(2000),
   responseStyle: z.enum(["concise", "balanced", "detailed", "comprehensive", "bullet-points", "step-by-step", "narrative", "dramatic", "immersive", "action-packed"]).default("balanced"),
   conversationStyle: z.enum(["professional", "casual", "friendly", "technical", "enthusiastic", "witty", "empathetic", "academic", "socratic", "playful", "adventurous", "sarcastic", "flirtatious", "mysterious", "dramatic", "comedic", "edgy"]).default("friendly"),
   customPersonality: z.string().max(10000).default(""),
-  characters: z.string().max(10000).default(""),
+  characters: characterListSchema.default([]),
   events: z.string().max(10000).default(""),
   scenario: z.string().max(10000).default(""),
   places: z.string().max(10000).default(""),
   additionalSettings: z.string().max(10000).default(""),
+  // The world this one was duplicated from (POST /api/worlds/:id/fork); null
+  // for a new world, or once the original is deleted
+  forkedFromId: z.string().nullable().default(null),
   createdAt: z.number().default(() => Date.now()),
 });
 
-export const insertWorldSchema = worldSchema.omit({ id: true, createdAt: true });
+export const insertWorldSchema = worldSchema.omit({ id: true, forkedFromId: true, createdAt: true });
 
 export type World = z.infer<typeof worldSchema>;
 export type InsertWorld = z.infer<typeof insertWorldSchema>;
+
+// Every world update is kept as a revision: who made it, when, and each
+// changed field's value before and after. Rolling back to before a revision
+// is itself a new revision.
+export const REVISION_FIELDS = Object.keys(insertWorldSchema.omit({ userId: true }).shape) as RevisionField[];
+
+export type RevisionField = Exclude<keyof InsertWorld, "userId">;
+
+export type WorldChanges = Partial<Record<RevisionField, { from: unknown; to: unknown }>>;
+
+export const worldRevisionSchema = z.object({
+  id: z.string(),
+  worldId: z.string(),
+  author: z.string(), // email of whoever saved it
+  source: z.enum(["edit", "rollback"]),
+  rolledBackId: z.string().nullable(), // for rollbacks, the revision undone
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+  createdAt: z.number(),
+});
+
+export type WorldRevision = Omit<z.infer<typeof worldRevisionSchema>, "changes"> & { changes: WorldChanges };
+
+// Sharing a world with other accounts, by email. Viewers read its settings
+// and chats, players also chat in it, editors also change its settings,
+// lorebook, threads, memories and summaries. Deleting, sharing, exporting,
+// duplicating and saving as a template stay with the owner.
+export const WORLD_ROLES = ["viewer", "player", "editor"] as const;
+
+export const worldRoleSchema = z.enum(WORLD_ROLES);
+
+export const worldShareSchema = z.object({
+  id: z.string(),
+  worldId: z.string(),
+  email: z.string().trim().toLowerCase().email().max(254), // who it's shared with
+  role: worldRoleSchema,
+  createdAt: z.number(),
+});
+
+export const insertWorldShareSchema = worldShareSchema.pick({ email: true, role: true });
+
+export type WorldRole = z.infer<typeof worldRoleSchema>;
+export type WorldShare = z.infer<typeof worldShareSchema>;
+export type InsertWorldShare = z.infer<typeof insertWorldShareSchema>;
+
+// A world someone shared with the signed-in user, with their role in it
+export type SharedWorld = World & { ownerEmail: string; role: WorldRole };
+
+// Threads are separate chats inside a world: they share the world's settings
+// and context fields, only the history is their own. The world's original
+// chat isn't a thread (threadId null) and always exists.
+export const chatThreadSchema = z.object({
+  id: z.string(),
+  worldId: z.string(),
+  title: z.string().trim().min(1).max(100),
+  archived: z.boolean().default(false),
+  createdAt: z.number().default(() => Date.now()),
+  updatedAt: z.number().default(() => Date.now()),
+});
+
+export const insertChatThreadSchema = chatThreadSchema.pick({ title: true, archived: true });
+
+export type ChatThread = z.infer<typeof chatThreadSchema>;
+export type InsertChatThread = z.infer<typeof insertChatThreadSchema>;
+
+// A keyword written as /pattern/flags is a regular expression; anything else
+// matches as a whole word, ignoring case
+export const REGEX_KEYWORD = /^\/(.+)\/([a-z]*)$/;
+
+// Lore keywords run against chat text on the server with RE2, which matches
+// in linear time and so has no lookarounds or backreferences: (?=, (?!,
+// (?<=, (?<!, \1 to \9 and \k<name>, unless their first character is escaped
+const RE2_UNSUPPORTED = /(?:^|[^\\])(?:\\\\)*(?:\(\?<?[=!]|\\[1-9]|\\k<)/;
+
+function keywordError(keyword: string): string | null {
+  const regex = keyword.match(REGEX_KEYWORD);
+  if (!regex) return null;
+  if (RE2_UNSUPPORTED.test(regex[1])) return `Keyword ${keyword} uses lookarounds or backreferences, which aren't supported`;
+  try {
+    new RegExp(regex[1], regex[2]);
+    return null;
+  } catch {
+    return `Keyword ${keyword} is not a valid regular expression`;
+  }
+}
+
+// Lorebook entries of a world. The server injects an entry into the prompt
+// only when one of its keywords shows up in the recent messages; higher
+// priority entries go first, and each is cut to its token budget.
+export const loreEntrySchema = z.object({
+  id: z.string(),
+  worldId: z.string(),
+  title: z.string().trim().min(1).max(200),
+  keywords: z
+    .array(z.string().trim().min(1).max(200).superRefine((keyword, ctx) => {
+      const error = keywordError(keyword);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }))
+    .max(50)
+    .default([]),
+  content: z.string().max(50000).default(""),
+  priority: z.number().int().min(0).max(1000).default(100),
+  tokenBudget: z.number().int().min(16).max(8000).default(400),
+  enabled: z.boolean().default(true),
+  createdAt: z.number().default(() => Date.now()),
+  updatedAt: z.number().default(() => Date.now()),
+});
+
+export const insertLoreEntrySchema = loreEntrySchema.omit({ id: true, worldId: true, createdAt: true, updatedAt: true });
+
+export type LoreEntry = z.infer<typeof loreEntrySchema>;
+export type InsertLoreEntry = z.infer<typeof insertLoreEntrySchema>;
+
+// Summaries of a world's story, oldest first. Each one rewrites the previous
+// into an account of everything so far, so the newest is the one the chat
+// uses. Editing a summary adds a new version instead of changing it.
+export type SummarySource = "auto" | "manual" | "edited";
+
+export type WorldSummary = {
+  id: string;
+  fromUtc: string | null; // first and last exchange it took in
+  toUtc: string | null;
+  createdUtc: string | null;
+  summary: string | null;
+  source: SummarySource;
+};
+
+// Long-term memories of a chat: every exchange is stored with an embedding,
+// and the ones closest to a new message are recalled into the prompt. Pinned
+// memories are always recalled. threadId is null for the world's own chat;
+// exchangeId is null once the memory no longer mirrors its exchange.
+export const memorySchema = z.object({
+  id: z.string(),
+  worldId: z.string(),
+  threadId: z.string().nullable(),
+  exchangeId: z.string().nullable(),
+  text: z.string().trim().min(1).max(10000),
+  pinned: z.boolean().default(false),
+  createdAt: z.number().default(() => Date.now()),
+  updatedAt: z.number().default(() => Date.now()),
+});
+
+export const memoryUpdateSchema = memorySchema.pick({ text: true, pinned: true }).partial();
+
+export type Memory = z.infer<typeof memorySchema>;
+export type MemoryUpdate = z.infer<typeof memoryUpdateSchema>;
+
+// A world as a portable JSON file, for backups and moving worlds between
+// accounts. Chat history (with the world's threads) and summaries are
+// optional; memories aren't included. Ids only link items inside the file,
+// importing creates everything anew. Bump the version when the shape
+// changes and keep reading the old one.
+export const WORLD_BUNDLE_FORMAT = "world-bundle";
+export const WORLD_BUNDLE_VERSION = 1;
+
+const bundleThreadSchema = chatThreadSchema.pick({ id: true, title: true, archived: true });
+
+const bundleExchangeSchema = z.object({
+  id: z.string().min(1),
+  threadId: z.string().min(1).nullable().default(null),
+  parentId: z.string().min(1).nullable().default(null),
+  speaker: z.string().max(200).nullable().default(null),
+  input: z.string(),
+  aiReply: z.string(),
+  createdAt: z.string().datetime({ offset: true }),
+});
+
+const bundleSummarySchema = z.object({
+  fromUtc: z.string().datetime({ offset: true }).nullable(),
+  toUtc: z.string().datetime({ offset: true }).nullable(),
+  createdUtc: z.string().datetime({ offset: true }).nullable(),
+  summary: z.string().min(1),
+  source: z.enum(["auto", "manual", "edited"]).default("manual"),
+});
+
+export const worldBundleSchema = z.object({
+  format: z.literal(WORLD_BUNDLE_FORMAT, {
+    errorMap: () => ({ message: `Not a world bundle (expected format "${WORLD_BUNDLE_FORMAT}")` }),
+  }),
+  version: z.literal(WORLD_BUNDLE_VERSION, {
+    errorMap: () => ({ message: `Unsupported bundle version (this app reads version ${WORLD_BUNDLE_VERSION})` }),
+  }),
+  exportedAt: z.string().datetime({ offset: true }),
+  world: insertWorldSchema.omit({ userId: true }),
+  lore: z.array(insertLoreEntrySchema).max(1000).default([]),
+  threads: z.array(bundleThreadSchema).max(1000).default([]),
+  history: z.array(bundleExchangeSchema).optional(),
+  summaries: z.array(bundleSummarySchema).optional(),
+}).superRefine((bundle, ctx) => {
+  const threadIds = new Set(bundle.threads.map((thread) => thread.id));
+  bundle.history?.forEach((exchange, index) => {
+    if (exchange.threadId && !threadIds.has(exchange.threadId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["history", index, "threadId"], message: "Unknown thread" });
+    }
+  });
+});
+
+export type WorldBundle = z.infer<typeof worldBundleSchema>;
+
+// World templates pre-fill the create form with a world's settings and
+// context, all but its name. Built-in templates ship with the client
+// (client/src/lib/worldTemplates.ts); users save their own from a world.
+export const templateWorldSchema = insertWorldSchema.omit({ userId: true, name: true });
+
+export const worldTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).default(""),
+  world: templateWorldSchema,
+  createdAt: z.number().default(() => Date.now()),
+  updatedAt: z.number().default(() => Date.now()),
+});
+
+export const insertWorldTemplateSchema = worldTemplateSchema.pick({ name: true, description: true, world: true });
+
+export type TemplateWorld = z.infer<typeof templateWorldSchema>;
+export type WorldTemplate = z.infer<typeof worldTemplateSchema>;
+export type InsertWorldTemplate = z.infer<typeof insertWorldTemplateSchema>;
+
+// ---------- Postgres tables (STORAGE_BACKEND=postgres) ----------
+// Rows are owned by the signed-in user's email, the same key Azure Table
+// Storage partitions on.
+
+export const userSettingsTable = pgTable("user_settings", {
+  email: text("email").primaryKey(),
+  model: text("model").notNull().default("gpt-4o-mini"),
+  temperature: real("temperature").notNull().default(0.7),
+  maxTokens: integer("max_tokens").notNull().default(2000),
+  responseStyle: text("response_style").notNull().default("balanced"),
+  conversationStyle: text("conversation_style").notNull().default("friendly"),
+  customPersonality: text("custom_personality").notNull().default(""),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const worldsTable = pgTable("worlds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  userId: text("user_id").notNull().default(""),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  model: text("model").notNull().default("gpt-4o-mini"),
+  temperature: real("temperature").notNull().default(0.7),
+  maxTokens: integer("max_tokens").notNull().default(2000),
+  responseStyle: text("response_style").notNull().default("balanced"),
+  conversationStyle: text("conversation_style").notNull().default("friendly"),
+  customPersonality: text("custom_personality").notNull().default(""),
+  characters: jsonb("characters").$type<Character[]>().notNull().default([]),
+  events: text("events").notNull().default(""),
+  scenario: text("scenario").notNull().default(""),
+  places: text("places").notNull().default(""),
+  additionalSettings: text("additional_settings").notNull().default(""),
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => worldsTable.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("worlds_owner_idx").on(table.ownerEmail)]);
+
+export const worldThreadsTable = pgTable("world_threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  archived: boolean("archived").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("world_threads_world_idx").on(table.worldId)]);
+
+export const loreEntriesTable = pgTable("lore_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  keywords: jsonb("keywords").$type<string[]>().notNull().default([]),
+  content: text("content").notNull().default(""),
+  priority: integer("priority").notNull().default(100),
+  tokenBudget: integer("token_budget").notNull().default(400),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("lore_entries_world_idx").on(table.worldId)]);
+
+// One row per exchange (user input + AI reply), like Azure's world chat
+// items. A null world_id is the global chat; a null thread_id is the world's
+// own chat. Exchanges of a chat form a tree: parent_id is the exchange it
+// follows (null for the first one), and regenerated or edited exchanges are
+// siblings. speaker is the name of whoever sent the input in a world chat.
+export const worldMessagesTable = pgTable("world_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").references(() => worldsTable.id, { onDelete: "cascade" }),
+  threadId: varchar("thread_id").references(() => worldThreadsTable.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => worldMessagesTable.id, { onDelete: "set null" }),
+  speaker: text("speaker"),
+  input: text("input").notNull(),
+  aiReply: text("ai_reply").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("world_messages_owner_world_created_idx").on(table.ownerEmail, table.worldId, table.createdAt),
+  index("world_messages_parent_idx").on(table.parentId),
+  index("world_messages_thread_idx").on(table.threadId),
+]);
+
+export const worldSummariesTable = pgTable("world_summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  fromUtc: timestamp("from_utc", { withTimezone: true }),
+  toUtc: timestamp("to_utc", { withTimezone: true }),
+  summary: text("summary").notNull(),
+  source: text("source").$type<SummarySource>().notNull().default("manual"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("world_summaries_world_idx").on(table.worldId)]);
+
+export const worldMemoriesTable = pgTable("world_memories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  threadId: varchar("thread_id").references(() => worldThreadsTable.id, { onDelete: "cascade" }),
+  exchangeId: varchar("exchange_id").references(() => worldMessagesTable.id, { onDelete: "cascade" }),
+  text: text("text").notNull(),
+  pinned: boolean("pinned").notNull().default(false),
+  embedding: jsonb("embedding").$type<number[]>().notNull(),
+  embeddingModel: text("embedding_model").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("world_memories_world_idx").on(table.worldId)]);
+
+export const worldRevisionsTable = pgTable("world_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  author: text("author").notNull(),
+  source: text("source").$type<WorldRevision["source"]>().notNull().default("edit"),
+  rolledBackId: varchar("rolled_back_id"),
+  changes: jsonb("changes").$type<WorldChanges>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("world_revisions_world_idx").on(table.worldId, table.createdAt)]);
+
+// One row per account a world is shared with; `email` is that account's
+export const worldSharesTable = pgTable("world_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  worldId: varchar("world_id").notNull().references(() => worldsTable.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").$type<WorldRole>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("world_shares_world_email_idx").on(table.worldId, table.email),
+  index("world_shares_email_idx").on(table.email),
+]);
+
+export const worldTemplatesTable = pgTable("world_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerEmail: text("owner_email").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  world: jsonb("world").$type<TemplateWorld>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("world_templates_owner_idx").on(table.ownerEmail)]);
+
+export type WorldRow = typeof worldsTable.$inferSelect;
+export type WorldThreadRow = typeof worldThreadsTable.$inferSelect;
+export type LoreEntryRow = typeof loreEntriesTable.$inferSelect;
+export type WorldMessage = typeof worldMessagesTable.$inferSelect;
+export type WorldSummaryRow = typeof worldSummariesTable.$inferSelect;
+export type WorldMemoryRow = typeof worldMemoriesTable.$inferSelect;
+export type WorldTemplateRow = typeof worldTemplatesTable.$inferSelect;
+export type WorldRevisionRow = typeof worldRevisionsTable.$inferSelect;
+export type WorldShareRow = typeof worldSharesTable.$inferSelect;
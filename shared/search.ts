@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Searching the user's chat histories (POST /api/search). A hit is one
+// exchange, with a snippet of each side that matched.
+
+export const searchRequestSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  // A world's chats (all of its threads); null for the global chat only.
+  // Omitted searches the global chat, the user's worlds and the worlds
+  // shared with them.
+  worldId: z.string().min(1).nullable().optional(),
+  // Match only what was said to the AI, or only its replies
+  role: z.enum(["user", "assistant"]).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  take: z.number().int().min(1).max(50).default(20),
+  continuationToken: z.string().nullish(),
+});
+
+export type SearchRequest = z.input<typeof searchRequestSchema>;
+
+// Text around a match; highlights are [start, end) offsets into `text`
+export type SearchSnippet = {
+  role: "user" | "assistant";
+  text: string;
+  highlights: [number, number][];
+};
+
+export type SearchHit = {
+  id: string; // the exchange
+  worldId: string | null;
+  worldName: string | null;
+  threadId: string | null;
+  threadTitle: string | null;
+  speaker: string | null;
+  createdUtc: string;
+  snippets: SearchSnippet[];
+};
+
+// The words of a query; a text matches when it contains all of them,
+// ignoring case
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+export function matchesTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.length > 0 && terms.every((term) => lower.includes(term));
+}
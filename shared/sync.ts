@@ -0,0 +1,16 @@
+import type { SharedWorld, World } from "./schema";
+
+// Live sync of a user's tabs and devices. GET /api/sync streams these as
+// Server-Sent Events named by their type. What happens inside a world's
+// chats is synced through the world's room instead (worldRoom.ts).
+export type SyncEvent =
+  // One of the user's worlds, or one shared with them (then with its
+  // ownerEmail and the user's role), was created or changed
+  | { type: "world"; world: World | SharedWorld }
+  | { type: "worldDeleted"; worldId: string }
+  // A world was shared with the user, or their share changed or was removed
+  | { type: "shares" }
+  // The global chat has a new exchange
+  | { type: "chat" };
+
+export const SYNC_EVENT_TYPES: SyncEvent["type"][] = ["world", "worldDeleted", "shares", "chat"];
@@ -0,0 +1,13 @@
+import type { WorldRole } from "./schema";
+
+// What someone may do in a world, for the server's checks and for the
+// client to hide what it would refuse. The owner may do everything; each
+// role may do what the ones before it may.
+
+export type WorldAccessLevel = WorldRole | "owner";
+
+const LEVELS: WorldAccessLevel[] = ["viewer", "player", "editor", "owner"];
+
+export function allows(level: WorldAccessLevel, needed: WorldAccessLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(needed);
+}
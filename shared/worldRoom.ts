@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { WorldAccessLevel } from "./worldRoles";
+
+// The live room of a world, over a WebSocket at WORLD_ROOM_PATH/<worldId>.
+// Messages are still sent through the chat routes; the room tells everyone
+// with the world open who is there, who is typing, when the AI is replying
+// and what changed in the chat, so they see it without reloading.
+
+export const WORLD_ROOM_PATH = "/ws/worlds";
+
+// Members are told apart by an opaque id; their email stays on the server
+export type RoomMember = {
+  id: string;
+  name: string;
+  role: WorldAccessLevel;
+};
+
+// An exchange as the world history route returns it
+export type RoomExchange = {
+  id: string;
+  parentId: string | null;
+  speaker: string | null;
+  input: string;
+  aiReply: string;
+  createdUtc: string;
+};
+
+// From the server. threadId is null for the world's own chat.
+export type WorldRoomEvent =
+  // The connection's own member id, once on joining
+  | { type: "welcome"; id: string }
+  | { type: "presence"; members: RoomMember[] }
+  | { type: "typing"; id: string; name: string; threadId: string | null; typing: boolean }
+  // Someone's message is being answered
+  | { type: "replying"; id: string; speaker: string; threadId: string | null; replying: boolean }
+  | { type: "exchange"; threadId: string | null; exchange: RoomExchange }
+  | { type: "deleted"; messageId: string }
+  // The chat changed in a way that needs a reload (a continued reply, or a
+  // backend that stores the chat itself)
+  | { type: "refresh"; threadId: string | null };
+
+// From the client
+export const worldRoomMessageSchema = z.object({
+  type: z.literal("typing"),
+  threadId: z.string().min(1).nullable(),
+  typing: z.boolean(),
+});
+
+export type WorldRoomMessage = z.infer<typeof worldRoomMessageSchema>;
+
+// Close codes of a room connection. The client reconnects after
+// accessChanged (a share was changed or removed) and stops after
+// worldDeleted.
+export const ROOM_CLOSE_CODES = {
+  accessChanged: 4001,
+  worldDeleted: 4004,
+} as const;